@@ -3,8 +3,18 @@ import { Login } from './auth/login/login';
 import { Registration } from './auth/registration/registration';
 import { ApplicationForm } from './application/application-form/application-form';
 import { ApplicationList } from './application/application-list/application-list';
+import { ApplicationDetail } from './application/application-detail/application-detail';
+import { ApplicationArchive } from './application/application-archive/application-archive';
+import { ApplicationImport } from './application/application-import/application-import';
 import { CompanyFormComponent } from './company/company';
+import { CompanyList } from './company/company-list/company-list';
+import { CompanyDetail } from './company/company-detail/company-detail';
+import { ContactList } from './contact/contact-list/contact-list';
+import { Dashboard } from './dashboard/dashboard';
+import { Reminders } from './reminders/reminders';
+import { ApplicationCalendar } from './calendar/calendar';
 import { authGuard } from './auth/auth-guard';
+import { unsavedChangesGuard } from './shared/unsaved-changes/unsaved-changes-guard';
 import { Imprint } from './shared/imprint/imprint';
 import { LegalNotice } from './shared/legal-notice/legal-notice';
 
@@ -22,7 +32,8 @@ import { LegalNotice } from './shared/legal-notice/legal-notice';
  * - **Fallback routes**: Default redirect and wildcard for invalid URLs
  * 
  * Authentication is enforced using the `authGuard` which redirects unauthenticated
- * users to the login page.
+ * users to the login page. The form routes use the `unsavedChangesGuard`, which asks
+ * for confirmation before unsaved changes are left behind.
  * 
  * @example
  * ```typescript
@@ -89,7 +100,8 @@ export const routes: Routes = [
     path: 'applications/new', 
     component: ApplicationForm, 
     title: 'Neue Bewerbung',
-    canActivate: [authGuard] // Apply authentication guard
+    canActivate: [authGuard], // Apply authentication guard
+    canDeactivate: [unsavedChangesGuard] // Confirm leaving with unsaved changes
   },
   
   /** 
@@ -104,9 +116,63 @@ export const routes: Routes = [
     path: 'applications/edit/:id', // :id is a placeholder for the application ID
     component: ApplicationForm, 
     title: 'Bewerbung bearbeiten',
+    canActivate: [authGuard], // Apply authentication guard
+    canDeactivate: [unsavedChangesGuard] // Confirm leaving with unsaved changes
+  },
+  
+  /** 
+   * Archived applications route.
+   * Lists applications that were archived and are therefore hidden from the board.
+   * Must be declared before 'applications/:id' so that "archive" is not treated as an ID.
+   * Protected route requiring authentication.
+   */
+  { 
+    path: 'applications/archive', 
+    component: ApplicationArchive, 
+    title: 'Archiv',
+    canActivate: [authGuard] // Apply authentication guard
+  },
+  
+  /** 
+   * CSV import route.
+   * Wizard for importing applications from a spreadsheet.
+   * Must be declared before 'applications/:id' so that "import" is not treated as an ID.
+   * Protected route requiring authentication.
+   */
+  { 
+    path: 'applications/import', 
+    component: ApplicationImport, 
+    title: 'Bewerbungen importieren',
+    canActivate: [authGuard] // Apply authentication guard
+  },
+  
+  /** 
+   * Application detail route.
+   * Shows a read-only view of a single application including its status timeline.
+   * Must be declared after 'applications/new', 'applications/archive' and 'applications/import' so that these are not treated as IDs.
+   * Protected route requiring authentication.
+   * 
+   * @param id - URL parameter containing the application ID to display
+   */
+  { 
+    path: 'applications/:id', 
+    component: ApplicationDetail, 
+    title: 'Bewerbungsdetails',
     canActivate: [authGuard] // Apply authentication guard
   },
   
+  /** 
+   * Company directory route.
+   * Lists all companies with the number of applications sent to each of them.
+   * Protected route requiring authentication.
+   */
+  {
+    path: 'companies',
+    component: CompanyList,
+    title: 'Firmen',
+    canActivate: [authGuard] // Apply authentication guard
+  },
+
   /** 
    * Create new company route.
    * Provides form for creating a new company with optional contact person.
@@ -116,6 +182,71 @@ export const routes: Routes = [
     path: 'companies/new',
     component: CompanyFormComponent,
     title: 'Neue Firma anlegen',
+    canActivate: [authGuard], // Apply authentication guard
+    canDeactivate: [unsavedChangesGuard] // Confirm leaving with unsaved changes
+  },
+
+  /** 
+   * Company detail route.
+   * Shows a company with its applications and contacts and allows inline editing.
+   * Must be declared after 'companies/new' so that "new" is not treated as an ID.
+   * Protected route requiring authentication.
+   * 
+   * @param id - URL parameter containing the company ID to display
+   */
+  {
+    path: 'companies/:id',
+    component: CompanyDetail,
+    title: 'Firmendetails',
+    canActivate: [authGuard] // Apply authentication guard
+  },
+  
+  /** 
+   * Contact management route.
+   * Lists all contacts across companies and allows creating, editing, deleting
+   * and re-linking them to applications.
+   * Protected route requiring authentication.
+   */
+  {
+    path: 'contacts',
+    component: ContactList,
+    title: 'Kontaktpersonen',
+    canActivate: [authGuard] // Apply authentication guard
+  },
+  
+  /** 
+   * Analytics dashboard route.
+   * Shows the application funnel, response times and charts computed from all applications.
+   * Protected route requiring authentication.
+   */
+  {
+    path: 'dashboard',
+    component: Dashboard,
+    title: 'Dashboard',
+    canActivate: [authGuard] // Apply authentication guard
+  },
+  
+  /** 
+   * Reminder center route.
+   * Lists overdue, today's and upcoming follow-ups with actions to complete or snooze them.
+   * Protected route requiring authentication.
+   */
+  {
+    path: 'reminders',
+    component: Reminders,
+    title: 'Erinnerungen',
+    canActivate: [authGuard] // Apply authentication guard
+  },
+  
+  /** 
+   * Calendar route.
+   * Shows all application dates in a month or week view; follow-ups can be rescheduled by drag & drop.
+   * Protected route requiring authentication.
+   */
+  {
+    path: 'calendar',
+    component: ApplicationCalendar,
+    title: 'Kalender',
     canActivate: [authGuard] // Apply authentication guard
   },
   
@@ -2,8 +2,10 @@ import { Component, signal, OnInit, inject, OnDestroy } from '@angular/core';
 import { CommonModule } from '@angular/common';
 import { Router, RouterOutlet, RouterLink, RouterLinkActive } from '@angular/router';
 import { Api } from './services/api';
-import { Company } from './models/api-interfaces';
+import { DataStoreService } from './services/data-store';
+import { FollowUpNotificationService } from './services/follow-up-notifications';
 import { FooterComponent } from './shared/footer/footer';
+import { OfflineStatus } from './shared/offline-status/offline-status';
 import { Subscription } from 'rxjs';
 
 /**
@@ -14,6 +16,8 @@ import { Subscription } from 'rxjs';
  * - User authentication state management.
  * - Initial loading of global data like companies.
  * - Logout functionality.
+ * - The offline status with the changes waiting to be synced.
+ * - Browser notifications about due follow-ups while the user is logged in.
  * 
  * @example
  * ```html
@@ -34,6 +38,7 @@ import { Subscription } from 'rxjs';
     RouterLink,
     RouterLinkActive,
     FooterComponent,
+    OfflineStatus,
   ],
   templateUrl: './app.html',
   styleUrl: './app.scss'
@@ -46,13 +51,6 @@ export class App implements OnInit, OnDestroy {
    */
   protected readonly title = signal('application-tracker-fe');
   
-  /** 
-   * List of companies loaded from the API.
-   * Used for dropdown selections throughout the application.
-   * @default []
-   */
-  companies: Company[] = [];
-
   /** 
    * Holds the subscription to the authentication state observable.
    * This is used to clean up the subscription when the component is destroyed, preventing memory leaks.
@@ -74,40 +72,44 @@ export class App implements OnInit, OnDestroy {
   /** Router service for programmatic navigation */
   private router = inject(Router);
 
+  /** Store caching the data shared between all views */
+  private store = inject(DataStoreService);
+
+  /** Service notifying the user about due follow-ups, if enabled */
+  private followUpNotifications = inject(FollowUpNotificationService);
+
   /**
    * Component initialization lifecycle hook.
    * 
-   * Subscribes to the authentication state. When the user logs in, it loads
-   * global data required by the application, such as the list of companies.
+   * Subscribes to the authentication state. When the user logs in, it preloads
+   * global data required by the application, such as the list of companies, and
+   * starts the follow-up notifications. They are stopped on logout.
    * 
    * @remarks
    * This method sets up a reactive flow: the list of companies is automatically
-   * loaded upon login and cleared upon logout, ensuring data is only fetched
-   * for authenticated users.
+   * loaded into the {@link DataStoreService} upon login. The store clears itself
+   * upon logout, ensuring data is only kept for authenticated users.
    */
   ngOnInit(): void {
      this.authSubscription = this.apiService.isLoggedIn$.subscribe(isLoggedIn => {
       if (isLoggedIn) {
-        this.loadCompanies();
+        this.preloadCompanies();
+        this.followUpNotifications.start();
       } else {
-        this.companies = [];
+        this.followUpNotifications.stop();
       }
     });
   }
 
   /**
-   * Fetches the list of companies from the API.
+   * Loads the list of companies into the store.
    * 
    * This private method is called when the user is authenticated.
-   * It populates the `companies` array on success and logs an error on failure.
+   * It logs an error on failure; the views retry when they need the data.
    * @private
    */
-  private loadCompanies(): void {
-    this.apiService.getCompanies().subscribe({
-      next: (data) => {
-        this.companies = data;
-        // console.log('Companies successfully loaded:', this.companies);
-      },
+  private preloadCompanies(): void {
+    this.store.loadCompanies().subscribe({
       error: (err) => {
         console.error('Error loading companies:', err);
       }
@@ -154,6 +156,7 @@ export class App implements OnInit, OnDestroy {
    */
   ngOnDestroy(): void {
     this.authSubscription?.unsubscribe();
+    this.followUpNotifications.stop();
   }
 
   /**
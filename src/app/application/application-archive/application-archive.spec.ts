@@ -0,0 +1,23 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+
+import { ApplicationArchive } from './application-archive';
+
+describe('ApplicationArchive', () => {
+  let component: ApplicationArchive;
+  let fixture: ComponentFixture<ApplicationArchive>;
+
+  beforeEach(async () => {
+    await TestBed.configureTestingModule({
+      imports: [ApplicationArchive]
+    })
+    .compileComponents();
+
+    fixture = TestBed.createComponent(ApplicationArchive);
+    component = fixture.componentInstance;
+    fixture.detectChanges();
+  });
+
+  it('should create', () => {
+    expect(component).toBeTruthy();
+  });
+});
@@ -0,0 +1,133 @@
+import { Component, OnInit, inject } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { RouterLink } from '@angular/router';
+import { DataStoreService } from '../../services/data-store';
+import { NotificationService } from '../../services/notification';
+import { ApplicationDeletionService } from '../../services/application-deletion';
+import { ConfirmDialog } from '../../shared/confirm-dialog/confirm-dialog';
+import { Application } from '../../models/api-interfaces';
+
+/**
+ * Component for displaying archived job applications.
+ *
+ * Archived applications are hidden from the Kanban board. This view lists them
+ * and allows restoring them to the board or deleting them permanently.
+ *
+ * @example
+ * ```html
+ * <app-application-archive></app-application-archive>
+ * ```
+ */
+@Component({
+  selector: 'app-application-archive',
+  standalone: true,
+  imports: [CommonModule, RouterLink, ConfirmDialog],
+  templateUrl: './application-archive.html',
+  styleUrl: './application-archive.scss',
+})
+export class ApplicationArchive implements OnInit {
+  // --- DEPENDENCY INJECTION ---
+  private store = inject(DataStoreService);
+  private notificationService = inject(NotificationService);
+  private deletionService = inject(ApplicationDeletionService);
+
+  // --- COMPONENT STATE ---
+
+  /**
+   * The archived applications from the store, newest first.
+   */
+  get archivedApplications(): Application[] {
+    return this.store.archivedApplications();
+  }
+
+  /**
+   * A flag indicating whether data is currently being loaded.
+   * @default true
+   */
+  public isLoading = true;
+
+  /**
+   * A string to hold an error message if loading fails.
+   * @default null
+   */
+  public errorMessage: string | null = null;
+
+  /**
+   * The application the user wants to delete. While set, the confirmation dialog is displayed.
+   * @default null
+   */
+  public applicationToDelete: Application | null = null;
+
+  /**
+   * Component initialization lifecycle hook.
+   * Loads the applications into the store.
+   */
+  ngOnInit(): void {
+    this.loadArchivedApplications();
+  }
+
+  /**
+   * Loads all applications into the store; the archived ones are selected by the store.
+   */
+  loadArchivedApplications(): void {
+    this.isLoading = !this.store.applicationsLoaded();
+    this.errorMessage = null;
+
+    this.store.loadApplications().subscribe({
+      next: () => {
+        this.isLoading = false;
+      },
+      error: (err) => {
+        this.notificationService.showError(
+          'Archived applications could not be loaded from the server.',
+          'Loading Error'
+        );
+        this.errorMessage = 'Error loading archived applications.';
+        this.isLoading = false;
+        console.error('Error loading archived applications:', err);
+      },
+    });
+  }
+
+  /**
+   * Restores an archived application to the board.
+   * The store moves it immediately and moves it back if the API call fails.
+   * @param application - The application to restore.
+   */
+  restoreApplication(application: Application): void {
+    this.store.setApplicationArchived(application, false).subscribe({
+      next: () => {
+        this.notificationService.showSuccess(
+          `"${application.job_title}" is back on the board.`,
+          'Restored'
+        );
+      },
+      error: (err) => {
+        this.notificationService.showError(
+          `"${application.job_title}" could not be restored.`,
+          'Saving failed'
+        );
+        console.error('Error restoring application:', err);
+      },
+    });
+  }
+
+  /**
+   * Opens the confirmation dialog for deleting an application.
+   * @param application - The application to delete.
+   */
+  requestDelete(application: Application): void {
+    this.applicationToDelete = application;
+  }
+
+  /**
+   * Confirms the deletion and schedules it with an undo toast.
+   */
+  confirmDelete(): void {
+    const application = this.applicationToDelete;
+    this.applicationToDelete = null;
+    if (!application) return;
+
+    this.deletionService.scheduleDeletion(application);
+  }
+}
@@ -0,0 +1,187 @@
+import { Component, OnInit, inject } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { ActivatedRoute, Router, RouterLink } from '@angular/router';
+import { Api } from '../../services/api';
+import { DataStoreService } from '../../services/data-store';
+import { isTemporaryId } from '../../services/offline-queue';
+import { NotificationService } from '../../services/notification';
+import { ApplicationExportService } from '../../services/application-export';
+import { LinkPreview } from '../../shared/link-preview/link-preview';
+import { NotesPanel } from '../../shared/notes-panel/notes-panel';
+import { DocumentsPanel } from '../../shared/documents-panel/documents-panel';
+import { Application, STATUS_DISPLAY, StatusChange } from '../../models/api-interfaces';
+
+/**
+ * A single entry in the status timeline of an application.
+ */
+export interface TimelineEntry {
+  /** The date of the event as an ISO formatted string. */
+  date: string;
+  /** The user-facing label of the event. */
+  label: string;
+  /** A CSS modifier used to colour the timeline marker. */
+  type: 'created' | 'applied' | 'interview' | 'offer' | 'rejected' | 'follow-up';
+}
+
+/**
+ * Component for displaying a single job application in a read-only view.
+ *
+ * Shows all details of an application, including company, contact, job posting link,
+ * salary expectation and notes, as well as a chronological timeline of its status dates
+ * and the full status history with the comments entered for each transition. Notes can be
+ * added, edited and deleted, and documents uploaded and downloaded, directly on this page.
+ * An "Edit" action leads to the existing application form, and the interview, follow-up
+ * and offer dates can be downloaded as a calendar file.
+ *
+ * @example
+ * ```html
+ * <app-application-detail></app-application-detail>
+ * ```
+ */
+@Component({
+  selector: 'app-application-detail',
+  standalone: true,
+  imports: [CommonModule, RouterLink, LinkPreview, NotesPanel, DocumentsPanel],
+  templateUrl: './application-detail.html',
+  styleUrl: './application-detail.scss',
+})
+export class ApplicationDetail implements OnInit {
+  // --- DEPENDENCY INJECTION ---
+  private apiService = inject(Api);
+  private store = inject(DataStoreService);
+  private route = inject(ActivatedRoute);
+  private router = inject(Router);
+  private notificationService = inject(NotificationService);
+  private exportService = inject(ApplicationExportService);
+
+  // --- COMPONENT STATE ---
+
+  /**
+   * The application being displayed, or `null` while it is loading.
+   * @default null
+   */
+  public application: Application | null = null;
+
+  /**
+   * The chronologically sorted timeline entries built from the application's dates.
+   * @default []
+   */
+  public timeline: TimelineEntry[] = [];
+
+  /**
+   * A flag indicating whether the application is currently being loaded.
+   * @default true
+   */
+  public isLoading = true;
+
+  /**
+   * The recorded status transitions of the application, newest first.
+   * @default []
+   */
+  public statusHistory: StatusChange[] = [];
+
+  /**
+   * A flag indicating whether the status history could not be loaded.
+   * @default false
+   */
+  public statusHistoryFailed = false;
+
+  /** Display names of the statuses, used for the status history. */
+  public readonly statusDisplay = STATUS_DISPLAY;
+
+  /**
+   * Component initialization lifecycle hook.
+   * Reads the application ID from the route and loads the application.
+   */
+  ngOnInit(): void {
+    const id = this.route.snapshot.paramMap.get('id');
+    if (id) {
+      this.loadApplication(id);
+    }
+  }
+
+  /**
+   * Fetches the application via the store and builds its timeline.
+   * Navigates back to the board if the application cannot be loaded.
+   * @param id - The unique identifier of the application to load.
+   */
+  loadApplication(id: string): void {
+    this.isLoading = true;
+    this.store.loadApplication(Number(id)).subscribe({
+      next: (application) => {
+        this.application = application;
+        this.timeline = this.buildTimeline(application);
+        this.isLoading = false;
+        this.loadStatusHistory(application.id);
+      },
+      error: (err) => {
+        this.isLoading = false;
+        this.notificationService.showError(
+          'The application details could not be loaded.',
+          'Error'
+        );
+        console.error('Error loading application:', err);
+        this.router.navigate(['/applications']);
+      },
+    });
+  }
+
+  /**
+   * Fetches the status history of the application.
+   * Applications that have not been synced yet have no history on the server.
+   * @param id - The unique identifier of the application.
+   */
+  loadStatusHistory(id: number): void {
+    this.statusHistory = [];
+    this.statusHistoryFailed = false;
+    if (isTemporaryId(id)) return;
+
+    this.apiService.getStatusHistory(id).subscribe({
+      next: (history) => {
+        this.statusHistory = [...history].sort((a, b) => b.changed_at.localeCompare(a.changed_at));
+      },
+      error: (err) => {
+        this.statusHistoryFailed = true;
+        console.error('Error loading status history:', err);
+      },
+    });
+  }
+
+  /**
+   * Downloads the interview, follow-up and offer dates of the application as an `.ics` file.
+   */
+  downloadCalendar(): void {
+    if (!this.application) return;
+
+    const downloaded = this.exportService.exportCalendar(
+      [this.application],
+      `bewerbung-${this.application.id}.ics`
+    );
+    if (!downloaded) {
+      this.notificationService.showInfo('This application has no interview, follow-up or offer date yet.');
+    }
+  }
+
+  /**
+   * Builds a chronological timeline from all date fields of an application.
+   * Date fields without a value are skipped.
+   *
+   * @param application - The application to build the timeline for.
+   * @returns The timeline entries, sorted from oldest to newest.
+   * @private
+   */
+  private buildTimeline(application: Application): TimelineEntry[] {
+    const candidates: { date: string | null; label: string; type: TimelineEntry['type'] }[] = [
+      { date: application.created_at, label: 'Erfasst', type: 'created' },
+      { date: application.applied_on, label: 'Beworben', type: 'applied' },
+      { date: application.interview_on, label: 'Interview', type: 'interview' },
+      { date: application.offer_on, label: 'Angebot erhalten', type: 'offer' },
+      { date: application.rejected_on, label: 'Abgelehnt', type: 'rejected' },
+      { date: application.follow_up_on, label: 'Nachhaken', type: 'follow-up' },
+    ];
+
+    return candidates
+      .filter((entry): entry is TimelineEntry => !!entry.date)
+      .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+  }
+}
@@ -1,5 +1,5 @@
 import { CommonModule } from '@angular/common';
-import { Component, OnInit, inject } from '@angular/core';
+import { Component, HostListener, OnDestroy, OnInit, inject } from '@angular/core';
 import { Router, RouterLink, ActivatedRoute } from '@angular/router';
 import {
   FormArray,
@@ -12,11 +12,35 @@ import {
   FormGroup,
 } from '@angular/forms';
 
-import { forkJoin, of, Observable, throwError } from 'rxjs';
-import { switchMap } from 'rxjs/operators';
+import { Observable, Subject, Subscription, of, throwError } from 'rxjs';
+import { catchError, concatMap, debounceTime, finalize, take, tap } from 'rxjs/operators';
 
 import { Api } from '../../services/api';
+import { DataStoreService, toApplicationPayload } from '../../services/data-store';
 import { NotificationService } from '../../services/notification';
+import { ApiErrorService } from '../../services/api-error';
+import { ApplicationDeletionService } from '../../services/application-deletion';
+import { OfflineQueueService, isTemporaryId } from '../../services/offline-queue';
+import { FormDraft, FormDraftService } from '../../services/form-draft';
+import { ConfirmDialog } from '../../shared/confirm-dialog/confirm-dialog';
+import { ServerError } from '../../shared/server-error/server-error';
+import { DraftBanner } from '../../shared/draft-banner/draft-banner';
+import { NotesPanel } from '../../shared/notes-panel/notes-panel';
+import { DocumentsPanel } from '../../shared/documents-panel/documents-panel';
+import { CanComponentDeactivate } from '../../shared/unsaved-changes/unsaved-changes-guard';
+import { PartialSaveError, SaveStep, runSaveSteps } from './save-steps';
+import { StatusTransition, detectStatusTransition } from './status-transition';
+import {
+  InterviewFormValue,
+  diffInterviews,
+  toInterviewFormValue,
+  toInterviewPayload,
+} from './interview-changes';
+import {
+  JobPostingInfo,
+  jobPostingUrlValidator,
+  parseJobPostingLink,
+} from '../../shared/link-preview/job-posting-link';
 import {
   Application,
   ApplicationStatus,
@@ -24,9 +48,32 @@ import {
   Contact,
   CreateApplicationPayload,
   CreateContactPayload,
-  Note,
+  CreateStatusChangePayload,
+  INTERVIEW_OUTCOME_DISPLAY,
+  INTERVIEW_TYPE_DISPLAY,
+  Interview,
+  InterviewOutcome,
+  InterviewType,
 } from '../../models/api-interfaces';
 
+/** Time without input after which the form is autosaved as a draft, in milliseconds. */
+const DRAFT_AUTOSAVE_DELAY_MS = 500;
+
+/** Time without input after which an entered job posting link is evaluated, in milliseconds. */
+const LINK_RECOGNITION_DELAY_MS = 300;
+
+/**
+ * Normalizes a company name for comparing it with a name read from a URL,
+ * e.g. "Tech Corp GmbH" and "techcorp".
+ * @param name - The company name.
+ */
+function normalizeCompanyName(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/\b(gmbh|ag|se|kg|inc|ltd|llc)\b/g, '')
+    .replace(/[^\p{L}\p{N}]/gu, '');
+}
+
 /**
  * A custom validator that ensures that if a contact is being created,
  * both the first name and last name fields are filled out, or neither are.
@@ -50,22 +97,32 @@ export const contactRequiredValidator: ValidatorFn = (
  * This component handles a comprehensive form that allows users to create new applications
  * or edit existing ones. It manages the component's state (create vs. edit mode),
  * handles dynamic form controls, and orchestrates complex, multi-step API operations
- * for saving data, including nested entities like companies, contacts, and notes.
+ * for saving data, including nested entities like companies, contacts, and interviews.
+ * Notes are managed by the {@link NotesPanel} and attached documents by the {@link DocumentsPanel},
+ * which save every change on their own.
+ *
+ * Unsaved input is autosaved as a draft and offered for restore when the user returns to
+ * the same route. Leaving the form with unsaved changes has to be confirmed.
  */
 @Component({
   selector: 'app-application-form',
   standalone: true,
-  imports: [CommonModule, ReactiveFormsModule, RouterLink],
+  imports: [CommonModule, ReactiveFormsModule, RouterLink, ConfirmDialog, ServerError, DraftBanner, NotesPanel, DocumentsPanel],
   templateUrl: './application-form.html',
   styleUrl: './application-form.scss',
 })
-export class ApplicationForm implements OnInit {
+export class ApplicationForm implements OnInit, OnDestroy, CanComponentDeactivate {
   // --- DEPENDENCY INJECTION ---
   private fb = inject(FormBuilder);
   private apiService = inject(Api);
+  private store = inject(DataStoreService);
   private router = inject(Router);
   private route = inject(ActivatedRoute);
   private notificationService = inject(NotificationService);
+  private apiErrorService = inject(ApiErrorService);
+  private deletionService = inject(ApplicationDeletionService);
+  private offlineQueue = inject(OfflineQueueService);
+  private formDraft = inject(FormDraftService);
 
   // --- COMPONENT STATE ---
   companies: Company[] = [];
@@ -73,7 +130,26 @@ export class ApplicationForm implements OnInit {
   currentApplicationId: string | null = null;
   isEditMode = false;
   currentContactId: number | null = null;
+  currentApplication: Application | null = null;
+  isDeleteDialogOpen = false;
+  /** Whether a save is running; disables the submit button. */
+  isSaving = false;
   applicationForm!: FormGroup;
+  /** The autosaved draft offered for restore, or `null` if there is none. */
+  draft: FormDraft<any> | null = null;
+  /** Receives the user's decision while the leave confirmation is shown, otherwise `null`. */
+  leaveConfirmation: Subject<boolean> | null = null;
+  /** What could be read from the entered job posting link, or `null` if there is no valid link. */
+  jobPostingInfo: JobPostingInfo | null = null;
+  /** Fields that were filled in from the job posting link, for the hint below the field. */
+  prefilledFromLink: string[] = [];
+  /** A company name read from the job posting link that matches no existing company. */
+  unmatchedCompanyName: string | null = null;
+  /** The interview types offered in the interview sub-form. */
+  readonly interviewTypes = Object.entries(INTERVIEW_TYPE_DISPLAY) as [InterviewType, string][];
+  /** The interview outcomes offered in the interview sub-form. */
+  readonly interviewOutcomes = Object.entries(INTERVIEW_OUTCOME_DISPLAY) as [InterviewOutcome, string][];
+  private draftSubscription: Subscription | undefined;
 
   // =================================================================================
   // LIFECYCLE & INITIALIZATION
@@ -89,7 +165,20 @@ export class ApplicationForm implements OnInit {
 
     this.createForm();
     this.setupConditionalValidation();
+    this.setupJobPostingLinkRecognition();
+    this.setupDraftAutosave();
     this.loadInitialData();
+
+    if (!this.isEditMode) {
+      this.draft = this.formDraft.load(this.draftKey);
+    }
+  }
+
+  /**
+   * Stops autosaving the draft.
+   */
+  ngOnDestroy(): void {
+    this.draftSubscription?.unsubscribe();
   }
 
   /**
@@ -98,8 +187,8 @@ export class ApplicationForm implements OnInit {
    * @private
    */
   private loadInitialData(): void {
-    this.apiService.getCompanies().subscribe((data) => {
-      this.companies = data;
+    this.store.loadCompanies().subscribe(() => {
+      this.companies = this.store.companies();
     });
 
     if (this.isEditMode && this.currentApplicationId) {
@@ -137,6 +226,7 @@ export class ApplicationForm implements OnInit {
     return this.fb.group({
       job_title: ['', Validators.required],
       salary_expectation: [null as number | null],
+      job_posting_link: ['', jobPostingUrlValidator],
       company_id: ['', Validators.required],
       status: ['DRAFT' as ApplicationStatus | null, Validators.required],
       applied_on: [null as string | null],
@@ -144,6 +234,7 @@ export class ApplicationForm implements OnInit {
       offer_on: [null as string | null],
       rejected_on: [null as string | null],
       follow_up_on: [null as string | null],
+      status_comment: [''],
     });
   }
 
@@ -161,7 +252,7 @@ export class ApplicationForm implements OnInit {
    * @private
    */
   private addControlsForEditMode(): void {
-    this.applicationForm.addControl('notes', this.fb.array([]));
+    this.applicationForm.addControl('interviews', this.fb.array([]));
     this.applicationForm.addControl('details', this.buildDetailsFormGroup());
     this.applicationForm.get('company_id')?.disable();
   }
@@ -193,10 +284,48 @@ export class ApplicationForm implements OnInit {
   }
 
   /**
-   * A getter for convenient, type-safe access to the 'notes' FormArray.
+   * A getter for convenient, type-safe access to the 'interviews' FormArray.
+   */
+  get interviews(): FormArray {
+    return this.applicationForm.get('interviews') as FormArray;
+  }
+
+  /**
+   * The contacts that can be selected as interviewers: the contacts of the company and
+   * the interviewers already assigned, even if the company's contacts could not be loaded.
+   */
+  get interviewerOptions(): Contact[] {
+    const assigned = (this.currentApplication?.interviews ?? []).flatMap((i) => i.interviewers);
+    return [...this.contactsForSelectedCompany, ...assigned].filter(
+      (contact, index, contacts) => contacts.findIndex((c) => c.id === contact.id) === index
+    );
+  }
+
+  /**
+   * Builds the FormGroup of a single interview.
+   * @param value - The interview to edit, or nothing for a new interview.
+   * @returns The FormGroup for the 'interviews' FormArray.
+   * @private
+   */
+  private buildInterviewGroup(value?: InterviewFormValue): FormGroup {
+    return this.fb.group({
+      id: [value?.id ?? null],
+      scheduled_at: [value?.scheduled_at ?? '', Validators.required],
+      interview_type: [value?.interview_type ?? ('VIDEO' as InterviewType), Validators.required],
+      location: [value?.location ?? ''],
+      interviewer_ids: [value?.interviewer_ids ?? ([] as number[])],
+      preparation_notes: [value?.preparation_notes ?? ''],
+      outcome: [value?.outcome ?? ('PENDING' as InterviewOutcome)],
+    });
+  }
+
+  /**
+   * The status transition that saving the form records in the status history, or `null`
+   * if the status has not changed. The comment field is only shown while there is one.
    */
-  get notes(): FormArray {
-    return this.applicationForm.get('notes') as FormArray;
+  get pendingStatusTransition(): StatusTransition | null {
+    if (this.isEditMode && !this.currentApplication) return null;
+    return detectStatusTransition(this.currentApplication, this.applicationForm.getRawValue());
   }
 
   // =================================================================================
@@ -208,7 +337,7 @@ export class ApplicationForm implements OnInit {
    * @param id - The unique identifier of the application to load.
    */
   loadApplicationForEdit(id: string): void {
-    this.apiService.getApplicationById(id).subscribe({
+    this.store.loadApplication(Number(id)).subscribe({
       next: (application) => this.populateFormWithData(application),
       error: (err: any) => this.onSaveError(err, 'load'),
     });
@@ -222,6 +351,7 @@ export class ApplicationForm implements OnInit {
    */
   private populateFormWithData(application: Application): void {
     // 1. Reset state and patch top-level values
+    this.currentApplication = application;
     this.currentContactId = null;
     this.applicationForm.patchValue(application);
 
@@ -241,20 +371,26 @@ export class ApplicationForm implements OnInit {
         ?.patchValue(application.contact);
     }
 
-    // 4. Populate notes array
-    this.populateNotesArray(application.notes);
+    // 4. Populate interviews array
+    this.populateInterviewsArray((application.interviews ?? []).map(toInterviewFormValue));
+
+    // 5. Load the company's contacts, who can be selected as interviewers
+    if (this.offlineQueue.online()) {
+      this.loadContactsForCompany(application.company.id);
+    }
+
+    // 6. Offer a draft of unsaved changes to this application
+    this.draft = this.formDraft.load(this.draftKey);
   }
 
   /**
-   * Clears and repopulates the notes FormArray with data.
-   * @param notesData - The array of note objects from the application data.
+   * Clears and repopulates the interviews FormArray with data.
+   * @param interviews - The form values of the interviews.
    * @private
    */
-  private populateNotesArray(notesData: Note[]): void {
-    this.notes.clear();
-    notesData.forEach((note) => {
-      this.notes.push(this.fb.group({ id: note.id, text: note.text }));
-    });
+  private populateInterviewsArray(interviews: InterviewFormValue[]): void {
+    this.interviews.clear();
+    interviews.forEach((interview) => this.interviews.push(this.buildInterviewGroup(interview)));
   }
 
   /**
@@ -328,25 +464,219 @@ export class ApplicationForm implements OnInit {
     });
   }
 
+  /**
+   * Evaluates the job posting link whenever it changes: recognises the job board and
+   * fills in the fields that can be read from the URL.
+   * @private
+   */
+  private setupJobPostingLinkRecognition(): void {
+    const control = this.applicationForm.get('job_posting_link');
+    control?.valueChanges.pipe(debounceTime(LINK_RECOGNITION_DELAY_MS)).subscribe((value) => {
+      this.jobPostingInfo = control.valid ? parseJobPostingLink(value ?? '') : null;
+      this.prefilledFromLink = [];
+      this.unmatchedCompanyName = null;
+      // Only links entered by the user fill in other fields, not links of a loaded application
+      if (this.jobPostingInfo && control.dirty) {
+        this.prefillFromJobPostingLink(this.jobPostingInfo);
+      }
+    });
+  }
+
+  /**
+   * Fills in the job title and, when creating an application, the company from a recognised
+   * job posting link. Fields the user has already filled in are not changed. The company is
+   * only selected if a company with a matching name exists.
+   * @param info - What could be read from the link.
+   * @private
+   */
+  private prefillFromJobPostingLink(info: JobPostingInfo): void {
+    const jobTitle = this.applicationForm.get('job_title');
+    if (info.jobTitle && jobTitle && !jobTitle.value) {
+      jobTitle.setValue(info.jobTitle);
+      jobTitle.markAsDirty();
+      this.prefilledFromLink.push('Jobtitel');
+    }
+
+    const companyId = this.applicationForm.get('company_id');
+    if (info.companyName && companyId?.enabled && !companyId.value) {
+      const name = normalizeCompanyName(info.companyName);
+      const company = this.companies.find((c) => normalizeCompanyName(c.name) === name);
+      if (company) {
+        companyId.setValue(company.id);
+        companyId.markAsDirty();
+        this.prefilledFromLink.push('Unternehmen');
+      } else {
+        this.unmatchedCompanyName = info.companyName;
+      }
+    }
+  }
+
   // =================================================================================
-  // FORM ACTIONS (NOTES)
+  // FORM ACTIONS (INTERVIEWS)
   // =================================================================================
 
   /**
-   * Adds a new, empty note group to the 'notes' FormArray.
+   * Adds a new, empty interview to the 'interviews' FormArray.
    */
-  onAddNote(): void {
-    this.notes.push(
-      this.fb.group({ id: [null], text: ['', Validators.required] })
-    );
+  onAddInterview(): void {
+    this.interviews.push(this.buildInterviewGroup());
+  }
+
+  /**
+   * Removes an interview from the 'interviews' FormArray at a given index.
+   * A saved interview is deleted when the form is saved.
+   * @param index - The index of the interview to remove.
+   */
+  onDeleteInterview(index: number): void {
+    this.interviews.removeAt(index);
+    this.interviews.markAsDirty();
+  }
+
+  // =================================================================================
+  // DRAFTS & UNSAVED CHANGES
+  // =================================================================================
+
+  /**
+   * Identifies the draft of this form: one for new applications and one per edited application.
+   */
+  get draftKey(): string {
+    return this.isEditMode
+      ? `applications/edit/${this.currentApplicationId}`
+      : 'applications/new';
+  }
+
+  /**
+   * Saves the form as a draft whenever the user has changed it.
+   * Changes made by loading an application do not mark the form as dirty and are not saved.
+   * @private
+   */
+  private setupDraftAutosave(): void {
+    this.draftSubscription = this.applicationForm.valueChanges
+      .pipe(debounceTime(DRAFT_AUTOSAVE_DELAY_MS))
+      .subscribe(() => this.saveDraft());
+  }
+
+  /**
+   * Saves the current form value as a draft if it contains unsaved changes.
+   * An older draft that was not restored is replaced.
+   * @private
+   */
+  private saveDraft(): void {
+    if (!this.applicationForm.dirty) return;
+    this.draft = null;
+    this.formDraft.save(this.draftKey, this.applicationForm.getRawValue());
+  }
+
+  /**
+   * Fills the form with the autosaved draft.
+   */
+  onRestoreDraft(): void {
+    if (!this.draft) return;
+
+    const value = this.draft.value;
+    if (this.isEditMode) {
+      this.populateInterviewsArray(value.interviews ?? []);
+    }
+    this.applicationForm.patchValue(value);
+    this.applicationForm.markAsDirty();
+    this.draft = null;
+  }
+
+  /**
+   * Deletes the autosaved draft.
+   */
+  onDiscardDraft(): void {
+    this.formDraft.remove(this.draftKey);
+    this.draft = null;
+  }
+
+  /**
+   * Asks for confirmation before the user leaves the form with unsaved changes.
+   * Called by the `unsavedChangesGuard`.
+   * @returns `true` if there are no unsaved changes, otherwise an Observable emitting the user's decision.
+   */
+  canDeactivate(): boolean | Observable<boolean> {
+    if (!this.applicationForm.dirty) return true;
+
+    this.leaveConfirmation = new Subject<boolean>();
+    return this.leaveConfirmation.pipe(take(1));
+  }
+
+  /**
+   * Passes the user's decision from the leave confirmation on to the router.
+   * The draft is kept, so the changes can be restored later.
+   * @param leave - `true` to leave the form, `false` to stay.
+   */
+  onLeaveDecision(leave: boolean): void {
+    const confirmation = this.leaveConfirmation;
+    this.leaveConfirmation = null;
+    confirmation?.next(leave);
+  }
+
+  /**
+   * Warns before the tab is closed or reloaded with unsaved changes and saves them as a draft.
+   * @param event - The browser's unload event.
+   */
+  @HostListener('window:beforeunload', ['$event'])
+  onBeforeUnload(event: BeforeUnloadEvent): void {
+    if (!this.applicationForm.dirty) return;
+    this.saveDraft();
+    event.preventDefault();
+  }
+
+  /**
+   * Marks the form as saved and deletes its draft, so that leaving it needs no confirmation.
+   * @private
+   */
+  private discardUnsavedChanges(): void {
+    this.applicationForm.markAsPristine();
+    this.formDraft.remove(this.draftKey);
+  }
+
+  // =================================================================================
+  // ARCHIVE & DELETE
+  // =================================================================================
+
+  /**
+   * Archives the current application, or restores it if it is already archived,
+   * and navigates back to the board.
+   */
+  onToggleArchive(): void {
+    const application = this.currentApplication;
+    if (!application) return;
+
+    const archived = !application.archived;
+    this.store.setApplicationArchived(application, archived).subscribe({
+      next: () => {
+        this.notificationService.showSuccess(
+          archived
+            ? `"${application.job_title}" has been moved to the archive.`
+            : `"${application.job_title}" is back on the board.`
+        );
+        this.router.navigate(['/applications']);
+      },
+      error: (err: any) => this.onSaveError(err, 'update'),
+    });
+  }
+
+  /**
+   * Checks whether the application can be deleted; saved applications only while online.
+   */
+  canDelete(): boolean {
+    return !!this.currentApplication && this.store.canDeleteApplication(this.currentApplication.id);
   }
 
   /**
-   * Removes a note from the 'notes' FormArray at a given index.
-   * @param index - The index of the note to remove.
+   * Confirms the delete dialog, schedules the deletion with an undo toast
+   * and navigates back to the board.
    */
-  onDeleteNote(index: number): void {
-    this.notes.removeAt(index);
+  onConfirmDelete(): void {
+    this.isDeleteDialogOpen = false;
+    if (!this.currentApplication || !this.canDelete()) return;
+
+    this.deletionService.scheduleDeletion(this.currentApplication);
+    this.discardUnsavedChanges();
+    this.router.navigate(['/applications']);
   }
 
   // =================================================================================
@@ -367,12 +697,18 @@ export class ApplicationForm implements OnInit {
       return;
     }
 
+    const statusChange = this.buildStatusChangePayload(this.applicationForm.getRawValue());
     const operation$ = this.isEditMode
-      ? this.handleUpdateApplication()
-      : this.handleCreateApplication();
+      ? this.handleUpdateApplication().pipe(
+          concatMap(() => this.recordStatusChange(Number(this.currentApplicationId), statusChange))
+        )
+      : this.handleCreateApplication().pipe(
+          concatMap((application) => this.recordStatusChange(application.id, statusChange))
+        );
 
-    operation$.subscribe({
-      next: () => this.onSaveSuccess(),
+    this.isSaving = true;
+    operation$.pipe(finalize(() => (this.isSaving = false))).subscribe({
+      next: () => this.onSaveSuccess(!this.offlineQueue.online()),
       error: (err: any) =>
         this.onSaveError(err, this.isEditMode ? 'update' : 'create'),
     });
@@ -386,7 +722,7 @@ export class ApplicationForm implements OnInit {
   private handleCreateApplication(): Observable<Application> {
     const formValue = this.applicationForm.getRawValue();
     const payload = this.buildCreateApplicationPayload(formValue);
-    return this.apiService.createApplication(payload);
+    return this.store.createApplication(payload);
   }
 
   /**
@@ -397,16 +733,17 @@ export class ApplicationForm implements OnInit {
    */
   private handleUpdateApplication(): Observable<any> {
     if (!this.currentApplicationId) {
-      const error = 'Edit mode is active, but no application ID is present.';
-      console.error(error);
-      this.notificationService.showError(
-        'Cannot save changes, application ID is missing.',
-        'Error'
+      // Reported by onSaveError like any other failed save
+      return throwError(
+        () => new Error('Cannot save changes, application ID is missing.')
       );
-      return throwError(() => new Error(error));
     }
 
     const formValue = this.applicationForm.getRawValue();
+    if (!this.offlineQueue.online() || isTemporaryId(Number(this.currentApplicationId))) {
+      return this.handleOfflineUpdate(formValue);
+    }
+
     const contactData = formValue.details.contact;
     const contactFormHasData =
       contactData?.first_name && contactData?.last_name;
@@ -417,12 +754,78 @@ export class ApplicationForm implements OnInit {
       : this.handleUpdates(formValue, contactData, contactFormHasData);
   }
 
+  /**
+   * Saves only the application itself while offline (or while it has not been synced yet),
+   * because company and contact changes cannot be queued.
+   * @param formValue - The raw value of the entire form.
+   * @returns An Observable that emits the locally updated application.
+   * @private
+   */
+  private handleOfflineUpdate(formValue: any): Observable<Application> {
+    if (this.applicationForm.get('details')?.dirty || this.interviews.dirty) {
+      this.notificationService.showWarning(
+        'Changes to the company, contact and interviews can only be saved online and have been skipped.',
+        'Offline'
+      );
+    }
+    return this.store.updateApplication(
+      Number(this.currentApplicationId),
+      this.buildUpdateApplicationPayload(formValue, this.currentContactId)
+    );
+  }
+
+  /**
+   * Records the status transition of a saved application in its status history.
+   * The application is already saved at this point, so a failure only causes a warning.
+   * Transitions saved offline are queued like the application itself.
+   * @param applicationId - The ID of the saved application.
+   * @param statusChange - The transition to record, or `null` if the status has not changed.
+   * @returns An Observable that emits once the transition has been recorded, queued or skipped.
+   * @private
+   */
+  private recordStatusChange(
+    applicationId: number,
+    statusChange: CreateStatusChangePayload | null
+  ): Observable<unknown> {
+    if (!statusChange) return of(null);
+    return this.store.recordStatusChange(applicationId, statusChange).pipe(
+      catchError((err) => {
+        console.error('Error recording status change:', err);
+        this.notificationService.showWarning(
+          'The application has been saved, but the status change could not be added to its history.',
+          'Status history'
+        );
+        return of(null);
+      })
+    );
+  }
+
   // =================================================================================
   // DATA PROCESSING & API PAYLOADS
   // =================================================================================
 
+  /**
+   * Builds the status history entry for the status entered in the form.
+   * The timestamp is taken when the form is submitted.
+   * @param formValue - The raw data from the main form.
+   * @returns The payload, or `null` if the status has not changed.
+   * @private
+   */
+  private buildStatusChangePayload(formValue: any): CreateStatusChangePayload | null {
+    const transition = this.pendingStatusTransition;
+    if (!transition) return null;
+
+    const comment = (formValue.status_comment ?? '').trim();
+    return {
+      ...transition,
+      changed_at: new Date().toISOString(),
+      ...(comment ? { comment } : {}),
+    };
+  }
+
   /**
    * Handles the workflow for creating a new contact and then updating the application and company.
+   * If a later step fails, the new contact is deleted again.
    * @param formValue - The raw value of the entire form.
    * @param contactData - The data from the contact form group.
    * @returns An Observable that completes when all operations are finished.
@@ -437,34 +840,38 @@ export class ApplicationForm implements OnInit {
       contactData
     );
 
-    return this.apiService.createContact(createContactPayload).pipe(
-      switchMap((newContact) => {
-        const applicationPayload = this.buildUpdateApplicationPayload(
-          formValue,
-          newContact.id
-        );
-        const companyPayload = this.buildCompanyPayload(formValue);
-
-        return forkJoin({
-          application: this.apiService.updateApplication(
-            this.currentApplicationId!,
-            applicationPayload
-          ),
-          company: this.apiService.updateCompany(
-            formValue.company_id!,
-            companyPayload
-          ),
-        });
-      })
-    );
+    const createContact: SaveStep<Contact> = {
+      label: 'Contact',
+      // Remember the new contact, so that saving again does not create it twice
+      run: () =>
+        this.store
+          .createContact(createContactPayload)
+          .pipe(tap((contact) => (this.currentContactId = contact.id))),
+      rollback: (contact) =>
+        this.store
+          .deleteContact(contact.id)
+          .pipe(tap(() => (this.currentContactId = null))),
+    };
+
+    return runSaveSteps([
+      createContact,
+      // The contact ID is known once the first step has run
+      this.buildApplicationStep(formValue, () => this.currentContactId),
+      this.buildCompanyStep(formValue),
+      ...this.buildInterviewSteps(formValue),
+    ]);
   }
 
   /**
    * Handles the workflow for updating an application, company, and existing contact (update or delete).
+   *
+   * The steps run one after another and are shown immediately. If one of them fails, the
+   * previous ones are undone. Deleting the contact cannot be undone and therefore runs last.
+   *
    * @param formValue - The raw value of the entire form.
    * @param contactData - The data from the contact form group.
    * @param contactFormHasData - A boolean indicating if the contact form is filled out.
-   * @returns An Observable that completes when all parallel operations are finished.
+   * @returns An Observable that completes when all operations are finished.
    * @private
    */
   private handleUpdates(
@@ -472,41 +879,132 @@ export class ApplicationForm implements OnInit {
     contactData: any,
     contactFormHasData: boolean
   ): Observable<any> {
-    const observables = [];
-    let contactIdForApplication: number | null | undefined =
-      this.currentContactId;
-
-    if (this.currentContactId) {
-      if (!contactFormHasData) {
-        observables.push(this.apiService.deleteContact(this.currentContactId));
-        contactIdForApplication = null;
-      } else {
-        const cleanContactPayload = this.buildUpdateContactPayload(contactData);
-        if (Object.keys(cleanContactPayload).length > 0) {
-          observables.push(
-            this.apiService.updateContact(
-              this.currentContactId,
-              cleanContactPayload
-            )
-          );
-        }
+    const steps: SaveStep[] = [];
+    const contactId = this.currentContactId;
+    const deleteContact = !!contactId && !contactFormHasData;
+
+    if (contactId && !deleteContact) {
+      const cleanContactPayload = this.buildUpdateContactPayload(contactData);
+      const previousContact = this.currentApplication?.contact;
+      if (Object.keys(cleanContactPayload).length > 0) {
+        steps.push({
+          label: 'Contact',
+          run: () => this.store.updateContact(contactId, cleanContactPayload),
+          rollback: previousContact
+            ? () => this.store.updateContact(contactId, previousContact)
+            : undefined,
+        });
       }
     }
 
-    observables.push(
-      this.apiService.updateApplication(
-        this.currentApplicationId!,
-        this.buildUpdateApplicationPayload(formValue, contactIdForApplication)
+    steps.push(
+      this.buildApplicationStep(formValue, () =>
+        deleteContact ? null : contactId
       )
     );
-    observables.push(
-      this.apiService.updateCompany(
-        formValue.company_id!,
-        this.buildCompanyPayload(formValue)
-      )
+    steps.push(this.buildCompanyStep(formValue));
+    steps.push(...this.buildInterviewSteps(formValue));
+
+    if (deleteContact) {
+      steps.push({
+        label: 'Contact',
+        run: () => this.store.deleteContact(contactId),
+      });
+    }
+
+    return runSaveSteps(steps);
+  }
+
+  /**
+   * Builds the save step that updates the application and restores the loaded version on rollback.
+   * @param formValue - The raw data from the main form.
+   * @param contactId - Returns the contact ID to link when the step runs.
+   * @returns The save step.
+   * @private
+   */
+  private buildApplicationStep(
+    formValue: any,
+    contactId: () => number | null | undefined
+  ): SaveStep<Application> {
+    const id = Number(this.currentApplicationId);
+    const previous = this.currentApplication;
+    return {
+      label: 'Application',
+      run: () =>
+        this.store.updateApplication(
+          id,
+          this.buildUpdateApplicationPayload(formValue, contactId())
+        ),
+      rollback: previous
+        ? () => this.store.updateApplication(id, toApplicationPayload(previous))
+        : undefined,
+    };
+  }
+
+  /**
+   * Builds the save step that updates the company and restores the loaded version on rollback.
+   * @param formValue - The raw data from the main form.
+   * @returns The save step.
+   * @private
+   */
+  private buildCompanyStep(formValue: any): SaveStep<Company> {
+    const previous = this.currentApplication?.company;
+    return {
+      label: 'Company',
+      run: () =>
+        this.store.updateCompany(
+          formValue.company_id!,
+          this.buildCompanyPayload(formValue)
+        ),
+      rollback: previous
+        ? () =>
+            this.store.updateCompany(previous.id, {
+              name: previous.name,
+              industry: previous.industry,
+              website: previous.website,
+            })
+        : undefined,
+    };
+  }
+
+  /**
+   * Builds the save steps that create, update and delete interviews.
+   * New and changed interviews are undone on rollback; deletions cannot be undone and come last.
+   * @param formValue - The raw data from the main form.
+   * @returns The save steps; empty if the interviews have not changed.
+   * @private
+   */
+  private buildInterviewSteps(formValue: any): SaveStep[] {
+    const applicationId = Number(this.currentApplicationId);
+    const changes = diffInterviews(
+      this.currentApplication?.interviews ?? [],
+      formValue.interviews ?? []
     );
 
-    return forkJoin(observables);
+    const created: SaveStep<Interview>[] = changes.created.map((value) => ({
+      label: 'Interview',
+      run: () => this.store.createInterview(toInterviewPayload(value, applicationId)),
+      rollback: (interview) => this.store.deleteInterview(interview),
+    }));
+    const updated: SaveStep<Interview>[] = changes.updated.map(({ previous, value }) => ({
+      label: 'Interview',
+      run: () => this.store.updateInterview(previous.id, toInterviewPayload(value, applicationId)),
+      rollback: () =>
+        this.store.updateInterview(previous.id, {
+          scheduled_at: previous.scheduled_at,
+          interview_type: previous.interview_type,
+          location: previous.location,
+          interviewer_ids: previous.interviewers.map((contact) => contact.id),
+          preparation_notes: previous.preparation_notes,
+          outcome: previous.outcome,
+        }),
+    }));
+    const deleted: SaveStep[] = changes.deleted.map((interview) => ({
+      label: 'Interview',
+      run: () => this.store.deleteInterview(interview),
+    }));
+
+    return [...created, ...updated, ...deleted];
   }
 
   /**
@@ -557,6 +1055,7 @@ export class ApplicationForm implements OnInit {
     return {
       job_title: formValue.job_title,
       salary_expectation: formValue.salary_expectation || null,
+      job_posting_link: (formValue.job_posting_link ?? '').trim(),
       company_id: formValue.company_id,
       status: formValue.status,
       applied_on: formValue.applied_on || null,
@@ -582,10 +1081,10 @@ export class ApplicationForm implements OnInit {
     return {
       job_title: formValue.job_title!,
       salary_expectation: formValue.salary_expectation || null,
+      job_posting_link: (formValue.job_posting_link ?? '').trim(),
       company_id: formValue.company_id!,
       contact_id: contactId,
       status: formValue.status!,
-      notes: formValue.notes as any,
       applied_on: formValue.applied_on || null,
       interview_on: formValue.interview_on || null,
       offer_on: formValue.offer_on || null,
@@ -615,31 +1114,61 @@ export class ApplicationForm implements OnInit {
 
   /**
    * Handles successful save operations by showing a success notification and navigating back to the list view.
+   * @param savedOffline - Whether the changes were queued; the queue has already informed the user.
    * @private
    */
-  private onSaveSuccess(): void {
-    this.notificationService.showSuccess(
-      'All changes have been saved successfully.'
-    );
+  private onSaveSuccess(savedOffline = false): void {
+    this.discardUnsavedChanges();
+    if (!savedOffline) {
+      this.notificationService.showSuccess(
+        'All changes have been saved successfully.'
+      );
+    }
     this.router.navigate(['/applications']);
   }
 
   /**
    * Handles errors that occur during API operations (load or save).
-   * Displays an error notification and logs the error to the console.
+   * Validation errors of the server are shown on the matching form fields, all other
+   * errors are reported by the {@link ApiErrorService}.
    * @param error - The error object.
    * @param context - The context ing which the error occurred ('create', 'update', or 'load').
    * @private
    */
   private onSaveError(error: any, context: 'create' | 'update' | 'load'): void {
-    const message =
-      context === 'load'
-        ? 'The application details could not be loaded.'
-        : 'An error occurred while saving.';
-    this.notificationService.showError(message, 'Error');
-    console.error(`Error during ${context} chain:`, error);
     if (context === 'load') {
+      this.apiErrorService.handle(error, { title: 'Loading Error' });
       this.router.navigate(['/applications']);
+      return;
+    }
+
+    const failedStep = error instanceof PartialSaveError ? error : null;
+    this.apiErrorService.handle(failedStep?.reason ?? error, {
+      title: failedStep ? `${failedStep.step} could not be saved` : 'Saving failed',
+      form: this.applicationForm,
+      fieldPaths: ['', 'details.company', 'details.contact'],
+    });
+    if (failedStep) this.reportRollback(failedStep);
+  }
+
+  /**
+   * Tells the user which parts of a failed save have been undone and which are still saved.
+   * @param error - The error describing the failed save.
+   * @private
+   */
+  private reportRollback(error: PartialSaveError): void {
+    if (error.rolledBack.length > 0) {
+      this.notificationService.showInfo(
+        `The other changes (${error.rolledBack.join(', ')}) have been reverted.`,
+        'Changes reverted'
+      );
+    }
+    if (error.notRolledBack.length > 0) {
+      this.notificationService.showWarning(
+        `${error.notRolledBack.join(', ')} has already been saved and could not be reverted. ` +
+          'Please check the application before saving again.',
+        'Partially saved'
+      );
     }
   }
 }
@@ -0,0 +1,68 @@
+import { Interview } from '../../models/api-interfaces';
+import {
+  InterviewFormValue,
+  diffInterviews,
+  toDateTimeInputValue,
+  toInterviewFormValue,
+  toInterviewPayload,
+} from './interview-changes';
+
+describe('interview-changes', () => {
+  const contact = { id: 7, first_name: 'Erika', last_name: 'Muster', email: '', phone: '', position: '', company: 1 };
+  const buildInterview = (overrides: Partial<Interview> = {}): Interview => ({
+    id: 1,
+    application: 5,
+    scheduled_at: new Date(2024, 2, 10, 14, 30).toISOString(),
+    interview_type: 'TECHNICAL',
+    location: 'https://meet.example.com/abc',
+    interviewers: [contact],
+    preparation_notes: 'Systemdesign wiederholen',
+    outcome: 'PENDING',
+    ...overrides,
+  });
+
+  it('should format timestamps for a datetime-local input in local time', () => {
+    expect(toDateTimeInputValue(new Date(2024, 2, 10, 9, 5).toISOString())).toBe('2024-03-10T09:05');
+    expect(toDateTimeInputValue('kein Datum')).toBe('');
+  });
+
+  it('should convert an interview into a form value and back into a payload', () => {
+    const value = toInterviewFormValue(buildInterview());
+
+    expect(value.scheduled_at).toBe('2024-03-10T14:30');
+    expect(value.interviewer_ids).toEqual([7]);
+    expect(toInterviewPayload({ ...value, location: ' Raum 3 ' }, 5)).toEqual({
+      application: 5,
+      scheduled_at: buildInterview().scheduled_at,
+      interview_type: 'TECHNICAL',
+      location: 'Raum 3',
+      interviewer_ids: [7],
+      preparation_notes: 'Systemdesign wiederholen',
+      outcome: 'PENDING',
+    });
+  });
+
+  it('should detect created, changed and removed interviews', () => {
+    const kept = buildInterview({ id: 1 });
+    const changed = buildInterview({ id: 2 });
+    const removed = buildInterview({ id: 3 });
+    const added: InterviewFormValue = { ...toInterviewFormValue(kept), id: null };
+    const changedValue: InterviewFormValue = { ...toInterviewFormValue(changed), outcome: 'PASSED' };
+
+    const changes = diffInterviews(
+      [kept, changed, removed],
+      [toInterviewFormValue(kept), changedValue, added]
+    );
+
+    expect(changes.created).toEqual([added]);
+    expect(changes.updated).toEqual([{ previous: changed, value: changedValue }]);
+    expect(changes.deleted).toEqual([removed]);
+  });
+
+  it('should ignore the order of the interviewers', () => {
+    const interview = buildInterview({ interviewers: [contact, { ...contact, id: 8 }] });
+    const value = { ...toInterviewFormValue(interview), interviewer_ids: [8, 7] };
+
+    expect(diffInterviews([interview], [value]).updated).toEqual([]);
+  });
+});
@@ -0,0 +1,126 @@
+import {
+  CreateInterviewPayload,
+  Interview,
+  InterviewOutcome,
+  InterviewType,
+} from '../../models/api-interfaces';
+
+/**
+ * The value of an interview in the form. The date and time use the format of a
+ * `datetime-local` input (`2024-03-10T14:00`) in the user's time zone.
+ */
+export interface InterviewFormValue {
+  /** The ID of the saved interview, or `null` for an interview added in the form. */
+  id: number | null;
+  scheduled_at: string;
+  interview_type: InterviewType;
+  location: string;
+  interviewer_ids: number[];
+  preparation_notes: string;
+  outcome: InterviewOutcome;
+}
+
+/**
+ * The changes needed to save the interviews entered in the form.
+ */
+export interface InterviewChanges {
+  /** Interviews added in the form. */
+  created: InterviewFormValue[];
+  /** Saved interviews that were changed, with their saved version for a rollback. */
+  updated: { previous: Interview; value: InterviewFormValue }[];
+  /** Saved interviews that were removed in the form. */
+  deleted: Interview[];
+}
+
+/**
+ * Formats an ISO timestamp for a `datetime-local` input, in the user's time zone.
+ * @param isoString - The timestamp, e.g. `2024-03-10T13:00:00Z`.
+ * @returns The local date and time, e.g. `2024-03-10T14:00`, or an empty string for invalid input.
+ */
+export function toDateTimeInputValue(isoString: string): string {
+  const date = new Date(isoString);
+  if (isNaN(date.getTime())) return '';
+
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return (
+    `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}` +
+    `T${pad(date.getHours())}:${pad(date.getMinutes())}`
+  );
+}
+
+/**
+ * Converts a saved interview into its form value.
+ * @param interview - The interview from the API.
+ */
+export function toInterviewFormValue(interview: Interview): InterviewFormValue {
+  return {
+    id: interview.id,
+    scheduled_at: toDateTimeInputValue(interview.scheduled_at),
+    interview_type: interview.interview_type,
+    location: interview.location,
+    interviewer_ids: interview.interviewers.map((contact) => contact.id),
+    preparation_notes: interview.preparation_notes,
+    outcome: interview.outcome,
+  };
+}
+
+/**
+ * Builds the API payload for an interview entered in the form.
+ * @param value - The form value of the interview.
+ * @param applicationId - The ID of the application the interview belongs to.
+ */
+export function toInterviewPayload(value: InterviewFormValue, applicationId: number): CreateInterviewPayload {
+  return {
+    application: applicationId,
+    scheduled_at: new Date(value.scheduled_at).toISOString(),
+    interview_type: value.interview_type,
+    location: value.location.trim(),
+    interviewer_ids: value.interviewer_ids,
+    preparation_notes: value.preparation_notes,
+    outcome: value.outcome,
+  };
+}
+
+/**
+ * Checks whether two form values describe the same interview data.
+ * The order of the interviewers does not matter.
+ * @param a - The first form value.
+ * @param b - The second form value.
+ */
+function isSameInterview(a: InterviewFormValue, b: InterviewFormValue): boolean {
+  const sortedIds = (value: InterviewFormValue) => [...value.interviewer_ids].sort((x, y) => x - y).join(',');
+  return (
+    a.scheduled_at === b.scheduled_at &&
+    a.interview_type === b.interview_type &&
+    a.location.trim() === b.location.trim() &&
+    sortedIds(a) === sortedIds(b) &&
+    a.preparation_notes === b.preparation_notes &&
+    a.outcome === b.outcome
+  );
+}
+
+/**
+ * Compares the saved interviews with the ones entered in the form.
+ * Saved interviews whose form value is unchanged are not updated.
+ *
+ * @param previous - The saved interviews of the application.
+ * @param values - The interviews entered in the form.
+ * @returns The interviews to create, update and delete.
+ */
+export function diffInterviews(previous: Interview[], values: InterviewFormValue[]): InterviewChanges {
+  const changes: InterviewChanges = { created: [], updated: [], deleted: [] };
+  const previousById = new Map(previous.map((interview) => [interview.id, interview]));
+
+  for (const value of values) {
+    const saved = value.id !== null ? previousById.get(value.id) : undefined;
+    if (!saved) {
+      changes.created.push(value);
+    } else if (!isSameInterview(toInterviewFormValue(saved), value)) {
+      changes.updated.push({ previous: saved, value });
+    }
+  }
+
+  const keptIds = new Set(values.map((value) => value.id));
+  changes.deleted = previous.filter((interview) => !keptIds.has(interview.id));
+  return changes;
+}
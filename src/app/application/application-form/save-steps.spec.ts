@@ -0,0 +1,45 @@
+import { HttpErrorResponse } from '@angular/common/http';
+import { of, throwError } from 'rxjs';
+
+import { PartialSaveError, SaveStep, runSaveSteps } from './save-steps';
+
+describe('runSaveSteps', () => {
+  it('should run all steps in order and emit their results', () => {
+    const order: string[] = [];
+    const step = (label: string): SaveStep => ({
+      label,
+      run: () => {
+        order.push(label);
+        return of(label);
+      },
+    });
+
+    let results: unknown[] = [];
+    runSaveSteps([step('Contact'), step('Application')]).subscribe((r) => (results = r));
+
+    expect(order).toEqual(['Contact', 'Application']);
+    expect(results).toEqual(['Contact', 'Application']);
+  });
+
+  it('should roll back completed steps and report the failed one', () => {
+    const rolledBack: string[] = [];
+    const steps: SaveStep[] = [
+      { label: 'Contact', run: () => of(1), rollback: () => of(rolledBack.push('Contact')) },
+      { label: 'Application', run: () => of(2) },
+      {
+        label: 'Company',
+        run: () => throwError(() => new HttpErrorResponse({ status: 400 })),
+      },
+      { label: 'Never', run: () => of(3) },
+    ];
+
+    let error: PartialSaveError | undefined;
+    runSaveSteps(steps, 0).subscribe({ error: (err) => (error = err) });
+
+    expect(error).toBeInstanceOf(PartialSaveError);
+    expect(error?.step).toBe('Company');
+    expect(error?.rolledBack).toEqual(['Contact']);
+    expect(error?.notRolledBack).toEqual(['Application']);
+    expect(rolledBack).toEqual(['Contact']);
+  });
+});
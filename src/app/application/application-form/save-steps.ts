@@ -0,0 +1,122 @@
+import { EMPTY, Observable, defer, from, throwError, timer } from 'rxjs';
+import { catchError, concatMap, map, retry, switchMap, tap, toArray } from 'rxjs/operators';
+import { parseApiError } from '../../services/api-error';
+
+/**
+ * One request of a save that consists of several requests, e.g. updating the contact,
+ * the application and the company of an application.
+ */
+export interface SaveStep<T = any> {
+  /** Name of the saved entity, used in notifications, e.g. "Company". */
+  label: string;
+  /** Creates the request. Called when the previous step has succeeded. */
+  run: () => Observable<T>;
+  /**
+   * Creates a request that undoes the step after a later step has failed.
+   * Steps without a rollback (e.g. deletions) should be placed last.
+   */
+  rollback?: (result: T) => Observable<unknown>;
+}
+
+/** Delay before a step that failed with a connection or server error is sent again. */
+const RETRY_DELAY_MS = 1000;
+
+/**
+ * Thrown by {@link runSaveSteps} if a step failed after all retries.
+ * Describes which step failed and which of the previous steps could be undone.
+ */
+export class PartialSaveError extends Error {
+  /**
+   * @param step - The label of the step that failed.
+   * @param reason - The error of the failed request.
+   * @param rolledBack - Labels of the previous steps that have been undone.
+   * @param notRolledBack - Labels of the previous steps that are still saved.
+   */
+  constructor(
+    readonly step: string,
+    readonly reason: unknown,
+    readonly rolledBack: string[],
+    readonly notRolledBack: string[]
+  ) {
+    super(`${step} could not be saved.`);
+    this.name = 'PartialSaveError';
+  }
+}
+
+/**
+ * Checks whether a failed request may succeed when it is sent again.
+ * @param error - The error of the request.
+ */
+function isTransient(error: unknown): boolean {
+  const kind = parseApiError(error).kind;
+  return kind === 'offline' || kind === 'server';
+}
+
+/**
+ * Undoes completed steps in reverse order. Failing rollbacks do not stop the others.
+ * @param completed - The completed steps with their results, in the order they were run.
+ * @returns An Observable emitting the labels of the undone and of the remaining steps.
+ */
+function rollBack(
+  completed: { step: SaveStep; result: unknown }[]
+): Observable<{ rolledBack: string[]; notRolledBack: string[] }> {
+  const rolledBack: string[] = [];
+  const notRolledBack: string[] = [];
+
+  return from([...completed].reverse()).pipe(
+    concatMap(({ step, result }) => {
+      if (!step.rollback) {
+        notRolledBack.push(step.label);
+        return EMPTY;
+      }
+      return step.rollback(result).pipe(
+        tap({ complete: () => rolledBack.push(step.label) }),
+        catchError((err) => {
+          console.error(`Error rolling back ${step.label}:`, err);
+          notRolledBack.push(step.label);
+          return EMPTY;
+        })
+      );
+    }),
+    toArray(),
+    map(() => ({ rolledBack, notRolledBack }))
+  );
+}
+
+/**
+ * Runs the steps of a save one after another.
+ *
+ * A step that fails with a connection or server error is sent once more. If it still fails,
+ * the remaining steps are skipped, the completed steps are rolled back, and a
+ * {@link PartialSaveError} is thrown, so the user never ends up with a half-saved entity
+ * without knowing.
+ *
+ * @param steps - The steps in the order they should run.
+ * @param retryDelay - Delay before a failed step is sent again, in milliseconds.
+ * @returns An Observable emitting the results of all steps once all of them have succeeded.
+ */
+export function runSaveSteps(steps: SaveStep[], retryDelay = RETRY_DELAY_MS): Observable<unknown[]> {
+  return defer(() => {
+    const completed: { step: SaveStep; result: unknown }[] = [];
+
+    return from(steps).pipe(
+      concatMap((step) =>
+        step.run().pipe(
+          retry({
+            count: 1,
+            delay: (error) => (isTransient(error) ? timer(retryDelay) : throwError(() => error)),
+          }),
+          tap((result) => completed.push({ step, result })),
+          catchError((error) =>
+            rollBack(completed).pipe(
+              switchMap(({ rolledBack, notRolledBack }) =>
+                throwError(() => new PartialSaveError(step.label, error, rolledBack, notRolledBack))
+              )
+            )
+          )
+        )
+      ),
+      toArray()
+    );
+  });
+}
@@ -0,0 +1,53 @@
+import { StatusValues, detectStatusTransition } from './status-transition';
+
+describe('detectStatusTransition', () => {
+  const values = (overrides: Partial<StatusValues> = {}): StatusValues => ({
+    status: 'APPLIED',
+    applied_on: '2024-03-01',
+    interview_on: null,
+    offer_on: null,
+    rejected_on: null,
+    ...overrides,
+  });
+
+  it('should record the initial status of a new application', () => {
+    expect(detectStatusTransition(null, values())).toEqual({
+      from_status: null,
+      to_status: 'APPLIED',
+    });
+  });
+
+  it('should record a changed status', () => {
+    const next = values({ status: 'INTERVIEW', interview_on: '2024-03-10' });
+
+    expect(detectStatusTransition(values(), next)).toEqual({
+      from_status: 'APPLIED',
+      to_status: 'INTERVIEW',
+    });
+  });
+
+  it('should record a new date of an unchanged status as another round', () => {
+    const previous = values({ status: 'INTERVIEW', interview_on: '2024-03-10' });
+    const next = values({ status: 'INTERVIEW', interview_on: '2024-03-20' });
+
+    expect(detectStatusTransition(previous, next)).toEqual({
+      from_status: 'INTERVIEW',
+      to_status: 'INTERVIEW',
+    });
+  });
+
+  it('should record nothing if the status and its date are unchanged', () => {
+    const previous = values({ status: 'INTERVIEW', interview_on: '2024-03-10' });
+    const next = values({ status: 'INTERVIEW', interview_on: '2024-03-10', applied_on: '2024-02-28' });
+
+    expect(detectStatusTransition(previous, next)).toBeNull();
+    expect(detectStatusTransition(values({ status: 'DRAFT' }), values({ status: 'DRAFT' }))).toBeNull();
+  });
+
+  it('should not treat a date entered for the first time as another round', () => {
+    const previous = values({ status: 'INTERVIEW', interview_on: null });
+    const next = values({ status: 'INTERVIEW', interview_on: '2024-03-10' });
+
+    expect(detectStatusTransition(previous, next)).toBeNull();
+  });
+});
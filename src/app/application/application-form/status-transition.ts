@@ -0,0 +1,50 @@
+import {
+  Application,
+  ApplicationStatus,
+  STATUS_DATE_FIELDS,
+  StatusDateField,
+} from '../../models/api-interfaces';
+
+/**
+ * The status of an application together with its status dates, as stored or as entered in the form.
+ */
+export type StatusValues = Pick<Application, 'status' | StatusDateField>;
+
+/**
+ * A status transition that is recorded in the status history when the form is saved.
+ */
+export interface StatusTransition {
+  /** The previous status, or `null` if the application is being created. */
+  from_status: ApplicationStatus | null;
+  to_status: ApplicationStatus;
+}
+
+/**
+ * Determines whether saving the form changes the status of an application.
+ *
+ * A new application always starts a history with its initial status. For an existing
+ * application, a different status is a transition, and so is a changed date of an unchanged
+ * status, e.g. a second interview round (INTERVIEW → INTERVIEW).
+ *
+ * @param previous - The saved status values, or `null` if the application is being created.
+ * @param next - The status values entered in the form.
+ * @returns The transition to record, or `null` if the status has not changed.
+ */
+export function detectStatusTransition(
+  previous: StatusValues | null,
+  next: StatusValues
+): StatusTransition | null {
+  if (!previous) {
+    return { from_status: null, to_status: next.status };
+  }
+  if (previous.status !== next.status) {
+    return { from_status: previous.status, to_status: next.status };
+  }
+
+  const dateField = STATUS_DATE_FIELDS[next.status];
+  const previousDate = dateField ? previous[dateField] || null : null;
+  const nextDate = dateField ? next[dateField] || null : null;
+  return previousDate && nextDate && previousDate !== nextDate
+    ? { from_status: previous.status, to_status: next.status }
+    : null;
+}
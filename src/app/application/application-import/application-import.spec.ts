@@ -0,0 +1,27 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { provideHttpClient } from '@angular/common/http';
+import { provideRouter } from '@angular/router';
+import { provideToastr } from 'ngx-toastr';
+
+import { ApplicationImport } from './application-import';
+
+describe('ApplicationImport', () => {
+  let component: ApplicationImport;
+  let fixture: ComponentFixture<ApplicationImport>;
+
+  beforeEach(async () => {
+    await TestBed.configureTestingModule({
+      imports: [ApplicationImport],
+      providers: [provideHttpClient(), provideRouter([]), provideToastr()]
+    })
+    .compileComponents();
+
+    fixture = TestBed.createComponent(ApplicationImport);
+    component = fixture.componentInstance;
+    fixture.detectChanges();
+  });
+
+  it('should create', () => {
+    expect(component).toBeTruthy();
+  });
+});
@@ -0,0 +1,370 @@
+import { Component, inject } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { RouterLink } from '@angular/router';
+import { EMPTY, Observable, concat, defer, forkJoin, from } from 'rxjs';
+import { catchError, concatMap, finalize, tap } from 'rxjs/operators';
+import { DataStoreService } from '../../services/data-store';
+import { NotificationService } from '../../services/notification';
+import { OfflineQueueService } from '../../services/offline-queue';
+import { describeApiError } from '../../services/api-error';
+import { Company, CreateApplicationPayload } from '../../models/api-interfaces';
+import {
+  ColumnMapping,
+  CsvRecord,
+  IMPORT_FIELDS,
+  ImportField,
+  ImportRow,
+  buildImportRows,
+  guessColumnMapping,
+  parseCsv,
+} from './csv-import';
+
+/** The steps of the import wizard. */
+type ImportStep = 'upload' | 'mapping' | 'preview' | 'importing' | 'done';
+
+/** Industry of companies created by the import when the file does not contain one. */
+const DEFAULT_INDUSTRY = 'Sonstiges';
+
+/**
+ * Wizard for importing applications from a CSV file.
+ *
+ * The file is parsed in the browser. The user maps the columns to the application fields,
+ * checks a preview with validation errors and likely duplicates (same company and job
+ * title), and starts the import. Companies are matched by name; missing ones are created
+ * first. The applications are then created one after another with a progress display.
+ *
+ * @example
+ * ```html
+ * <app-application-import></app-application-import>
+ * ```
+ */
+@Component({
+  selector: 'app-application-import',
+  standalone: true,
+  imports: [CommonModule, RouterLink],
+  templateUrl: './application-import.html',
+  styleUrl: './application-import.scss',
+})
+export class ApplicationImport {
+  // --- DEPENDENCY INJECTION ---
+  private store = inject(DataStoreService);
+  private notificationService = inject(NotificationService);
+  private offlineQueue = inject(OfflineQueueService);
+
+  // --- COMPONENT STATE ---
+
+  /** All fields that can be imported, for the mapping form. */
+  readonly importFields = IMPORT_FIELDS;
+
+  /**
+   * The current step of the wizard.
+   * @default 'upload'
+   */
+  public step: ImportStep = 'upload';
+
+  /**
+   * The name of the selected file.
+   * @default ''
+   */
+  public fileName = '';
+
+  /**
+   * The header row of the file.
+   * @default []
+   */
+  public headers: string[] = [];
+
+  /**
+   * The data records of the file, without the header row.
+   * @default []
+   */
+  public dataRows: CsvRecord[] = [];
+
+  /**
+   * Which column holds which field; suggested from the column headers.
+   */
+  public mapping = {} as ColumnMapping;
+
+  /**
+   * The validated rows shown in the preview.
+   * @default []
+   */
+  public rows: ImportRow[] = [];
+
+  /**
+   * Whether rows flagged as likely duplicates are left out of the import.
+   * @default true
+   */
+  public skipDuplicates = true;
+
+  /**
+   * Whether the companies and applications for the preview are being loaded.
+   * @default false
+   */
+  public isLoading = false;
+
+  /**
+   * Number of finished and total requests of the running import.
+   */
+  public progress = { done: 0, total: 0 };
+
+  /**
+   * Number of imported applications.
+   * @default 0
+   */
+  public importedCount = 0;
+
+  /**
+   * Rows that could not be imported, with the reason.
+   * @default []
+   */
+  public failures: { line: number; message: string }[] = [];
+
+  // =================================================================================
+  // STEP 1: UPLOAD
+  // =================================================================================
+
+  /**
+   * Reads and parses the selected CSV file and continues with the column mapping.
+   * @param event - The change event of the file input.
+   */
+  onFileSelected(event: Event): void {
+    const file = (event.target as HTMLInputElement).files?.[0];
+    if (!file) return;
+
+    file.text().then(
+      (text) => {
+        const [headers, ...dataRows] = parseCsv(text);
+        if (!headers || dataRows.length === 0) {
+          this.notificationService.showWarning('The file does not contain any data rows.', 'Import');
+          return;
+        }
+        this.fileName = file.name;
+        this.headers = headers.cells;
+        this.dataRows = dataRows;
+        this.mapping = guessColumnMapping(headers.cells);
+        this.step = 'mapping';
+      },
+      (err) => {
+        console.error('Error reading import file:', err);
+        this.notificationService.showError('The file could not be read.');
+      }
+    );
+  }
+
+  // =================================================================================
+  // STEP 2: COLUMN MAPPING
+  // =================================================================================
+
+  /**
+   * Assigns a column to a field.
+   * @param field - The import field.
+   * @param column - The column index as selected in the dropdown, or an empty string for none.
+   */
+  onMappingChange(field: ImportField, column: string): void {
+    this.mapping = { ...this.mapping, [field]: column === '' ? null : Number(column) };
+  }
+
+  /**
+   * Whether all required fields have been assigned a column.
+   */
+  get isMappingComplete(): boolean {
+    return IMPORT_FIELDS.every(({ field, required }) => !required || this.mapping[field] !== null);
+  }
+
+  /**
+   * Validates the rows against the existing companies and applications and shows the preview.
+   */
+  confirmMapping(): void {
+    this.isLoading = true;
+    forkJoin({
+      companies: this.store.loadCompanies(),
+      applications: this.store.loadApplications(),
+    })
+      .pipe(finalize(() => (this.isLoading = false)))
+      .subscribe({
+        next: ({ companies, applications }) => {
+          this.rows = buildImportRows(this.dataRows, this.mapping, companies, applications);
+          this.step = 'preview';
+        },
+        error: (err) => {
+          console.error('Error loading data for the import preview:', err);
+          this.notificationService.showError('Companies and applications could not be loaded.');
+        },
+      });
+  }
+
+  // =================================================================================
+  // STEP 3: PREVIEW
+  // =================================================================================
+
+  /**
+   * The rows that will be imported: rows without errors, without duplicates if they are skipped.
+   */
+  get importableRows(): ImportRow[] {
+    return this.rows.filter(
+      (row) => row.errors.length === 0 && !(this.skipDuplicates && row.duplicateOf)
+    );
+  }
+
+  /**
+   * The number of rows with validation errors.
+   */
+  get invalidCount(): number {
+    return this.rows.filter((row) => row.errors.length > 0).length;
+  }
+
+  /**
+   * The number of rows flagged as likely duplicates.
+   */
+  get duplicateCount(): number {
+    return this.rows.filter((row) => row.duplicateOf).length;
+  }
+
+  /**
+   * The names of the companies that do not exist yet and will be created.
+   */
+  get newCompanyNames(): string[] {
+    const names = new Map<string, string>();
+    for (const row of this.importableRows) {
+      if (!row.company) names.set(row.company_name.toLowerCase(), row.company_name);
+    }
+    return [...names.values()];
+  }
+
+  // =================================================================================
+  // STEP 4: IMPORT
+  // =================================================================================
+
+  /**
+   * Creates the missing companies and then the applications, one request at a time.
+   * The import needs a connection, so that hundreds of changes are not queued offline.
+   */
+  startImport(): void {
+    if (!this.offlineQueue.online()) {
+      this.notificationService.showWarning('The import is only available online.', 'Offline');
+      return;
+    }
+
+    const rows = this.importableRows;
+    const companyNames = this.newCompanyNames;
+    const createdCompanies = new Map<string, Company>();
+
+    this.step = 'importing';
+    this.importedCount = 0;
+    this.failures = [];
+    this.progress = { done: 0, total: companyNames.length + rows.length };
+
+    const companies$ = from(companyNames).pipe(
+      concatMap((name) =>
+        this.track(
+          this.store
+            .createCompany({ name, industry: this.industryFor(rows, name), website: null })
+            .pipe(tap((company) => createdCompanies.set(name.toLowerCase(), company))),
+          // Rows of this company fail below because the company is missing
+          () => undefined
+        )
+      )
+    );
+
+    const applications$ = defer(() => from(rows)).pipe(
+      concatMap((row) => {
+        const company = row.company ?? createdCompanies.get(row.company_name.toLowerCase());
+        if (!company) {
+          this.failures.push({ line: row.line, message: `Company "${row.company_name}" could not be created.` });
+          this.progress.done++;
+          return EMPTY;
+        }
+        return this.track(
+          this.store
+            .createApplication(this.toPayload(row, company.id))
+            .pipe(tap(() => this.importedCount++)),
+          (message) => this.failures.push({ line: row.line, message })
+        );
+      })
+    );
+
+    concat(companies$, applications$)
+      .pipe(finalize(() => this.onImportFinished()))
+      .subscribe();
+  }
+
+  /**
+   * Starts over with a new file.
+   */
+  reset(): void {
+    this.step = 'upload';
+    this.fileName = '';
+    this.headers = [];
+    this.dataRows = [];
+    this.rows = [];
+  }
+
+  /**
+   * Counts a finished request of the import and reports failures instead of stopping the import.
+   * @param request - The request to run.
+   * @param onError - Receives the error message if the request fails.
+   * @private
+   */
+  private track<T>(request: Observable<T>, onError: (message: string) => void): Observable<T> {
+    return request.pipe(
+      catchError((err) => {
+        console.error('Import error:', err);
+        onError(describeApiError(err));
+        return EMPTY;
+      }),
+      finalize(() => this.progress.done++)
+    );
+  }
+
+  /**
+   * Shows the result of the import.
+   * @private
+   */
+  private onImportFinished(): void {
+    this.step = 'done';
+    if (this.failures.length === 0) {
+      this.notificationService.showSuccess(`${this.importedCount} application(s) have been imported.`);
+    } else {
+      this.notificationService.showWarning(
+        `${this.importedCount} application(s) have been imported, ${this.failures.length} failed.`,
+        'Import finished'
+      );
+    }
+  }
+
+  /**
+   * Returns the industry given for a new company in the first row that has one.
+   * @param rows - The imported rows.
+   * @param companyName - The name of the new company.
+   * @private
+   */
+  private industryFor(rows: ImportRow[], companyName: string): string {
+    const name = companyName.toLowerCase();
+    return (
+      rows.find((row) => row.company_name.toLowerCase() === name && row.company_industry)
+        ?.company_industry ?? DEFAULT_INDUSTRY
+    );
+  }
+
+  /**
+   * Builds the payload for creating the application of an import row.
+   * @param row - The validated import row.
+   * @param companyId - The ID of the matched or created company.
+   * @private
+   */
+  private toPayload(row: ImportRow, companyId: number): CreateApplicationPayload {
+    return {
+      job_title: row.job_title,
+      company_id: companyId,
+      status: row.status,
+      applied_on: row.applied_on,
+      interview_on: row.interview_on,
+      offer_on: row.offer_on,
+      rejected_on: row.rejected_on,
+      follow_up_on: row.follow_up_on,
+      job_posting_link: row.job_posting_link,
+      salary_expectation: row.salary_expectation,
+    };
+  }
+}
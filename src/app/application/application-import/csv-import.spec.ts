@@ -0,0 +1,110 @@
+import { Application, Company } from '../../models/api-interfaces';
+import { buildImportRows, guessColumnMapping, parseCsv, parseImportDate } from './csv-import';
+
+describe('csv-import', () => {
+  const company: Company = { id: 1, name: 'Tech Corp', website: null, industry: 'IT' };
+
+  const existingApplication: Application = {
+    id: 1,
+    job_title: 'Frontend Developer',
+    company,
+    contact: null,
+    status: 'APPLIED',
+    status_display: 'Beworben',
+    applied_on: '2024-01-01',
+    interview_on: null,
+    offer_on: null,
+    rejected_on: null,
+    follow_up_on: null,
+    job_posting_link: '',
+    salary_expectation: null,
+    created_at: '2024-01-01T10:00:00Z',
+    archived: false,
+    notes: [],
+  };
+
+  const headers = ['Jobtitel', 'Unternehmen', 'Status', 'Beworben am', 'Gehalt', 'Link'];
+
+  it('should parse quoted cells and detect the separator', () => {
+    const text = '\uFEFFJobtitel;Unternehmen\r\n"Dev; Team ""A""";Tech Corp\r\n\r\n"Zeile\nzwei";Acme';
+    expect(parseCsv(text).map((record) => record.cells)).toEqual([
+      ['Jobtitel', 'Unternehmen'],
+      ['Dev; Team "A"', 'Tech Corp'],
+      ['Zeile\nzwei', 'Acme'],
+    ]);
+    expect(parseCsv('a,b\n1,2').map((record) => record.cells)).toEqual([['a', 'b'], ['1', '2']]);
+  });
+
+  it('should return the line each record starts on', () => {
+    const text = 'Jobtitel;Notiz\r\n\r\n"Dev";"erste\r\nzweite\nZeile"\n;\nQA;x';
+    expect(parseCsv(text).map((record) => record.line)).toEqual([1, 3, 7]);
+  });
+
+  it('should guess the column mapping from the headers', () => {
+    const mapping = guessColumnMapping(headers);
+    expect(mapping.job_title).toBe(0);
+    expect(mapping.company_name).toBe(1);
+    expect(mapping.applied_on).toBe(3);
+    expect(mapping.salary_expectation).toBe(4);
+    expect(mapping.job_posting_link).toBe(5);
+    expect(mapping.offer_on).toBeNull();
+  });
+
+  it('should parse ISO and German dates', () => {
+    expect(parseImportDate('2024-03-01')).toBe('2024-03-01');
+    expect(parseImportDate('2024-03-01T10:00:00Z')).toBe('2024-03-01');
+    expect(parseImportDate('1.3.2024')).toBe('2024-03-01');
+    expect(parseImportDate('31.02.2024')).toBeUndefined();
+    expect(parseImportDate('next week')).toBeUndefined();
+  });
+
+  it('should convert valid rows and match existing companies', () => {
+    const [row] = buildImportRows(
+      [{ line: 2, cells: ['Backend Developer', 'tech corp', 'Beworben', '05.03.2024', '55.000 €', 'https://jobs.example.com/1'] }],
+      guessColumnMapping(headers),
+      [company],
+      []
+    );
+    expect(row.errors).toEqual([]);
+    expect(row.line).toBe(2);
+    expect(row.status).toBe('APPLIED');
+    expect(row.applied_on).toBe('2024-03-05');
+    expect(row.salary_expectation).toBe(55000);
+    expect(row.company).toBe(company);
+    expect(row.duplicateOf).toBeNull();
+  });
+
+  it('should report missing fields, unknown values and missing status dates', () => {
+    const [row] = buildImportRows(
+      [{ line: 2, cells: ['', 'New Corp', 'Interview', 'gestern', 'viel', 'jobs.example.com'] }],
+      guessColumnMapping(headers),
+      [],
+      []
+    );
+    expect(row.company).toBeNull();
+    expect(row.errors).toEqual([
+      'Job title is missing.',
+      'Invalid date "gestern" in Applied on.',
+      'Interview on is missing for the status "Interview".',
+      'Invalid salary expectation "viel".',
+      'Invalid link "jobs.example.com".',
+    ]);
+  });
+
+  it('should flag duplicates of existing applications and earlier rows', () => {
+    const rows = buildImportRows(
+      [
+        { line: 2, cells: ['frontend developer', 'Tech Corp', '', '', '', ''] },
+        { line: 3, cells: ['Data Analyst', 'Acme', '', '', '', ''] },
+        { line: 5, cells: ['Data Analyst', 'ACME', '', '', '', ''] },
+      ],
+      guessColumnMapping(headers),
+      [company],
+      [existingApplication]
+    );
+    expect(rows[0].duplicateOf).toBe('Application already exists');
+    expect(rows[1].duplicateOf).toBeNull();
+    expect(rows[2].duplicateOf).toBe('Same application as in line 3');
+    expect(rows[1].status).toBe('DRAFT');
+  });
+});
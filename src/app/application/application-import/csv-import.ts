@@ -0,0 +1,337 @@
+import {
+  Application,
+  ApplicationStatus,
+  Company,
+  STATUS_DATE_FIELDS,
+  StatusDateField,
+} from '../../models/api-interfaces';
+
+/**
+ * The fields a CSV column can be mapped to. The company is given by name and is matched
+ * with an existing company or created during the import.
+ */
+export type ImportField =
+  | 'job_title'
+  | 'company_name'
+  | 'company_industry'
+  | 'status'
+  | StatusDateField
+  | 'follow_up_on'
+  | 'job_posting_link'
+  | 'salary_expectation';
+
+/**
+ * Describes an import field for the column mapping step.
+ */
+export interface ImportFieldDefinition {
+  field: ImportField;
+  /** The label shown in the mapping form. */
+  label: string;
+  /** If `true`, rows without a value are rejected. */
+  required: boolean;
+  /** Lower-case column headers that are mapped to this field automatically. */
+  aliases: string[];
+}
+
+/**
+ * Maps each import field to the index of a CSV column, or `null` if it is not imported.
+ */
+export type ColumnMapping = Record<ImportField, number | null>;
+
+/**
+ * A record of a CSV file. A record spans several lines if a quoted cell contains line breaks.
+ */
+export interface CsvRecord {
+  /** The line of the file the record starts on, counting from 1. */
+  line: number;
+  cells: string[];
+}
+
+/**
+ * A CSV row converted into application data, together with the problems found in it.
+ */
+export interface ImportRow {
+  /** The line of the file the row starts on, counting from 1. */
+  line: number;
+  job_title: string;
+  company_name: string;
+  company_industry: string;
+  status: ApplicationStatus;
+  applied_on: string | null;
+  interview_on: string | null;
+  offer_on: string | null;
+  rejected_on: string | null;
+  follow_up_on: string | null;
+  job_posting_link: string;
+  salary_expectation: number | null;
+  /** The existing company with the same name, or `null` if the company will be created. */
+  company: Company | null;
+  /** Validation errors; rows with errors are not imported. */
+  errors: string[];
+  /**
+   * Describes why the row is likely a duplicate (same company and job title as an existing
+   * application or an earlier row), or `null` if it is not.
+   */
+  duplicateOf: string | null;
+}
+
+/**
+ * All fields that can be imported, in the order they are shown in the mapping step.
+ */
+export const IMPORT_FIELDS: ImportFieldDefinition[] = [
+  { field: 'job_title', label: 'Jobtitel', required: true, aliases: ['job_title', 'jobtitel', 'titel', 'position', 'stelle', 'job title'] },
+  { field: 'company_name', label: 'Unternehmen', required: true, aliases: ['company_name', 'company', 'unternehmen', 'firma', 'arbeitgeber'] },
+  { field: 'company_industry', label: 'Branche', required: false, aliases: ['company_industry', 'industry', 'branche'] },
+  { field: 'status', label: 'Status', required: false, aliases: ['status', 'status_display'] },
+  { field: 'applied_on', label: 'Beworben am', required: false, aliases: ['applied_on', 'beworben am', 'bewerbungsdatum', 'datum'] },
+  { field: 'interview_on', label: 'Interview am', required: false, aliases: ['interview_on', 'interview am', 'interview'] },
+  { field: 'offer_on', label: 'Angebot am', required: false, aliases: ['offer_on', 'angebot am', 'angebot'] },
+  { field: 'rejected_on', label: 'Absage am', required: false, aliases: ['rejected_on', 'absage am', 'abgelehnt am', 'absage'] },
+  { field: 'follow_up_on', label: 'Wiedervorlage', required: false, aliases: ['follow_up_on', 'wiedervorlage', 'follow-up', 'nachfassen'] },
+  { field: 'job_posting_link', label: 'Link zur Stellenanzeige', required: false, aliases: ['job_posting_link', 'link', 'url', 'stellenanzeige'] },
+  { field: 'salary_expectation', label: 'Gehaltsvorstellung', required: false, aliases: ['salary_expectation', 'gehalt', 'gehaltsvorstellung', 'salary'] },
+];
+
+/**
+ * Names of the import fields in error messages, which are in English like the other
+ * messages of the import.
+ */
+const FIELD_NAMES: Record<ImportField, string> = {
+  job_title: 'Job title',
+  company_name: 'Company',
+  company_industry: 'Industry',
+  status: 'Status',
+  applied_on: 'Applied on',
+  interview_on: 'Interview on',
+  offer_on: 'Offer on',
+  rejected_on: 'Rejected on',
+  follow_up_on: 'Follow-up',
+  job_posting_link: 'Job posting link',
+  salary_expectation: 'Salary expectation',
+};
+
+/**
+ * Status codes and the names commonly used for them in spreadsheets, in lower case.
+ */
+const STATUS_ALIASES: Record<string, ApplicationStatus> = {
+  draft: 'DRAFT',
+  entwurf: 'DRAFT',
+  applied: 'APPLIED',
+  beworben: 'APPLIED',
+  interview: 'INTERVIEW',
+  vorstellungsgespräch: 'INTERVIEW',
+  offer: 'OFFER',
+  angebot: 'OFFER',
+  'angebot erhalten': 'OFFER',
+  zusage: 'OFFER',
+  rejected: 'REJECTED',
+  abgelehnt: 'REJECTED',
+  absage: 'REJECTED',
+  withdrawn: 'WITHDRAWN',
+  zurückgezogen: 'WITHDRAWN',
+};
+
+/**
+ * Parses CSV text into records of cells.
+ *
+ * Supports quoted cells with escaped quotes and line breaks. The separator (semicolon,
+ * comma or tab) is detected from the first line. A leading byte order mark is ignored.
+ *
+ * @param text - The content of the CSV file.
+ * @returns The records with the line each of them starts on, without empty lines.
+ */
+export function parseCsv(text: string): CsvRecord[] {
+  const content = text.replace(/^\uFEFF/, '');
+  const firstLine = content.split(/\r?\n/, 1)[0] ?? '';
+  const separator = [';', '\t', ','].reduce((best, candidate) =>
+    firstLine.split(candidate).length > firstLine.split(best).length ? candidate : best
+  );
+
+  const records: CsvRecord[] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+  let line = 1;
+  let rowLine = 1;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (char === '\n' || (char === '\r' && content[i + 1] !== '\n')) line++;
+    if (quoted) {
+      if (char === '"' && content[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === separator) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') {
+        i++;
+        line++;
+      }
+      row.push(cell);
+      records.push({ line: rowLine, cells: row });
+      row = [];
+      cell = '';
+      rowLine = line;
+    } else {
+      cell += char;
+    }
+  }
+  row.push(cell);
+  records.push({ line: rowLine, cells: row });
+
+  return records.filter(({ cells }) => cells.some((value) => value.trim() !== ''));
+}
+
+/**
+ * Maps each import field to the first column whose header is one of its aliases.
+ * @param headers - The header row of the CSV file.
+ * @returns The suggested mapping; fields without a matching column are `null`.
+ */
+export function guessColumnMapping(headers: string[]): ColumnMapping {
+  const normalized = headers.map((header) => header.trim().toLowerCase());
+  const mapping = {} as ColumnMapping;
+  for (const { field, aliases } of IMPORT_FIELDS) {
+    const index = normalized.findIndex((header) => aliases.includes(header));
+    mapping[field] = index >= 0 ? index : null;
+  }
+  return mapping;
+}
+
+/**
+ * Parses a date in ISO format (`2024-03-01`, optionally with time) or German format (`01.03.2024`).
+ * @param value - The cell value.
+ * @returns The date as `YYYY-MM-DD`, or `undefined` if the value is not a valid date.
+ */
+export function parseImportDate(value: string): string | undefined {
+  const iso = value.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  const german = value.match(/^(\d{1,2})\.(\d{1,2})\.(\d{4})$/);
+  const [year, month, day] = iso
+    ? [iso[1], iso[2], iso[3]]
+    : german
+      ? [german[3], german[2].padStart(2, '0'), german[1].padStart(2, '0')]
+      : [];
+  if (!year) return undefined;
+
+  const date = new Date(`${year}-${month}-${day}T00:00:00Z`);
+  return !isNaN(date.getTime()) && date.toISOString().startsWith(`${year}-${month}-${day}`)
+    ? `${year}-${month}-${day}`
+    : undefined;
+}
+
+/**
+ * Builds the key used to detect duplicates: company name and job title, ignoring case.
+ * @param companyName - The name of the company.
+ * @param jobTitle - The job title.
+ */
+function duplicateKey(companyName: string, jobTitle: string): string {
+  return `${companyName.trim().toLowerCase()}|${jobTitle.trim().toLowerCase()}`;
+}
+
+/**
+ * Converts the data rows of a CSV file into validated import rows.
+ *
+ * @param records - The data records, without the header row.
+ * @param mapping - Which column holds which field.
+ * @param companies - The existing companies, matched by name.
+ * @param applications - The existing applications, used to detect duplicates.
+ * @returns One import row per data record.
+ */
+export function buildImportRows(
+  records: CsvRecord[],
+  mapping: ColumnMapping,
+  companies: Company[],
+  applications: Application[]
+): ImportRow[] {
+  const companiesByName = new Map(companies.map((c) => [c.name.trim().toLowerCase(), c]));
+  const existing = new Set(applications.map((app) => duplicateKey(app.company.name, app.job_title)));
+  const seen = new Map<string, number>();
+
+  return records.map(({ line, cells }) => {
+    const errors: string[] = [];
+    const value = (field: ImportField) => {
+      const column = mapping[field];
+      return column === null ? '' : (cells[column] ?? '').trim();
+    };
+    const date = (field: StatusDateField | 'follow_up_on') => {
+      const raw = value(field);
+      if (!raw) return null;
+      const parsed = parseImportDate(raw);
+      if (!parsed) errors.push(`Invalid date "${raw}" in ${FIELD_NAMES[field]}.`);
+      return parsed ?? null;
+    };
+
+    for (const { field, required } of IMPORT_FIELDS) {
+      if (required && !value(field)) errors.push(`${FIELD_NAMES[field]} is missing.`);
+    }
+
+    const rawStatus = value('status');
+    const dates = {
+      applied_on: date('applied_on'),
+      interview_on: date('interview_on'),
+      offer_on: date('offer_on'),
+      rejected_on: date('rejected_on'),
+      follow_up_on: date('follow_up_on'),
+    };
+    let status: ApplicationStatus = dates.applied_on ? 'APPLIED' : 'DRAFT';
+    if (rawStatus) {
+      const matched = STATUS_ALIASES[rawStatus.toLowerCase()];
+      if (matched) {
+        status = matched;
+      } else {
+        errors.push(`Unknown status "${rawStatus}".`);
+      }
+    }
+    const dateField = STATUS_DATE_FIELDS[status];
+    if (dateField && !dates[dateField]) {
+      errors.push(`${FIELD_NAMES[dateField]} is missing for the status "${rawStatus || status}".`);
+    }
+
+    const rawSalary = value('salary_expectation');
+    const digits = rawSalary.replace(/[^\d,.-]/g, '');
+    const salary = rawSalary
+      ? Number(digits ? digits.replace(/\.(?=\d{3}\b)/g, '').replace(',', '.') : NaN)
+      : null;
+    if (salary !== null && !Number.isFinite(salary)) {
+      errors.push(`Invalid salary expectation "${rawSalary}".`);
+    }
+
+    const link = value('job_posting_link');
+    if (link && !/^https?:\/\/\S+$/i.test(link)) {
+      errors.push(`Invalid link "${link}".`);
+    }
+
+    const companyName = value('company_name');
+    const jobTitle = value('job_title');
+    const key = duplicateKey(companyName, jobTitle);
+    const earlierLine = seen.get(key);
+    const duplicateOf = existing.has(key)
+      ? 'Application already exists'
+      : earlierLine
+        ? `Same application as in line ${earlierLine}`
+        : null;
+    if (!earlierLine) seen.set(key, line);
+
+    return {
+      line,
+      job_title: jobTitle,
+      company_name: companyName,
+      company_industry: value('company_industry'),
+      status,
+      ...dates,
+      job_posting_link: link,
+      salary_expectation: salary !== null && Number.isFinite(salary) ? Math.round(salary) : null,
+      company: companiesByName.get(companyName.toLowerCase()) ?? null,
+      errors,
+      duplicateOf,
+    };
+  });
+}
@@ -0,0 +1,81 @@
+import { Interview } from '../../models/api-interfaces';
+import {
+  DEFAULT_APPLICATION_FILTER,
+  filterApplications,
+  filterFromQueryParams,
+  filterToQueryParams,
+  findNextInterview,
+  sortApplications,
+} from './application-filter';
+import { buildApplication } from '../../testing/application-fixtures';
+
+describe('application-filter', () => {
+  it('should round-trip a filter through query params', () => {
+    const filter = {
+      ...DEFAULT_APPLICATION_FILTER,
+      search: 'angular',
+      companyId: 3,
+      salaryMin: 50000,
+      followUpDue: true,
+      sort: 'title_asc' as const,
+    };
+    expect(filterFromQueryParams(filterToQueryParams(filter))).toEqual(filter);
+  });
+
+  it('should fall back to the default sort order for unknown values', () => {
+    expect(filterFromQueryParams({ sort: 'toString' }).sort).toBe('created_desc');
+  });
+
+  it('should search in job title, company name and notes', () => {
+    const apps = [
+      buildApplication({ id: 1, job_title: 'Backend Developer' }),
+      buildApplication({ id: 2, notes: [{ id: 1, text: 'Uses Angular', created_at: '' }] }),
+    ];
+    const result = filterApplications(apps, { ...DEFAULT_APPLICATION_FILTER, search: 'angular' });
+    expect(result.map((app) => app.id)).toEqual([2]);
+  });
+
+  it('should exclude applications without salary when a salary range is set', () => {
+    const apps = [
+      buildApplication({ id: 1, salary_expectation: 60000 }),
+      buildApplication({ id: 2, salary_expectation: null }),
+      buildApplication({ id: 3, salary_expectation: 90000 }),
+    ];
+    const result = filterApplications(apps, { ...DEFAULT_APPLICATION_FILTER, salaryMax: 70000 });
+    expect(result.map((app) => app.id)).toEqual([1]);
+  });
+
+  it('should sort by application date descending and put missing dates last', () => {
+    const apps = [
+      buildApplication({ id: 1, applied_on: null }),
+      buildApplication({ id: 2, applied_on: '2024-01-01' }),
+      buildApplication({ id: 3, applied_on: '2024-02-01' }),
+    ];
+    const result = sortApplications(apps, 'applied_desc');
+    expect(result.map((app) => app.id)).toEqual([3, 2, 1]);
+  });
+
+  it('should find the earliest upcoming interview that is not cancelled', () => {
+    const interview = (id: number, scheduled_at: string, outcome: Interview['outcome'] = 'PENDING'): Interview => ({
+      id,
+      application: 1,
+      scheduled_at,
+      interview_type: 'VIDEO',
+      location: '',
+      interviewers: [],
+      preparation_notes: '',
+      outcome,
+    });
+    const now = new Date('2024-03-10T12:00:00Z');
+    const interviews = [
+      interview(1, '2024-03-09T10:00:00Z'),
+      interview(2, '2024-03-20T10:00:00Z'),
+      interview(3, '2024-03-11T10:00:00Z', 'CANCELLED'),
+      interview(4, '2024-03-15T10:00:00Z'),
+    ];
+
+    expect(findNextInterview(interviews, now)?.id).toBe(4);
+    expect(findNextInterview([interviews[0]], now)).toBeNull();
+    expect(findNextInterview(undefined, now)).toBeNull();
+  });
+});
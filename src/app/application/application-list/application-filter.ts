@@ -0,0 +1,201 @@
+import { Params } from '@angular/router';
+import { Application, Interview } from '../../models/api-interfaces';
+import { isFollowUpDue } from '../../shared/dates';
+
+/**
+ * The sort orders available in the board toolbar.
+ */
+export type ApplicationSortOrder =
+  | 'created_desc'
+  | 'created_asc'
+  | 'applied_desc'
+  | 'follow_up_asc'
+  | 'title_asc'
+  | 'company_asc';
+
+/**
+ * Describes the search, filter and sort state of the application board.
+ * Every property maps to one URL query parameter, so a filtered board can be bookmarked.
+ */
+export interface ApplicationFilter {
+  /** Free text matched against job title, company name and note text. */
+  search: string;
+  /** The ID of the company to show, or `null` for all companies. */
+  companyId: number | null;
+  /** The industry to show, or an empty string for all industries. */
+  industry: string;
+  /** The minimum salary expectation, or `null` for no lower bound. */
+  salaryMin: number | null;
+  /** The maximum salary expectation, or `null` for no upper bound. */
+  salaryMax: number | null;
+  /** If `true`, only applications with a due or overdue follow-up are shown. */
+  followUpDue: boolean;
+  /** The order in which the applications are displayed. */
+  sort: ApplicationSortOrder;
+}
+
+/**
+ * The filter state used when no query parameters are present.
+ * Shows all applications, newest first.
+ */
+export const DEFAULT_APPLICATION_FILTER: ApplicationFilter = {
+  search: '',
+  companyId: null,
+  industry: '',
+  salaryMin: null,
+  salaryMax: null,
+  followUpDue: false,
+  sort: 'created_desc',
+};
+
+/**
+ * Maps each sort order to the label shown in the toolbar dropdown.
+ */
+export const SORT_ORDER_LABELS: Record<ApplicationSortOrder, string> = {
+  created_desc: 'Neueste zuerst',
+  created_asc: 'Älteste zuerst',
+  applied_desc: 'Zuletzt beworben',
+  follow_up_asc: 'Nächste Wiedervorlage',
+  title_asc: 'Jobtitel (A–Z)',
+  company_asc: 'Unternehmen (A–Z)',
+};
+
+/**
+ * Finds the next upcoming interview of an application. Cancelled interviews are skipped.
+ *
+ * @param interviews - The interviews of the application, if they are known.
+ * @param now - The current time.
+ * @returns The earliest interview that has not started yet, or `null` if there is none.
+ */
+export function findNextInterview(interviews: Interview[] | undefined, now: Date = new Date()): Interview | null {
+  return (interviews ?? [])
+    .filter((interview) => interview.outcome !== 'CANCELLED' && new Date(interview.scheduled_at) >= now)
+    .reduce<Interview | null>(
+      (next, interview) =>
+        !next || new Date(interview.scheduled_at) < new Date(next.scheduled_at) ? interview : next,
+      null
+    );
+}
+
+/**
+ * Parses URL query parameters into a complete filter state.
+ * Missing or invalid parameters fall back to {@link DEFAULT_APPLICATION_FILTER}.
+ *
+ * @param params - The query parameters of the current route.
+ * @returns The parsed filter state.
+ */
+export function filterFromQueryParams(params: Params): ApplicationFilter {
+  const toNumber = (value: unknown): number | null => {
+    if (value === undefined || value === null || value === '') return null;
+    const parsed = Number(value);
+    return Number.isFinite(parsed) ? parsed : null;
+  };
+  const sort = params['sort'];
+
+  return {
+    search: params['q'] ?? '',
+    companyId: toNumber(params['company']),
+    industry: params['industry'] ?? '',
+    salaryMin: toNumber(params['salaryMin']),
+    salaryMax: toNumber(params['salaryMax']),
+    followUpDue: params['followUp'] === '1',
+    sort: Object.hasOwn(SORT_ORDER_LABELS, sort) ? sort : DEFAULT_APPLICATION_FILTER.sort,
+  };
+}
+
+/**
+ * Converts a filter state into URL query parameters.
+ * Values equal to the default are set to `null` so that they are removed from the URL.
+ *
+ * @param filter - The filter state to convert.
+ * @returns Query parameters suitable for `Router.navigate`.
+ */
+export function filterToQueryParams(filter: ApplicationFilter): Params {
+  return {
+    q: filter.search.trim() || null,
+    company: filter.companyId ?? null,
+    industry: filter.industry || null,
+    salaryMin: filter.salaryMin ?? null,
+    salaryMax: filter.salaryMax ?? null,
+    followUp: filter.followUpDue ? '1' : null,
+    sort: filter.sort === DEFAULT_APPLICATION_FILTER.sort ? null : filter.sort,
+  };
+}
+
+/**
+ * Applies the search and filter criteria of a filter state to a list of applications.
+ *
+ * @param applications - The applications to filter.
+ * @param filter - The filter state to apply.
+ * @returns A new array containing only the matching applications.
+ */
+export function filterApplications(
+  applications: Application[],
+  filter: ApplicationFilter
+): Application[] {
+  const search = filter.search.trim().toLowerCase();
+
+  return applications.filter((app) => {
+    if (search) {
+      const haystack = [
+        app.job_title,
+        app.company.name,
+        ...app.notes.map((note) => note.text),
+      ]
+        .join(' ')
+        .toLowerCase();
+      if (!haystack.includes(search)) return false;
+    }
+    if (filter.companyId !== null && app.company.id !== filter.companyId) return false;
+    if (filter.industry && app.company.industry !== filter.industry) return false;
+    if (filter.salaryMin !== null || filter.salaryMax !== null) {
+      if (app.salary_expectation === null) return false;
+      if (filter.salaryMin !== null && app.salary_expectation < filter.salaryMin) return false;
+      if (filter.salaryMax !== null && app.salary_expectation > filter.salaryMax) return false;
+    }
+    if (filter.followUpDue && !isFollowUpDue(app.follow_up_on)) return false;
+    return true;
+  });
+}
+
+/**
+ * Sorts a list of applications according to the given sort order.
+ * Applications without a value for the sort field are placed at the end.
+ *
+ * @param applications - The applications to sort.
+ * @param sort - The sort order to apply.
+ * @returns A new, sorted array.
+ */
+export function sortApplications(
+  applications: Application[],
+  sort: ApplicationSortOrder
+): Application[] {
+  const time = (value: string | null): number | null =>
+    value ? new Date(value).getTime() : null;
+  const negate = (value: number | null): number | null =>
+    value === null ? null : -value;
+  const compareNullable = (a: number | null, b: number | null): number => {
+    if (a === null && b === null) return 0;
+    if (a === null) return 1;
+    if (b === null) return -1;
+    return a - b;
+  };
+
+  return [...applications].sort((a, b) => {
+    switch (sort) {
+      case 'created_asc':
+        return compareNullable(time(a.created_at), time(b.created_at));
+      case 'applied_desc':
+        return compareNullable(negate(time(a.applied_on)), negate(time(b.applied_on)));
+      case 'follow_up_asc':
+        return compareNullable(time(a.follow_up_on), time(b.follow_up_on));
+      case 'title_asc':
+        return a.job_title.localeCompare(b.job_title, 'de');
+      case 'company_asc':
+        return a.company.name.localeCompare(b.company.name, 'de');
+      case 'created_desc':
+      default:
+        return compareNullable(negate(time(a.created_at)), negate(time(b.created_at)));
+    }
+  });
+}
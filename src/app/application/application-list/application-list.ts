@@ -1,15 +1,65 @@
-import { Component, OnInit, inject } from '@angular/core';
+import { Component, OnDestroy, OnInit, inject } from '@angular/core';
+import { toObservable } from '@angular/core/rxjs-interop';
 import { CommonModule } from '@angular/common';
-import { RouterLink } from '@angular/router';
-import { Api } from '../../services/api';
-import { Application } from '../../models/api-interfaces';
+import { ActivatedRoute, Router, RouterLink } from '@angular/router';
+import { FormBuilder, FormControl, ReactiveFormsModule, Validators } from '@angular/forms';
+import { Observable, Subscription, of } from 'rxjs';
+import { catchError, concatMap, debounceTime, finalize } from 'rxjs/operators';
+import { DataStoreService, groupByStatus } from '../../services/data-store';
+import {
+  Application,
+  ApplicationStatus,
+  CreateStatusChangePayload,
+  INTERVIEW_TYPE_DISPLAY,
+  Interview,
+  STATUS_DATE_FIELDS,
+  StatusDateField,
+} from '../../models/api-interfaces';
 import { NotificationService } from '../../services/notification';
+import { ApplicationDeletionService } from '../../services/application-deletion';
+import { ApiErrorService } from '../../services/api-error';
+import { OfflineQueueService, isTemporaryId } from '../../services/offline-queue';
+import { ConfirmDialog } from '../../shared/confirm-dialog/confirm-dialog';
+import { ApplicationExportService, ExportFormat } from '../../services/application-export';
+import { LinkPreview } from '../../shared/link-preview/link-preview';
+import {
+  BoardColumnPreference,
+  BoardPreferencesService,
+  DEFAULT_BOARD_COLUMNS,
+} from '../../services/board-preferences';
+import {
+  ApplicationFilter,
+  ApplicationSortOrder,
+  DEFAULT_APPLICATION_FILTER,
+  SORT_ORDER_LABELS,
+  filterApplications,
+  filterFromQueryParams,
+  filterToQueryParams,
+  findNextInterview,
+  sortApplications,
+} from './application-filter';
+import { isFollowUpDue, toLocalDateString } from '../../shared/dates';
+
+/**
+ * Describes a status change started by dropping a card into another column,
+ * which is waiting for the user to enter the date required by the new status.
+ */
+interface PendingStatusChange {
+  application: Application;
+  targetStatus: ApplicationStatus;
+  dateField: StatusDateField;
+}
 
 /**
  * Component for displaying job applications in a Kanban-style board layout.
  * 
  * This component provides a visual organization of applications by their status
  * and includes features like follow-up tracking, loading states, and error handling.
+ * Cards can be dragged between the status columns to change an application's status.
+ * A toolbar allows searching, filtering and sorting; its state is kept in the URL query
+ * parameters so that a filtered board can be bookmarked and shared.
+ * Columns can be hidden, reordered and collapsed; these settings are saved per user.
+ * Archived applications and applications waiting to be deleted are not shown on the board.
  * 
  * @example
  * ```html
@@ -19,29 +69,137 @@ import { NotificationService } from '../../services/notification';
 @Component({
   selector: 'app-application-list',
   standalone: true,
-  imports: [CommonModule, RouterLink], 
+  imports: [CommonModule, RouterLink, ReactiveFormsModule, ConfirmDialog, LinkPreview],
   templateUrl: './application-list.html',
   styleUrl: './application-list.scss'
 })
-export class ApplicationList implements OnInit {
+export class ApplicationList implements OnInit, OnDestroy {
   // --- DEPENDENCY INJECTION ---
-  private apiService = inject(Api);
+  private store = inject(DataStoreService);
   private notificationService = inject(NotificationService);
+  private route = inject(ActivatedRoute);
+  private router = inject(Router);
+  private fb = inject(FormBuilder);
+  private boardPreferences = inject(BoardPreferencesService);
+  private deletionService = inject(ApplicationDeletionService);
+  private exportService = inject(ApplicationExportService);
+  private apiErrorService = inject(ApiErrorService);
+  private offlineQueue = inject(OfflineQueueService);
 
   // --- COMPONENT STATE PROPERTIES ---
   
   /** 
-   * Holds the complete list of all job applications fetched from the API.
-   * This array serves as the single source of truth for the component's data.
+   * Holds the list of all active (not archived) job applications from the {@link DataStoreService}.
+   * Updated whenever the store changes, e.g. after a save in another view.
    */
   public allApplications: Application[] = [];
+
+  /** 
+   * Emits the active applications of the store whenever they change.
+   * @private
+   */
+  private activeApplications$ = toObservable(this.store.activeApplications);
+
+  /** 
+   * The applications matching the current filter, in the selected sort order.
+   * This is the list the Kanban columns are built from.
+   */
+  public filteredApplications: Application[] = [];
+
+  /** 
+   * The current search, filter and sort state, parsed from the URL query parameters.
+   */
+  public filter: ApplicationFilter = { ...DEFAULT_APPLICATION_FILTER };
+
+  /** 
+   * The toolbar form. Its values are written to the URL query parameters on change.
+   */
+  public filterForm = this.fb.group({
+    search: [''],
+    companyId: [null as number | null],
+    industry: [''],
+    salaryMin: [null as number | null],
+    salaryMax: [null as number | null],
+    followUpDue: [false],
+    sort: [DEFAULT_APPLICATION_FILTER.sort],
+  });
+
+  /** 
+   * Maps the available sort orders to their labels, for the sort dropdown.
+   * @readonly
+   */
+  public readonly sortOrderLabels = SORT_ORDER_LABELS;
+
+  /** 
+   * The available sort orders in the order they appear in the sort dropdown.
+   * @readonly
+   */
+  public readonly sortOrders = Object.keys(SORT_ORDER_LABELS) as ApplicationSortOrder[];
+
+  /** 
+   * Maps the interview types to their labels, for the next interview on the cards.
+   * @readonly
+   */
+  public readonly interviewTypeLabels = INTERVIEW_TYPE_DISPLAY;
+
+  /** 
+   * The companies that occur in the loaded applications, for the company filter dropdown.
+   */
+  public companyOptions: { id: number; name: string }[] = [];
+
+  /** 
+   * The industries that occur in the loaded applications, for the industry filter dropdown.
+   */
+  public industryOptions: string[] = [];
+
+  /** 
+   * Subscriptions to the query parameters and the toolbar form, cleaned up on destroy.
+   * @private
+   */
+  private subscriptions = new Subscription();
   
   /** 
-   * Defines the specific order of status columns in the Kanban board.
-   * This ensures a consistent and logical flow from left to right.
+   * Defines the default order of status columns in the Kanban board.
+   * Contains every application status, so that no application is left without a column.
    * @readonly
    */
-  public readonly statusOrder = ['DRAFT', 'APPLIED', 'INTERVIEW', 'OFFER', 'REJECTED'];
+  public readonly statusOrder: ApplicationStatus[] = DEFAULT_BOARD_COLUMNS;
+
+  /** 
+   * The user's column settings (order, hidden and collapsed columns), loaded on initialization.
+   */
+  public columns: BoardColumnPreference[] = [];
+
+  /** 
+   * Whether the panel for configuring the board columns is open.
+   * @default false
+   */
+  public isColumnSettingsOpen = false;
+
+  /** 
+   * Whether the panel for exporting applications is open.
+   * @default false
+   */
+  public isExportOpen = false;
+
+  /** 
+   * The file format of the export.
+   * @default 'csv'
+   */
+  public exportFormat: ExportFormat = 'csv';
+
+  /** 
+   * Whether the export contains only the applications matching the current filter,
+   * or all applications including archived ones.
+   * @default 'filtered'
+   */
+  public exportScope: 'filtered' | 'all' = 'filtered';
+
+  /** 
+   * Whether the notes are included in the export.
+   * @default false
+   */
+  public exportIncludeNotes = false;
   
   /** 
    * Maps internal application status codes to user-friendly display titles.
@@ -53,7 +211,8 @@ export class ApplicationList implements OnInit {
     APPLIED: 'Beworben',
     INTERVIEW: 'Interview',
     OFFER: 'Angebote',
-    REJECTED: 'Abgelehnt'
+    REJECTED: 'Abgelehnt',
+    WITHDRAWN: 'Zurückgezogen'
   };
   
   /** 
@@ -80,44 +239,135 @@ export class ApplicationList implements OnInit {
   /** 
    * The count of applications with follow-up dates that are due or overdue.
    * Displayed in the header to notify the user of pending actions.
-   * @default 0
    */
-  public dueFollowUpsCount = 0;
+  get dueFollowUpsCount(): number {
+    return this.store.dueFollowUps().length;
+  }
+
+  /** 
+   * The application whose card is currently being dragged, or `null` if no drag is in progress.
+   * @default null
+   */
+  public draggedApplication: Application | null = null;
+
+  /** 
+   * The status of the column the dragged card is currently hovering over.
+   * Used to highlight the drop target in the template.
+   * @default null
+   */
+  public dragOverStatus: string | null = null;
+
+  /** 
+   * A status change that is waiting for the user to confirm the required date.
+   * While set, the date prompt dialog is displayed.
+   * @default null
+   */
+  public pendingStatusChange: PendingStatusChange | null = null;
+
+  /** 
+   * The application the user wants to delete. While set, the confirmation dialog is displayed.
+   * @default null
+   */
+  public applicationToDelete: Application | null = null;
+
+  /** 
+   * The application a note is being added to from the board. While set, the note dialog is displayed.
+   * @default null
+   */
+  public noteApplication: Application | null = null;
+
+  /** 
+   * Form control for the text entered in the note dialog.
+   */
+  public quickNoteControl = new FormControl<string>('', {
+    nonNullable: true,
+    validators: Validators.required,
+  });
+
+  /** 
+   * A flag indicating whether the note from the note dialog is being saved.
+   * @default false
+   */
+  public isSavingNote = false;
+
+  /** 
+   * Form control for the date entered in the date prompt dialog.
+   */
+  public statusDateControl = new FormControl<string>('', {
+    nonNullable: true,
+    validators: Validators.required,
+  });
+
+  /** 
+   * Form control for the optional comment entered in the date prompt dialog,
+   * stored with the transition in the status history.
+   */
+  public statusCommentControl = new FormControl<string>('', { nonNullable: true });
+
+  /** 
+   * Maps the date fields to the labels shown in the date prompt dialog.
+   * @readonly
+   */
+  public readonly dateFieldLabelMap: Record<StatusDateField, string> = {
+    applied_on: 'Beworben am',
+    interview_on: 'Interview am',
+    offer_on: 'Angebot erhalten am',
+    rejected_on: 'Abgelehnt am',
+  };
 
   /**
    * Component initialization lifecycle hook.
-   * Triggers the initial loading of application data when the component is created.
+   * Connects the board with the store's applications and the toolbar with the URL
+   * query parameters, and triggers the loading of application data.
    */
   ngOnInit(): void {
+    this.columns = this.boardPreferences.load();
+    this.subscriptions.add(
+      this.route.queryParams.subscribe((params) => this.applyFilter(filterFromQueryParams(params)))
+    );
+    this.subscriptions.add(
+      this.filterForm.valueChanges
+        .pipe(debounceTime(300))
+        .subscribe(() => this.onFilterFormChange())
+    );
+    this.subscriptions.add(
+      this.activeApplications$.subscribe((applications) => {
+        this.allApplications = applications;
+        this.updateFilterOptions();
+        this.updateGroupedApplications();
+      })
+    );
     this.loadApplications();
   }
 
   /**
-   * Fetches all job applications from the API and processes them for display.
+   * Component destruction lifecycle hook.
+   * Cleans up the store, query parameter and form subscriptions.
+   */
+  ngOnDestroy(): void {
+    this.subscriptions.unsubscribe();
+  }
+
+  /**
+   * Loads the job applications into the store.
    * 
-   * This is the main data loading method for the component. It handles the loading state,
-   * error handling, and subsequent data transformations like sorting and grouping.
+   * If the store already holds applications, they are shown immediately and refreshed in the
+   * background, so the loading spinner only appears on the first visit. Filtering, sorting and
+   * grouping happen whenever the store's applications change (see {@link ngOnInit}).
    * 
    * @remarks
    * The method performs the following operations:
-   * 1. Sets the `isLoading` flag and clears any previous errors.
-   * 2. Calls the API service to fetch the applications.
-   * 3. On success, it sorts the applications by creation date (newest first).
-   * 4. It then calls helper methods to group the data and calculate due follow-ups.
-   * 5. Finally, it clears the `isLoading` flag.
-   * 6. On failure, it sets an error message and shows a notification.
+   * 1. Sets the `isLoading` flag unless cached data is available and clears any previous errors.
+   * 2. Asks the store to load the applications.
+   * 3. On success, it clears the `isLoading` flag.
+   * 4. On failure, it sets an error message and shows a notification.
    */
   loadApplications(): void {
-    this.isLoading = true;
+    this.isLoading = !this.store.applicationsLoaded();
     this.errorMessage = null;
     
-    this.apiService.getApplications().subscribe({
-      next: (data) => {
-        data.sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime());
-
-        this.allApplications = data;
-        this.updateGroupedApplications();
-        this.calculateDueFollowUps(); 
+    this.store.loadApplications().subscribe({
+      next: () => {
         this.isLoading = false;
       },
       error: (err) => {
@@ -129,41 +379,96 @@ export class ApplicationList implements OnInit {
     });
   }
   
-   /**
-   * Groups the `allApplications` array into a structured object for the Kanban board.
-   * 
-   * This method initializes an empty array for each status defined in `statusOrder` and then
-   * populates these arrays with the corresponding applications. This ensures that all
-   * status columns are always rendered, even if they are empty.
-   * 
+  // =================================================================================
+  // SEARCH, FILTER & SORT
+  // =================================================================================
+
+  /**
+   * Applies a new filter state to the board and syncs it into the toolbar form.
+   * Called whenever the URL query parameters change.
+   * @param filter - The new filter state.
    * @private
    */
-  private updateGroupedApplications(): void {
-    this.groupedApplications = {};
-    
-    for (const status of this.statusOrder) {
-      this.groupedApplications[status] = [];
-    }
-    
+  private applyFilter(filter: ApplicationFilter): void {
+    this.filter = filter;
+    this.filterForm.setValue(filter, { emitEvent: false });
+    this.updateGroupedApplications();
+  }
+
+  /**
+   * Writes the current toolbar values to the URL query parameters.
+   * The board itself is updated through the resulting query parameter change.
+   * @private
+   */
+  private onFilterFormChange(): void {
+    const value = this.filterForm.getRawValue();
+    const filter: ApplicationFilter = {
+      search: value.search ?? '',
+      companyId: value.companyId ?? null,
+      industry: value.industry ?? '',
+      salaryMin: value.salaryMin ?? null,
+      salaryMax: value.salaryMax ?? null,
+      followUpDue: !!value.followUpDue,
+      sort: value.sort ?? DEFAULT_APPLICATION_FILTER.sort,
+    };
+    this.router.navigate([], {
+      relativeTo: this.route,
+      queryParams: filterToQueryParams(filter),
+      queryParamsHandling: 'merge',
+      replaceUrl: true,
+    });
+  }
+
+  /**
+   * Resets all search, filter and sort settings to their defaults.
+   */
+  resetFilter(): void {
+    this.filterForm.setValue({ ...DEFAULT_APPLICATION_FILTER });
+  }
+
+  /**
+   * Whether any search or filter criterion (other than the sort order) is active.
+   */
+  get hasActiveFilter(): boolean {
+    const { sort, ...criteria } = this.filter;
+    const { sort: defaultSort, ...defaultCriteria } = DEFAULT_APPLICATION_FILTER;
+    return JSON.stringify(criteria) !== JSON.stringify(defaultCriteria);
+  }
+
+  /**
+   * Collects the distinct companies and industries of all loaded applications
+   * for the toolbar dropdowns.
+   * @private
+   */
+  private updateFilterOptions(): void {
+    const companies = new Map<number, string>();
+    const industries = new Set<string>();
     for (const app of this.allApplications) {
-      if (this.groupedApplications[app.status]) {
-        this.groupedApplications[app.status].push(app);
-      }
+      companies.set(app.company.id, app.company.name);
+      if (app.company.industry) industries.add(app.company.industry);
     }
+    this.companyOptions = [...companies]
+      .map(([id, name]) => ({ id, name }))
+      .sort((a, b) => a.name.localeCompare(b.name, 'de'));
+    this.industryOptions = [...industries].sort((a, b) => a.localeCompare(b, 'de'));
   }
 
-  /**
-   * Calculates the number of applications with due or overdue follow-up dates.
+   /**
+   * Filters and sorts the `allApplications` array and groups the result into a structured
+   * object for the Kanban board.
    * 
-   * This method filters the main applications list to find items requiring
-   * attention and updates the `dueFollowUpsCount` property.
+   * This method initializes an empty array for each status defined in `statusOrder` and then
+   * populates these arrays with the corresponding applications. This ensures that all
+   * status columns are always rendered, even if they are empty.
    * 
    * @private
-   * @see {@link isFollowUpDue} - The helper function used to check if a follow-up is due.
    */
-  private calculateDueFollowUps(): void {
-    const dueApps = this.allApplications.filter(app => this.isFollowUpDue(app.follow_up_on));
-    this.dueFollowUpsCount = dueApps.length;
+  private updateGroupedApplications(): void {
+    this.filteredApplications = sortApplications(
+      filterApplications(this.allApplications, this.filter),
+      this.filter.sort
+    );
+    this.groupedApplications = groupByStatus(this.filteredApplications, this.statusOrder);
   }
   
   /**
@@ -182,13 +487,434 @@ export class ApplicationList implements OnInit {
    * ```
    */
   public isFollowUpDue(dateString: string | null): boolean {
-    if (!dateString) return false;
-    
-    // Get today's date with time set to midnight for accurate comparison
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
-    
-    const followUpDate = new Date(dateString);
-    return followUpDate <= today;
+    return isFollowUpDue(dateString);
+  }
+
+  /**
+   * Finds the next upcoming interview of an application, shown on its card.
+   *
+   * @param app - The application.
+   * @returns The next interview that is not cancelled, or `null` if none is planned.
+   */
+  public nextInterview(app: Application): Interview | null {
+    return findNextInterview(app.interviews);
+  }
+
+  // =================================================================================
+  // COLUMN SETTINGS
+  // =================================================================================
+
+  /**
+   * The columns that are currently shown on the board, in the user's order.
+   */
+  get visibleColumns(): BoardColumnPreference[] {
+    return this.columns.filter((column) => !column.hidden);
+  }
+
+  /**
+   * The CSS grid template for the board, giving collapsed columns a narrow fixed width.
+   */
+  get boardGridTemplate(): string {
+    return this.visibleColumns
+      .map((column) => (column.collapsed ? '48px' : 'minmax(200px, 1fr)'))
+      .join(' ');
+  }
+
+  /**
+   * Opens or closes the column settings panel.
+   */
+  toggleColumnSettings(): void {
+    this.isColumnSettingsOpen = !this.isColumnSettingsOpen;
+  }
+
+  /**
+   * Shows or hides a column.
+   * @param status - The status of the column to toggle.
+   */
+  toggleColumnHidden(status: string): void {
+    this.updateColumn(status, (column) => ({ ...column, hidden: !column.hidden }));
+  }
+
+  /**
+   * Collapses or expands a column.
+   * @param status - The status of the column to toggle.
+   */
+  toggleColumnCollapsed(status: string): void {
+    this.updateColumn(status, (column) => ({ ...column, collapsed: !column.collapsed }));
+  }
+
+  /**
+   * Moves a column one position to the left or right and saves the new order.
+   * @param index - The current index of the column in `columns`.
+   * @param direction - `-1` to move left, `1` to move right.
+   */
+  moveColumn(index: number, direction: -1 | 1): void {
+    const target = index + direction;
+    if (target < 0 || target >= this.columns.length) return;
+
+    const columns = [...this.columns];
+    [columns[index], columns[target]] = [columns[target], columns[index]];
+    this.columns = columns;
+    this.boardPreferences.save(this.columns);
+  }
+
+  /**
+   * Restores the default column layout and removes the saved settings.
+   */
+  resetColumns(): void {
+    this.boardPreferences.reset();
+    this.columns = this.boardPreferences.load();
+  }
+
+  /**
+   * Applies a change to a single column and saves the settings.
+   * @param status - The status of the column to change.
+   * @param change - A function returning the updated column settings.
+   * @private
+   */
+  private updateColumn(
+    status: string,
+    change: (column: BoardColumnPreference) => BoardColumnPreference
+  ): void {
+    this.columns = this.columns.map((column) =>
+      column.status === status ? change(column) : column
+    );
+    this.boardPreferences.save(this.columns);
+  }
+
+  // =================================================================================
+  // EXPORT
+  // =================================================================================
+
+  /**
+   * The number of applications available for each export scope.
+   */
+  get exportCounts(): Record<'filtered' | 'all', number> {
+    return { filtered: this.filteredApplications.length, all: this.store.applications().length };
+  }
+
+  /**
+   * Opens or closes the export panel.
+   */
+  toggleExport(): void {
+    this.isExportOpen = !this.isExportOpen;
+  }
+
+  /**
+   * Downloads the selected applications in the selected format.
+   */
+  exportApplications(): void {
+    const applications =
+      this.exportScope === 'all' ? this.store.applications() : this.filteredApplications;
+    if (applications.length === 0) {
+      this.notificationService.showInfo('There are no applications to export.');
+      return;
+    }
+
+    const downloaded = this.exportService.export(applications, this.exportFormat, {
+      includeNotes: this.exportIncludeNotes,
+    });
+    if (!downloaded) {
+      this.notificationService.showInfo('The selected applications have no interview, follow-up or offer dates.');
+      return;
+    }
+    this.isExportOpen = false;
+  }
+
+  // =================================================================================
+  // QUICK NOTES
+  // =================================================================================
+
+  /**
+   * Opens the note dialog for an application, so a note can be added without opening the form.
+   * Notes are saved directly and cannot be added offline or to applications that are not synced yet.
+   * @param application - The application to add the note to.
+   */
+  openQuickNote(application: Application): void {
+    if (!this.offlineQueue.online() || isTemporaryId(application.id)) {
+      this.notificationService.showWarning('Notes can only be added while online.', 'Offline');
+      return;
+    }
+    this.noteApplication = application;
+    this.quickNoteControl.reset();
+  }
+
+  /**
+   * Saves the note entered in the note dialog and closes it.
+   */
+  saveQuickNote(): void {
+    const application = this.noteApplication;
+    const text = this.quickNoteControl.value.trim();
+    if (!application || !text) {
+      this.quickNoteControl.markAsTouched();
+      return;
+    }
+
+    this.isSavingNote = true;
+    this.store
+      .createNote({ application: application.id, text })
+      .pipe(finalize(() => (this.isSavingNote = false)))
+      .subscribe({
+        next: () => {
+          this.noteApplication = null;
+          this.notificationService.showSuccess(`Note added to "${application.job_title}".`);
+        },
+        error: (err) => this.apiErrorService.handle(err, { title: 'Note could not be added' }),
+      });
+  }
+
+  /**
+   * Closes the note dialog without saving.
+   */
+  cancelQuickNote(): void {
+    this.noteApplication = null;
+  }
+
+  // =================================================================================
+  // ARCHIVE & DELETE
+  // =================================================================================
+
+  /**
+   * Archives an application, removing it from the board.
+   * The store removes the card immediately and restores it if the API call fails.
+   * @param application - The application to archive.
+   */
+  archiveApplication(application: Application): void {
+    this.store.setApplicationArchived(application, true).subscribe({
+      next: () => {
+        this.notificationService.showSuccess(
+          `"${application.job_title}" has been moved to the archive.`,
+          'Archived'
+        );
+      },
+      error: (err) => {
+        this.notificationService.showError(
+          `"${application.job_title}" could not be archived.`,
+          'Saving failed'
+        );
+        console.error('Error archiving application:', err);
+      },
+    });
+  }
+
+  /**
+   * Opens the confirmation dialog for deleting an application.
+   * @param application - The application to delete.
+   */
+  requestDelete(application: Application): void {
+    if (!this.canDelete(application)) return;
+    this.applicationToDelete = application;
+  }
+
+  /**
+   * Checks whether an application can be deleted; saved applications only while online.
+   * @param application - The application to check.
+   */
+  canDelete(application: Application): boolean {
+    return this.store.canDeleteApplication(application.id);
+  }
+
+  /**
+   * Closes the confirmation dialog without deleting anything.
+   */
+  cancelDelete(): void {
+    this.applicationToDelete = null;
+  }
+
+  /**
+   * Confirms the deletion and schedules it with an undo toast.
+   * The card is hidden while the deletion can be undone and reappears if it is undone or fails.
+   */
+  confirmDelete(): void {
+    const application = this.applicationToDelete;
+    this.applicationToDelete = null;
+    if (!application) return;
+
+    this.deletionService.scheduleDeletion(application);
+  }
+
+  // =================================================================================
+  // DRAG & DROP
+  // =================================================================================
+
+  /**
+   * Starts dragging an application card.
+   * @param event - The native drag event.
+   * @param application - The application represented by the dragged card.
+   */
+  onDragStart(event: DragEvent, application: Application): void {
+    this.draggedApplication = application;
+    event.dataTransfer?.setData('text/plain', String(application.id));
+    if (event.dataTransfer) {
+      event.dataTransfer.effectAllowed = 'move';
+    }
+  }
+
+  /**
+   * Resets the drag state when a drag operation ends, whether it was dropped or cancelled.
+   */
+  onDragEnd(): void {
+    this.draggedApplication = null;
+    this.dragOverStatus = null;
+  }
+
+  /**
+   * Allows dropping onto a column and marks it as the current drop target.
+   * @param event - The native drag event.
+   * @param status - The status of the column being hovered.
+   */
+  onDragOver(event: DragEvent, status: string): void {
+    if (!this.draggedApplication) return;
+    event.preventDefault();
+    if (event.dataTransfer) {
+      event.dataTransfer.dropEffect = 'move';
+    }
+    this.dragOverStatus = status;
+  }
+
+  /**
+   * Removes the drop target highlight when the dragged card leaves a column.
+   * @param event - The native drag event.
+   * @param status - The status of the column being left.
+   */
+  onDragLeave(event: DragEvent, status: string): void {
+    const column = event.currentTarget as HTMLElement | null;
+    const target = event.relatedTarget as Node | null;
+    if (column && target && column.contains(target)) return;
+    if (this.dragOverStatus === status) {
+      this.dragOverStatus = null;
+    }
+  }
+
+  /**
+   * Handles dropping a card into a status column.
+   * 
+   * If the target status requires a date (see {@link STATUS_DATE_FIELDS}), the date prompt
+   * is opened, prefilled with an existing date or today. Otherwise the status change is saved directly.
+   * 
+   * @param event - The native drag event.
+   * @param status - The status of the column the card was dropped into.
+   */
+  onDrop(event: DragEvent, status: string): void {
+    event.preventDefault();
+    const application = this.draggedApplication;
+    this.onDragEnd();
+
+    if (!application || application.status === status) return;
+
+    const targetStatus = status as ApplicationStatus;
+    const dateField = STATUS_DATE_FIELDS[targetStatus];
+
+    if (dateField) {
+      this.pendingStatusChange = { application, targetStatus, dateField };
+      this.statusDateControl.reset(application[dateField] ?? toLocalDateString());
+      this.statusCommentControl.reset();
+    } else {
+      this.changeStatus(application, targetStatus);
+    }
+  }
+
+  /**
+   * Confirms the date prompt and saves the pending status change with the entered date.
+   */
+  confirmPendingStatusChange(): void {
+    if (!this.pendingStatusChange || this.statusDateControl.invalid) {
+      this.statusDateControl.markAsTouched();
+      return;
+    }
+
+    const { application, targetStatus, dateField } = this.pendingStatusChange;
+    this.pendingStatusChange = null;
+    this.changeStatus(
+      application,
+      targetStatus,
+      dateField,
+      this.statusDateControl.value,
+      this.statusCommentControl.value.trim()
+    );
+  }
+
+  /**
+   * Closes the date prompt without changing the application's status.
+   */
+  cancelPendingStatusChange(): void {
+    this.pendingStatusChange = null;
+  }
+
+  /**
+   * Moves an application to a new status column and persists the change via the API.
+   * 
+   * The card is moved immediately (optimistic update in the store). If the API call fails, the
+   * store restores the original application, the card jumps back to its previous column and an
+   * error is shown. Once saved, the transition is recorded in the status history.
+   * 
+   * @param application - The application to move.
+   * @param targetStatus - The new status.
+   * @param dateField - The date field required by the new status, if any.
+   * @param date - The date to store in `dateField`.
+   * @param comment - The comment for the status history, if any.
+   * @private
+   */
+  private changeStatus(
+    application: Application,
+    targetStatus: ApplicationStatus,
+    dateField?: StatusDateField,
+    date?: string,
+    comment?: string
+  ): void {
+    const moved: Application = {
+      ...application,
+      status: targetStatus,
+      status_display: this.statusTitleMap[targetStatus] ?? targetStatus,
+      ...(dateField ? { [dateField]: date } : {}),
+    };
+    const payload = dateField
+      ? { status: targetStatus, [dateField]: date }
+      : { status: targetStatus };
+
+    const statusChange: CreateStatusChangePayload = {
+      from_status: application.status,
+      to_status: targetStatus,
+      changed_at: new Date().toISOString(),
+      ...(comment ? { comment } : {}),
+    };
+
+    this.store
+      .patchApplication(application.id, payload, moved)
+      .pipe(concatMap((saved) => this.recordStatusChange(saved.id, statusChange)))
+      .subscribe({
+        error: (err) => {
+          this.notificationService.showError(
+            `"${application.job_title}" could not be moved. The change has been undone.`,
+            'Saving failed'
+          );
+          console.error('Error updating application status:', err);
+        },
+      });
+  }
+
+  /**
+   * Records a status transition made on the board in the status history.
+   * The application is already saved at this point, so a failure only causes a warning.
+   * Transitions saved offline are queued like the application itself.
+   * @param applicationId - The ID of the saved application.
+   * @param statusChange - The transition to record.
+   * @returns An Observable that emits once the transition has been recorded, queued or skipped.
+   * @private
+   */
+  private recordStatusChange(
+    applicationId: number,
+    statusChange: CreateStatusChangePayload
+  ): Observable<unknown> {
+    return this.store.recordStatusChange(applicationId, statusChange).pipe(
+      catchError((err) => {
+        console.error('Error recording status change:', err);
+        this.notificationService.showWarning(
+          'The application has been moved, but the status change could not be added to its history.',
+          'Status history'
+        );
+        return of(null);
+      })
+    );
   }
-}
\ No newline at end of file
+}
@@ -9,7 +9,8 @@ export const authGuard: CanActivateFn = (route, state) => {
   if (apiService.isLoggedIn()) {
     return true;
   } else {
-    router.navigate(['/login']);
+    // Remember the requested page so that the login can return to it
+    router.navigate(['/login'], { queryParams: { returnUrl: state.url } });
     return false;
   }
 };
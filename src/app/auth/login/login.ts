@@ -1,13 +1,15 @@
 import { Component, inject } from '@angular/core';
 import { FormBuilder, ReactiveFormsModule, Validators } from '@angular/forms';
-import { Router, RouterLink } from '@angular/router';
+import { ActivatedRoute, Router, RouterLink } from '@angular/router';
 import { Api } from '../../services/api';
+import { ApiErrorService } from '../../services/api-error';
+import { ServerError } from '../../shared/server-error/server-error';
 import { CommonModule } from '@angular/common';
 
 @Component({
   selector: 'app-login',
   standalone: true,
-  imports: [CommonModule, ReactiveFormsModule, RouterLink],
+  imports: [CommonModule, ReactiveFormsModule, RouterLink, ServerError],
   templateUrl: './login.html',
   styleUrl: './login.scss',
 })
@@ -15,6 +17,8 @@ export class Login {
   private fb = inject(FormBuilder);
   private apiService = inject(Api);
   private router = inject(Router);
+  private route = inject(ActivatedRoute);
+  private apiErrorService = inject(ApiErrorService);
 
   loginForm = this.fb.group({
     email: ['', [Validators.required, Validators.email]],
@@ -28,15 +32,31 @@ export class Login {
       this.apiService.login(this.loginForm.value).subscribe({
         next: (response) => {
           console.log('Login erfolgreich', response);
-          this.apiService.saveToken(response.token);
-          this.router.navigate(['/applications']);
+          this.apiService.saveToken(response.token, response.username);
+          this.router.navigateByUrl(this.returnUrl());
         },
         error: (err) => {
+          // Field errors are shown on the inputs, other server messages below the form
+          const error = this.apiErrorService.handle(err, {
+            form: this.loginForm,
+            notifyValidation: false,
+          });
           this.errorMessage =
-            'Login fehlgeschlagen. Überprüfen Sie E-Mail und Passwort.';
-          console.error(err);
+            error.kind === 'validation'
+              ? error.messages.join(' ') || 'Login fehlgeschlagen. Überprüfen Sie E-Mail und Passwort.'
+              : null;
         },
       });
     }
   }
+
+  /**
+   * Returns the page to open after logging in: the `returnUrl` query parameter set when the
+   * session expired, or the application board. Only app-internal paths are accepted.
+   * @private
+   */
+  private returnUrl(): string {
+    const returnUrl = this.route.snapshot.queryParamMap.get('returnUrl');
+    return returnUrl?.startsWith('/') && !returnUrl.startsWith('//') ? returnUrl : '/applications';
+  }
 }
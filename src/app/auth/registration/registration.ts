@@ -11,6 +11,8 @@ import {
 } from '@angular/forms';
 
 import { Api } from '../../services/api';
+import { ApiErrorService } from '../../services/api-error';
+import { ServerError } from '../../shared/server-error/server-error';
 
 export const passwordsMatchValidator: ValidatorFn = (
   control: AbstractControl
@@ -28,7 +30,7 @@ export const passwordsMatchValidator: ValidatorFn = (
 @Component({
   selector: 'app-registration',
   standalone: true,
-  imports: [CommonModule, ReactiveFormsModule, RouterLink],
+  imports: [CommonModule, ReactiveFormsModule, RouterLink, ServerError],
   templateUrl: './registration.html',
   styleUrl: './registration.scss',
 })
@@ -36,6 +38,7 @@ export class Registration {
   private fb = inject(FormBuilder);
   private apiService = inject(Api);
   private router = inject(Router);
+  private apiErrorService = inject(ApiErrorService);
 
   registerForm = this.fb.group(
     {
@@ -54,13 +57,19 @@ export class Registration {
       this.apiService.register(this.registerForm.value).subscribe({
         next: (response) => {
           console.log('Registrierung erfolgreich', response);
-          this.apiService.saveToken(response.token);
+          this.apiService.saveToken(response.token, response.username);
           this.router.navigate(['/applications']); // Nach Erfolg zur App weiterleiten
         },
         error: (err) => {
+          // Field errors are shown on the inputs, other server messages below the form
+          const error = this.apiErrorService.handle(err, {
+            form: this.registerForm,
+            notifyValidation: false,
+          });
           this.errorMessage =
-            'Registrierung fehlgeschlagen. Bitte überprüfen Sie Ihre Eingaben.';
-          console.error(err);
+            error.kind === 'validation'
+              ? error.messages.join(' ') || 'Registrierung fehlgeschlagen. Bitte überprüfen Sie Ihre Eingaben.'
+              : null;
         },
       });
     }
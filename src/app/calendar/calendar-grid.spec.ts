@@ -0,0 +1,34 @@
+import { buildCalendarDays, buildCalendarEntries, shiftCalendarPeriod } from './calendar-grid';
+import { buildApplication } from '../testing/application-fixtures';
+
+describe('calendar-grid', () => {
+  it('should collect all dates of the applications by day', () => {
+    const entries = buildCalendarEntries([
+      buildApplication({ id: 1, applied_on: '2024-03-01', interview_on: '2024-03-12', follow_up_on: '2024-03-12' }),
+      buildApplication({ id: 2, applied_on: '2024-03-01' }),
+    ]);
+    expect(entries.get('2024-03-01')?.map((entry) => entry.application.id)).toEqual([1, 2]);
+    expect(entries.get('2024-03-12')?.map((entry) => entry.field)).toEqual(['interview_on', 'follow_up_on']);
+  });
+
+  it('should fill a month up to whole weeks starting on Monday', () => {
+    const days = buildCalendarDays('2024-03-15', 'month', new Map());
+    expect(days.length).toBe(35);
+    expect(days[0].date).toBe('2024-02-26');
+    expect(days[0].inPeriod).toBeFalse();
+    expect(days[4].date).toBe('2024-03-01');
+    expect(days[34].date).toBe('2024-03-31');
+  });
+
+  it('should show the week of the anchor date', () => {
+    const days = buildCalendarDays('2024-03-14', 'week', new Map());
+    expect(days.map((day) => day.dayOfMonth)).toEqual([11, 12, 13, 14, 15, 16, 17]);
+    expect(days.every((day) => day.inPeriod)).toBeTrue();
+  });
+
+  it('should move by months without skipping short months', () => {
+    expect(shiftCalendarPeriod('2024-01-31', 'month', 1)).toBe('2024-02-01');
+    expect(shiftCalendarPeriod('2024-01-15', 'month', -1)).toBe('2023-12-01');
+    expect(shiftCalendarPeriod('2024-03-14', 'week', 1)).toBe('2024-03-21');
+  });
+});
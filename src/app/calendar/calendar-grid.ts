@@ -0,0 +1,153 @@
+import { Application } from '../models/api-interfaces';
+
+/** The date fields of an application that are placed in the calendar. */
+export type CalendarField = 'applied_on' | 'interview_on' | 'offer_on' | 'rejected_on' | 'follow_up_on';
+
+/** Whether the calendar shows a whole month or a single week. */
+export type CalendarMode = 'month' | 'week';
+
+/**
+ * One date of an application, placed on a day of the calendar.
+ */
+export interface CalendarEntry {
+  application: Application;
+  field: CalendarField;
+  /** The kind of date, e.g. "Interview". */
+  label: string;
+  /** The date as `YYYY-MM-DD`. */
+  date: string;
+}
+
+/**
+ * A day cell of the calendar.
+ */
+export interface CalendarDay {
+  /** The date as `YYYY-MM-DD`. */
+  date: string;
+  /** The day of the month. */
+  dayOfMonth: number;
+  /** `false` for the days of the previous and next month that fill up the first and last week. */
+  inPeriod: boolean;
+  entries: CalendarEntry[];
+}
+
+/** The labels of the calendar fields, in the order entries of the same day are listed. */
+export const CALENDAR_FIELD_LABELS: Record<CalendarField, string> = {
+  applied_on: 'Beworben',
+  interview_on: 'Interview',
+  offer_on: 'Angebot',
+  rejected_on: 'Absage',
+  follow_up_on: 'Wiedervorlage',
+};
+
+/** Milliseconds per day. */
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Converts a date string to the UTC timestamp of that day.
+ * @param date - The date as `YYYY-MM-DD`.
+ * @private
+ */
+function toDay(date: string): number {
+  return Date.UTC(Number(date.slice(0, 4)), Number(date.slice(5, 7)) - 1, Number(date.slice(8, 10)));
+}
+
+/**
+ * Formats the UTC timestamp of a day as `YYYY-MM-DD`.
+ * @param time - The timestamp.
+ * @private
+ */
+function formatDay(time: number): string {
+  return new Date(time).toISOString().slice(0, 10);
+}
+
+/**
+ * Returns the Monday of the week a day belongs to.
+ * @param time - The UTC timestamp of the day.
+ * @private
+ */
+function startOfWeek(time: number): number {
+  return time - ((new Date(time).getUTCDay() + 6) % 7) * DAY_MS;
+}
+
+/**
+ * Collects the dates of all applications as calendar entries, grouped by day.
+ *
+ * @param applications - The applications to place in the calendar.
+ * @returns The entries per date (`YYYY-MM-DD`), in the order of {@link CALENDAR_FIELD_LABELS}.
+ */
+export function buildCalendarEntries(applications: Application[]): Map<string, CalendarEntry[]> {
+  const entries = new Map<string, CalendarEntry[]>();
+  for (const field of Object.keys(CALENDAR_FIELD_LABELS) as CalendarField[]) {
+    for (const application of applications) {
+      const value = application[field];
+      if (!value) continue;
+      const date = value.slice(0, 10);
+      const entry = { application, field, label: CALENDAR_FIELD_LABELS[field], date };
+      entries.set(date, [...(entries.get(date) ?? []), entry]);
+    }
+  }
+  return entries;
+}
+
+/**
+ * Builds the day cells of the month or week containing a date.
+ * Months are filled up to whole weeks from Monday to Sunday.
+ *
+ * @param anchor - A date in the period to show, as `YYYY-MM-DD`.
+ * @param mode - Whether to show the whole month or the week.
+ * @param entries - The calendar entries per date, see {@link buildCalendarEntries}.
+ * @returns The day cells, row by row.
+ */
+export function buildCalendarDays(
+  anchor: string,
+  mode: CalendarMode,
+  entries: Map<string, CalendarEntry[]>
+): CalendarDay[] {
+  const anchorDay = toDay(anchor);
+  const month = anchor.slice(0, 7);
+  let first: number;
+  let last: number;
+  if (mode === 'week') {
+    first = startOfWeek(anchorDay);
+    last = first + 6 * DAY_MS;
+  } else {
+    const firstOfMonth = toDay(`${month}-01`);
+    const date = new Date(firstOfMonth);
+    const lastOfMonth = Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 0);
+    first = startOfWeek(firstOfMonth);
+    last = startOfWeek(lastOfMonth) + 6 * DAY_MS;
+  }
+
+  const days: CalendarDay[] = [];
+  for (let time = first; time <= last; time += DAY_MS) {
+    const date = formatDay(time);
+    days.push({
+      date,
+      dayOfMonth: new Date(time).getUTCDate(),
+      inPeriod: mode === 'week' || date.startsWith(month),
+      entries: entries.get(date) ?? [],
+    });
+  }
+  return days;
+}
+
+/**
+ * Moves a date to the previous or next month or week.
+ * When moving by months, the day is set to the 1st, so that short months are not skipped.
+ *
+ * @param anchor - The current date as `YYYY-MM-DD`.
+ * @param mode - Whether to move by months or by weeks.
+ * @param delta - The number of periods to move, negative to go back.
+ * @returns The new date as `YYYY-MM-DD`.
+ */
+export function shiftCalendarPeriod(anchor: string, mode: CalendarMode, delta: number): string {
+  const date = new Date(toDay(anchor));
+  if (mode === 'week') {
+    date.setUTCDate(date.getUTCDate() + delta * 7);
+  } else {
+    date.setUTCDate(1);
+    date.setUTCMonth(date.getUTCMonth() + delta);
+  }
+  return formatDay(date.getTime());
+}
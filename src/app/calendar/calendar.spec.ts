@@ -0,0 +1,27 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { provideHttpClient } from '@angular/common/http';
+import { provideRouter } from '@angular/router';
+import { provideToastr } from 'ngx-toastr';
+
+import { ApplicationCalendar } from './calendar';
+
+describe('ApplicationCalendar', () => {
+  let component: ApplicationCalendar;
+  let fixture: ComponentFixture<ApplicationCalendar>;
+
+  beforeEach(async () => {
+    await TestBed.configureTestingModule({
+      imports: [ApplicationCalendar],
+      providers: [provideHttpClient(), provideRouter([]), provideToastr()]
+    })
+    .compileComponents();
+
+    fixture = TestBed.createComponent(ApplicationCalendar);
+    component = fixture.componentInstance;
+    fixture.detectChanges();
+  });
+
+  it('should create', () => {
+    expect(component).toBeTruthy();
+  });
+});
@@ -0,0 +1,260 @@
+import { Component, OnInit, computed, inject, signal } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { Router } from '@angular/router';
+import { DataStoreService, toApplicationPayload } from '../services/data-store';
+import { NotificationService } from '../services/notification';
+import { toLocalDateString } from '../shared/dates';
+import { ApplicationStatus, STATUS_DISPLAY } from '../models/api-interfaces';
+import {
+  CalendarEntry,
+  CalendarMode,
+  buildCalendarDays,
+  buildCalendarEntries,
+  shiftCalendarPeriod,
+} from './calendar-grid';
+
+/** The weekday names shown above the day cells, starting on Monday. */
+const WEEKDAYS = ['Mo', 'Di', 'Mi', 'Do', 'Fr', 'Sa', 'So'];
+
+/** The month names for the title of the month view. */
+const MONTHS = [
+  'Januar', 'Februar', 'März', 'April', 'Mai', 'Juni',
+  'Juli', 'August', 'September', 'Oktober', 'November', 'Dezember',
+];
+
+/**
+ * Component for the calendar view of all application dates.
+ *
+ * Shows a month or a week with every application placed on its application, interview,
+ * offer, rejection and follow-up dates, colour-coded by status. Clicking an entry opens
+ * the application. Follow-ups can be dragged to another day to reschedule them.
+ *
+ * @example
+ * ```html
+ * <app-application-calendar></app-application-calendar>
+ * ```
+ */
+@Component({
+  selector: 'app-application-calendar',
+  standalone: true,
+  imports: [CommonModule],
+  templateUrl: './calendar.html',
+  styleUrl: './calendar.scss',
+})
+export class ApplicationCalendar implements OnInit {
+  // --- DEPENDENCY INJECTION ---
+  private store = inject(DataStoreService);
+  private router = inject(Router);
+  private notificationService = inject(NotificationService);
+
+  // --- COMPONENT STATE ---
+
+  /** The weekday names shown above the day cells. */
+  readonly weekdays = WEEKDAYS;
+
+  /** The statuses with their names, for the colour legend. */
+  readonly statuses = Object.entries(STATUS_DISPLAY) as [ApplicationStatus, string][];
+
+  /** Today as `YYYY-MM-DD`, to highlight the current day. */
+  readonly today = toLocalDateString();
+
+  /**
+   * Whether a whole month or a single week is shown.
+   * @default 'month'
+   */
+  mode = signal<CalendarMode>('month');
+
+  /**
+   * A date in the shown period, as `YYYY-MM-DD`.
+   * @default today
+   */
+  anchor = signal(this.today);
+
+  /**
+   * The dates of all active applications, grouped by day.
+   */
+  entries = computed(() => buildCalendarEntries(this.store.activeApplications()));
+
+  /**
+   * The day cells of the shown month or week.
+   */
+  days = computed(() => buildCalendarDays(this.anchor(), this.mode(), this.entries()));
+
+  /**
+   * The title of the shown period, e.g. "März 2024" or "11.03. – 17.03.2024".
+   */
+  periodTitle = computed(() => {
+    if (this.mode() === 'month') {
+      const [year, month] = this.anchor().split('-');
+      return `${MONTHS[Number(month) - 1]} ${year}`;
+    }
+    const days = this.days();
+    const format = (date: string) => date.split('-').reverse().join('.');
+    return `${format(days[0].date).slice(0, 6)} – ${format(days[days.length - 1].date)}`;
+  });
+
+  /**
+   * A flag indicating whether data is currently being loaded.
+   * @default true
+   */
+  public isLoading = true;
+
+  /**
+   * A string to hold an error message if loading fails.
+   * @default null
+   */
+  public errorMessage: string | null = null;
+
+  /**
+   * The follow-up entry that is currently being dragged, or `null` if no drag is in progress.
+   * @default null
+   */
+  public draggedEntry: CalendarEntry | null = null;
+
+  /**
+   * The day the dragged entry is currently hovering over, to highlight the drop target.
+   * @default null
+   */
+  public dragOverDate: string | null = null;
+
+  /**
+   * Component initialization lifecycle hook.
+   * Loads the applications shown in the calendar.
+   */
+  ngOnInit(): void {
+    this.loadApplications();
+  }
+
+  /**
+   * Loads all applications into the store. The calendar entries are derived from the store.
+   */
+  loadApplications(): void {
+    this.isLoading = true;
+    this.errorMessage = null;
+
+    this.store.loadApplications().subscribe({
+      next: () => {
+        this.isLoading = false;
+      },
+      error: (err) => {
+        this.notificationService.showError(
+          'Applications could not be loaded from the server.',
+          'Loading Error'
+        );
+        this.errorMessage = 'Error loading the calendar.';
+        this.isLoading = false;
+        console.error('Error loading applications for the calendar:', err);
+      },
+    });
+  }
+
+  // =================================================================================
+  // NAVIGATION
+  // =================================================================================
+
+  /**
+   * Switches between the month and the week view, keeping the shown date.
+   * @param mode - The view to show.
+   */
+  setMode(mode: CalendarMode): void {
+    this.mode.set(mode);
+  }
+
+  /**
+   * Shows the previous or next month or week.
+   * @param delta - `-1` for the previous, `1` for the next period.
+   */
+  shift(delta: number): void {
+    this.anchor.set(shiftCalendarPeriod(this.anchor(), this.mode(), delta));
+  }
+
+  /**
+   * Shows the period containing today.
+   */
+  goToToday(): void {
+    this.anchor.set(this.today);
+  }
+
+  /**
+   * Opens the application of a calendar entry.
+   * @param entry - The clicked entry.
+   */
+  openEntry(entry: CalendarEntry): void {
+    this.router.navigate(['/applications', entry.application.id]);
+  }
+
+  // =================================================================================
+  // DRAG & DROP
+  // =================================================================================
+
+  /**
+   * Starts dragging a follow-up entry. Other dates cannot be moved in the calendar.
+   * @param event - The native drag event.
+   * @param entry - The dragged entry.
+   */
+  onDragStart(event: DragEvent, entry: CalendarEntry): void {
+    if (entry.field !== 'follow_up_on') {
+      event.preventDefault();
+      return;
+    }
+    this.draggedEntry = entry;
+    event.dataTransfer?.setData('text/plain', String(entry.application.id));
+    if (event.dataTransfer) {
+      event.dataTransfer.effectAllowed = 'move';
+    }
+  }
+
+  /**
+   * Resets the drag state when a drag operation ends, whether it was dropped or cancelled.
+   */
+  onDragEnd(): void {
+    this.draggedEntry = null;
+    this.dragOverDate = null;
+  }
+
+  /**
+   * Allows dropping onto a day and marks it as the current drop target.
+   * @param event - The native drag event.
+   * @param date - The day being hovered.
+   */
+  onDragOver(event: DragEvent, date: string): void {
+    if (!this.draggedEntry) return;
+    event.preventDefault();
+    if (event.dataTransfer) {
+      event.dataTransfer.dropEffect = 'move';
+    }
+    this.dragOverDate = date;
+  }
+
+  /**
+   * Reschedules the dragged follow-up to the day it was dropped on.
+   * The entry moves immediately and returns to its day if saving fails.
+   * @param event - The native drag event.
+   * @param date - The day the entry was dropped on.
+   */
+  onDrop(event: DragEvent, date: string): void {
+    event.preventDefault();
+    const entry = this.draggedEntry;
+    this.onDragEnd();
+    if (!entry || entry.date === date) return;
+
+    const { application } = entry;
+    this.store
+      .updateApplication(application.id, { ...toApplicationPayload(application), follow_up_on: date })
+      .subscribe({
+        next: () => {
+          this.notificationService.showSuccess(
+            `The follow-up for "${application.job_title}" has been moved to ${date}.`,
+            'Rescheduled'
+          );
+        },
+        error: (err) => {
+          this.notificationService.showError(
+            `The follow-up for "${application.job_title}" could not be moved.`,
+            'Saving failed'
+          );
+          console.error('Error rescheduling follow-up:', err);
+        },
+      });
+  }
+}
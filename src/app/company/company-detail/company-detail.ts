@@ -0,0 +1,192 @@
+import { Component, OnInit, inject } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { ActivatedRoute, Router, RouterLink } from '@angular/router';
+import { FormBuilder, ReactiveFormsModule, Validators } from '@angular/forms';
+import { forkJoin } from 'rxjs';
+import { map } from 'rxjs/operators';
+import { Api } from '../../services/api';
+import { DataStoreService } from '../../services/data-store';
+import { NotificationService } from '../../services/notification';
+import { Application, Company, Contact } from '../../models/api-interfaces';
+
+/**
+ * Component for displaying and editing a single company.
+ *
+ * Shows the company's master data together with its applications and contacts.
+ * The master data can be edited inline and is saved via {@link DataStoreService.updateCompany}.
+ *
+ * @example
+ * ```html
+ * <app-company-detail></app-company-detail>
+ * ```
+ */
+@Component({
+  selector: 'app-company-detail',
+  standalone: true,
+  imports: [CommonModule, ReactiveFormsModule, RouterLink],
+  templateUrl: './company-detail.html',
+  styleUrl: './company-detail.scss',
+})
+export class CompanyDetail implements OnInit {
+  // --- DEPENDENCY INJECTION ---
+  private fb = inject(FormBuilder);
+  private apiService = inject(Api);
+  private store = inject(DataStoreService);
+  private route = inject(ActivatedRoute);
+  private router = inject(Router);
+  private notificationService = inject(NotificationService);
+
+  // --- COMPONENT STATE ---
+
+  /**
+   * The company being displayed, or `null` while it is loading.
+   * @default null
+   */
+  public company: Company | null = null;
+
+  /**
+   * The applications sent to this company.
+   * @default []
+   */
+  public applications: Application[] = [];
+
+  /**
+   * The contact persons of this company.
+   * @default []
+   */
+  public contacts: Contact[] = [];
+
+  /**
+   * A flag indicating whether data is currently being loaded.
+   * @default true
+   */
+  public isLoading = true;
+
+  /**
+   * Whether the company's master data is currently being edited.
+   * @default false
+   */
+  public isEditing = false;
+
+  /**
+   * A flag indicating whether a save request is in progress.
+   * @default false
+   */
+  public isSaving = false;
+
+  /**
+   * Reactive form for editing the company's master data inline.
+   */
+  public companyForm = this.fb.group({
+    name: ['', Validators.required],
+    industry: ['', Validators.required],
+    website: [''],
+  });
+
+  /**
+   * Component initialization lifecycle hook.
+   * Reads the company ID from the route and loads all related data.
+   */
+  ngOnInit(): void {
+    const id = Number(this.route.snapshot.paramMap.get('id'));
+    if (id) {
+      this.loadCompany(id);
+    }
+  }
+
+  /**
+   * Loads the company, its applications and its contacts in parallel.
+   * Navigates back to the directory if the company cannot be loaded.
+   * @param id - The unique identifier of the company.
+   */
+  loadCompany(id: number): void {
+    this.isLoading = true;
+
+    forkJoin({
+      company: this.apiService.getCompanyById(id),
+      applications: this.store
+        .loadApplications()
+        .pipe(map((apps) => apps.filter((app) => app.company.id === id))),
+      contacts: this.apiService.getContactsForCompany(id),
+    }).subscribe({
+      next: ({ company, applications, contacts }) => {
+        this.company = company;
+        this.applications = applications;
+        this.contacts = contacts;
+        this.isLoading = false;
+      },
+      error: (err) => {
+        this.isLoading = false;
+        this.notificationService.showError(
+          'The company details could not be loaded.',
+          'Error'
+        );
+        console.error('Error loading company:', err);
+        this.router.navigate(['/companies']);
+      },
+    });
+  }
+
+  /**
+   * Switches to edit mode and fills the form with the current company data.
+   */
+  startEditing(): void {
+    if (!this.company) return;
+    this.companyForm.reset({
+      name: this.company.name,
+      industry: this.company.industry,
+      website: this.company.website ?? '',
+    });
+    this.isEditing = true;
+  }
+
+  /**
+   * Leaves edit mode without saving.
+   */
+  cancelEditing(): void {
+    this.isEditing = false;
+  }
+
+  /**
+   * Validates the form and saves the company's master data.
+   */
+  saveCompany(): void {
+    if (!this.company) return;
+    if (this.companyForm.invalid) {
+      this.companyForm.markAllAsTouched();
+      this.notificationService.showWarning(
+        'Please fill in all required fields correctly.',
+        'Invalid input'
+      );
+      return;
+    }
+
+    const { name, industry, website } = this.companyForm.getRawValue();
+    this.isSaving = true;
+    this.store
+      .updateCompany(this.company.id, {
+        name: name!,
+        industry: industry!,
+        website: website || null,
+      })
+      .subscribe({
+        next: (updated) => {
+          this.company = updated;
+          this.isEditing = false;
+          this.isSaving = false;
+          this.notificationService.showSuccess(
+            `Company “${updated.name}” has been updated.`,
+            'Company saved!'
+          );
+        },
+        error: (err) => {
+          this.isSaving = false;
+          this.notificationService.showError(
+            'The company could not be updated.',
+            'Saving failed'
+          );
+          console.error('Error updating company:', err);
+        },
+      });
+  }
+}
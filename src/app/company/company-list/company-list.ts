@@ -0,0 +1,110 @@
+import { Component, OnInit, computed, inject } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { RouterLink } from '@angular/router';
+import { forkJoin } from 'rxjs';
+import { DataStoreService } from '../../services/data-store';
+import { NotificationService } from '../../services/notification';
+import { Company } from '../../models/api-interfaces';
+
+/**
+ * A company together with the number of applications sent to it.
+ */
+export interface CompanyWithCount {
+  company: Company;
+  applicationCount: number;
+}
+
+/**
+ * Component for displaying the directory of all companies.
+ *
+ * Lists every company with its industry, website and the number of applications
+ * sent to it. Each entry links to the company detail page.
+ *
+ * @example
+ * ```html
+ * <app-company-list></app-company-list>
+ * ```
+ */
+@Component({
+  selector: 'app-company-list',
+  standalone: true,
+  imports: [CommonModule, RouterLink],
+  templateUrl: './company-list.html',
+  styleUrl: './company-list.scss',
+})
+export class CompanyList implements OnInit {
+  // --- DEPENDENCY INJECTION ---
+  private store = inject(DataStoreService);
+  private notificationService = inject(NotificationService);
+
+  // --- COMPONENT STATE ---
+
+  /**
+   * All companies from the store with their application counts, sorted by name.
+   * @private
+   */
+  private companiesWithCount = computed<CompanyWithCount[]>(() => {
+    const counts = new Map<number, number>();
+    for (const app of this.store.applications()) {
+      counts.set(app.company.id, (counts.get(app.company.id) ?? 0) + 1);
+    }
+    return this.store.companies().map((company) => ({
+      company,
+      applicationCount: counts.get(company.id) ?? 0,
+    }));
+  });
+
+  /**
+   * All companies with their application counts, sorted by name.
+   */
+  get companies(): CompanyWithCount[] {
+    return this.companiesWithCount();
+  }
+
+  /**
+   * A flag indicating whether data is currently being loaded.
+   * @default true
+   */
+  public isLoading = true;
+
+  /**
+   * A string to hold an error message if loading fails.
+   * @default null
+   */
+  public errorMessage: string | null = null;
+
+  /**
+   * Component initialization lifecycle hook.
+   * Triggers the initial loading of the company directory.
+   */
+  ngOnInit(): void {
+    this.loadCompanies();
+  }
+
+  /**
+   * Loads all companies and applications into the store in parallel.
+   * The application counts are derived from the store (see {@link companies}).
+   */
+  loadCompanies(): void {
+    this.isLoading = true;
+    this.errorMessage = null;
+
+    forkJoin({
+      companies: this.store.loadCompanies(),
+      applications: this.store.loadApplications(),
+    }).subscribe({
+      next: () => {
+        this.isLoading = false;
+      },
+      error: (err) => {
+        this.notificationService.showError(
+          'Companies could not be loaded from the server.',
+          'Loading Error'
+        );
+        this.errorMessage = 'Error loading companies.';
+        this.isLoading = false;
+        console.error('Error loading companies:', err);
+      },
+    });
+  }
+}
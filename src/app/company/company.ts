@@ -1,4 +1,4 @@
-import { Component, inject } from '@angular/core';
+import { Component, HostListener, OnDestroy, OnInit, inject } from '@angular/core';
 import {
   FormBuilder,
   FormGroup,
@@ -7,13 +7,26 @@ import {
 } from '@angular/forms';
 import { Router } from '@angular/router';
 import { CommonModule } from '@angular/common';
-import { switchMap } from 'rxjs';
-import { Api } from '../services/api';
+import { Observable, Subject, Subscription, debounceTime, switchMap, take } from 'rxjs';
+import { DataStoreService } from '../services/data-store';
 import {
   CreateCompanyPayload,
   CreateContactPayload,
 } from '../models/api-interfaces';
 import { NotificationService } from '../services/notification';
+import { ApiErrorService } from '../services/api-error';
+import { OfflineQueueService, isTemporaryId } from '../services/offline-queue';
+import { ServerError } from '../shared/server-error/server-error';
+import { ConfirmDialog } from '../shared/confirm-dialog/confirm-dialog';
+import { DraftBanner } from '../shared/draft-banner/draft-banner';
+import { CanComponentDeactivate } from '../shared/unsaved-changes/unsaved-changes-guard';
+import { FormDraft, FormDraftService } from '../services/form-draft';
+
+/** Identifies the draft of this form. */
+const DRAFT_KEY = 'companies/new';
+
+/** Time without input after which the form is autosaved as a draft, in milliseconds. */
+const DRAFT_AUTOSAVE_DELAY_MS = 500;
 
 /**
  * Component for creating new companies with optional contact persons.
@@ -35,16 +48,28 @@ import { NotificationService } from '../services/notification';
 @Component({
   selector: 'app-company-form',
   standalone: true,
-  imports: [CommonModule, ReactiveFormsModule],
+  imports: [CommonModule, ReactiveFormsModule, ServerError, ConfirmDialog, DraftBanner],
   templateUrl: './company.html',
   styleUrls: ['./company.scss'],
 })
-export class CompanyFormComponent {
+export class CompanyFormComponent implements OnInit, OnDestroy, CanComponentDeactivate {
   // Dependency injection using Angular's inject function
   private fb = inject(FormBuilder);
-  private api = inject(Api);
+  private store = inject(DataStoreService);
   private router = inject(Router);
   private notificationService = inject(NotificationService);
+  private apiErrorService = inject(ApiErrorService);
+  private offlineQueue = inject(OfflineQueueService);
+  private formDraft = inject(FormDraftService);
+
+  /** The autosaved draft offered for restore, or `null` if there is none. */
+  draft: FormDraft<any> | null = null;
+
+  /** Receives the user's decision while the leave confirmation is shown, otherwise `null`. */
+  leaveConfirmation: Subject<boolean> | null = null;
+
+  /** Subscription autosaving the form; ended when the component is destroyed. */
+  private draftSubscription: Subscription | undefined;
 
   /**
    * Reactive form for company and contact data.
@@ -74,6 +99,75 @@ export class CompanyFormComponent {
     }),
   });
 
+  /**
+   * Offers a previously autosaved draft and starts autosaving the form.
+   */
+  ngOnInit(): void {
+    this.draft = this.formDraft.load(DRAFT_KEY);
+    this.draftSubscription = this.form.valueChanges
+      .pipe(debounceTime(DRAFT_AUTOSAVE_DELAY_MS))
+      .subscribe(() => this.saveDraft());
+  }
+
+  /**
+   * Stops autosaving the draft.
+   */
+  ngOnDestroy(): void {
+    this.draftSubscription?.unsubscribe();
+  }
+
+  /**
+   * Fills the form with the autosaved draft.
+   */
+  onRestoreDraft(): void {
+    if (!this.draft) return;
+    this.form.patchValue(this.draft.value);
+    this.form.markAsDirty();
+    this.draft = null;
+  }
+
+  /**
+   * Deletes the autosaved draft.
+   */
+  onDiscardDraft(): void {
+    this.formDraft.remove(DRAFT_KEY);
+    this.draft = null;
+  }
+
+  /**
+   * Asks for confirmation before the user leaves the form with unsaved changes.
+   * Called by the `unsavedChangesGuard`.
+   * @returns `true` if there are no unsaved changes, otherwise an Observable emitting the user's decision.
+   */
+  canDeactivate(): boolean | Observable<boolean> {
+    if (!this.form.dirty) return true;
+
+    this.leaveConfirmation = new Subject<boolean>();
+    return this.leaveConfirmation.pipe(take(1));
+  }
+
+  /**
+   * Passes the user's decision from the leave confirmation on to the router.
+   * The draft is kept, so the input can be restored later.
+   * @param leave - `true` to leave the form, `false` to stay.
+   */
+  onLeaveDecision(leave: boolean): void {
+    const confirmation = this.leaveConfirmation;
+    this.leaveConfirmation = null;
+    confirmation?.next(leave);
+  }
+
+  /**
+   * Warns before the tab is closed or reloaded with unsaved input and saves it as a draft.
+   * @param event - The browser's unload event.
+   */
+  @HostListener('window:beforeunload', ['$event'])
+  onBeforeUnload(event: BeforeUnloadEvent): void {
+    if (!this.form.dirty) return;
+    this.saveDraft();
+    event.preventDefault();
+  }
+
   /**
    * Handles form submission for creating company and optional contact.
    *
@@ -91,7 +185,7 @@ export class CompanyFormComponent {
    *    - Company with contact: createCompany followed by createContact using switchMap
    * 5. Handles success/error cases with notifications and navigation
    *
-   * @throws Will display error notification if API calls fail
+   * @throws Will show server validation errors on the form and display an error notification if API calls fail
    *
    * @example
    * ```typescript
@@ -119,6 +213,15 @@ export class CompanyFormComponent {
     // The backend requires these fields for contact creation
     const shouldCreateContact = contactData.first_name && contactData.last_name;
 
+    // Contacts cannot be queued, so they need a connection
+    if (shouldCreateContact && !this.offlineQueue.online()) {
+      this.notificationService.showWarning(
+        'Contacts can only be created online. Remove the contact or try again once you are back online.',
+        'Offline'
+      );
+      return;
+    }
+
     if (shouldCreateContact) {
       /**
        * SCENARIO 1: Create company AND contact
@@ -128,7 +231,7 @@ export class CompanyFormComponent {
        * 2. Use switchMap to wait for response and use the new company ID
        *    to create the contact
        */
-      this.api
+      this.store
         .createCompany(companyPayload)
         .pipe(
           switchMap((newCompany) => {
@@ -137,7 +240,7 @@ export class CompanyFormComponent {
               ...contactData,
               company_id: newCompany.id,
             };
-            return this.api.createContact(contactPayload);
+            return this.store.createContact(contactPayload);
           })
         )
         .subscribe({
@@ -146,15 +249,10 @@ export class CompanyFormComponent {
               `Contact for ${newContact.first_name} ${newContact.last_name} has been successfully created.`,
               'Everything saved!'
             );
+            this.discardUnsavedChanges();
             this.router.navigate(['/applications']);
           },
-          error: (err) => {
-            this.notificationService.showError(
-              'An error has occurred. Please check your entries and your connection.',
-              'Saving failed'
-            );
-            console.error('Error creating company/contact:', err);
-          },
+          error: (err) => this.onSaveError(err),
         });
     } else {
       /**
@@ -162,22 +260,57 @@ export class CompanyFormComponent {
        *
        * Simple single API call when no contact person is provided
        */
-      this.api.createCompany(companyPayload).subscribe({
+      this.store.createCompany(companyPayload).subscribe({
         next: (newCompany) => {
-          this.notificationService.showSuccess(
-            `Company “${newCompany.name}” has been successfully created.`,
-            'Company saved!'
-          );
+          // Companies created offline are reported by the offline queue
+          if (!isTemporaryId(newCompany.id)) {
+            this.notificationService.showSuccess(
+              `Company “${newCompany.name}” has been successfully created.`,
+              'Company saved!'
+            );
+          }
+          this.discardUnsavedChanges();
           this.router.navigate(['/applications']);
         },
-        error: (err) => {
-          this.notificationService.showError(
-            'The company could not be created.',
-            'Saving failed'
-          );
-          console.error('Error creating company:', err);
-        },
+        error: (err) => this.onSaveError(err),
       });
     }
   }
+
+  /**
+   * Saves the current input as a draft if the user has changed the form.
+   * An older draft that was not restored is replaced.
+   * @private
+   */
+  private saveDraft(): void {
+    if (!this.form.dirty) return;
+    this.draft = null;
+    this.formDraft.save(DRAFT_KEY, this.form.getRawValue());
+  }
+
+  /**
+   * Marks the form as saved and deletes its draft, so that leaving it needs no confirmation.
+   * @private
+   */
+  private discardUnsavedChanges(): void {
+    this.form.markAsPristine();
+    this.formDraft.remove(DRAFT_KEY);
+  }
+
+  /**
+   * Handles a failed API call during submission.
+   *
+   * Company and contact fields have distinct names, so validation errors of either
+   * request can be shown on the matching fields of both form groups.
+   *
+   * @param error - The error emitted by the API call.
+   * @private
+   */
+  private onSaveError(error: unknown): void {
+    this.apiErrorService.handle(error, {
+      title: 'Saving failed',
+      form: this.form,
+      fieldPaths: ['company', 'contact'],
+    });
+  }
 }
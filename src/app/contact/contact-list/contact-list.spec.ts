@@ -0,0 +1,23 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+
+import { ContactList } from './contact-list';
+
+describe('ContactList', () => {
+  let component: ContactList;
+  let fixture: ComponentFixture<ContactList>;
+
+  beforeEach(async () => {
+    await TestBed.configureTestingModule({
+      imports: [ContactList]
+    })
+    .compileComponents();
+
+    fixture = TestBed.createComponent(ContactList);
+    component = fixture.componentInstance;
+    fixture.detectChanges();
+  });
+
+  it('should create', () => {
+    expect(component).toBeTruthy();
+  });
+});
@@ -0,0 +1,387 @@
+import { Component, OnInit, inject } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { RouterLink } from '@angular/router';
+import {
+  FormBuilder,
+  FormControl,
+  ReactiveFormsModule,
+  Validators,
+} from '@angular/forms';
+import { Observable, forkJoin } from 'rxjs';
+import { DataStoreService } from '../../services/data-store';
+import { NotificationService } from '../../services/notification';
+import { ApiErrorService } from '../../services/api-error';
+import { ConfirmDialog } from '../../shared/confirm-dialog/confirm-dialog';
+import { ServerError } from '../../shared/server-error/server-error';
+import {
+  Application,
+  Company,
+  Contact,
+  CreateContactPayload,
+} from '../../models/api-interfaces';
+
+/**
+ * Component for managing contact persons across all companies.
+ *
+ * Lists all contacts with their company and linked applications, and allows
+ * searching, creating, editing and deleting contacts. A contact can also be
+ * re-linked to a different application of its company.
+ *
+ * @example
+ * ```html
+ * <app-contact-list></app-contact-list>
+ * ```
+ */
+@Component({
+  selector: 'app-contact-list',
+  standalone: true,
+  imports: [CommonModule, ReactiveFormsModule, RouterLink, ConfirmDialog, ServerError],
+  templateUrl: './contact-list.html',
+  styleUrl: './contact-list.scss',
+})
+export class ContactList implements OnInit {
+  // --- DEPENDENCY INJECTION ---
+  private fb = inject(FormBuilder);
+  private store = inject(DataStoreService);
+  private notificationService = inject(NotificationService);
+  private apiErrorService = inject(ApiErrorService);
+
+  // --- COMPONENT STATE ---
+
+  /**
+   * All contacts of the user, from the store.
+   */
+  get contacts(): Contact[] {
+    return this.store.contacts();
+  }
+
+  /**
+   * All companies sorted by name, used to display company names and for the company dropdown.
+   */
+  get companies(): Company[] {
+    return this.store.companies();
+  }
+
+  /**
+   * All applications, used to show and change which application a contact is linked to.
+   */
+  get applications(): Application[] {
+    return this.store.applications();
+  }
+
+  /**
+   * A flag indicating whether data is currently being loaded.
+   * @default true
+   */
+  public isLoading = true;
+
+  /**
+   * A string to hold an error message if loading fails.
+   * @default null
+   */
+  public errorMessage: string | null = null;
+
+  /**
+   * Whether the create/edit form is currently shown.
+   * @default false
+   */
+  public isFormOpen = false;
+
+  /**
+   * The ID of the contact being edited, or `null` when creating a new contact.
+   * @default null
+   */
+  public editingContactId: number | null = null;
+
+  /**
+   * The contact the user wants to delete. While set, the confirmation dialog is displayed.
+   * @default null
+   */
+  public contactToDelete: Contact | null = null;
+
+  /**
+   * Search field for filtering the contact list by name, email, position or company.
+   */
+  public searchControl = new FormControl('', { nonNullable: true });
+
+  /**
+   * Dropdown for filtering the contact list by company.
+   */
+  public companyFilterControl = new FormControl<number | null>(null);
+
+  /**
+   * Reactive form for creating and editing a contact.
+   * The company can only be chosen when creating a contact.
+   */
+  public contactForm = this.fb.group({
+    first_name: ['', Validators.required],
+    last_name: ['', Validators.required],
+    email: ['', Validators.email],
+    phone: [''],
+    position: [''],
+    company_id: [null as number | null, Validators.required],
+  });
+
+  /**
+   * Component initialization lifecycle hook.
+   * Triggers the initial loading of contacts, companies and applications.
+   */
+  ngOnInit(): void {
+    this.loadData();
+  }
+
+  /**
+   * Loads contacts, companies and applications into the store in parallel.
+   * @param force - If `true`, the data is fetched from the server even if it is cached.
+   */
+  loadData(force = false): void {
+    this.isLoading = true;
+    this.errorMessage = null;
+
+    forkJoin({
+      contacts: this.store.loadContacts(force),
+      companies: this.store.loadCompanies(force),
+      applications: this.store.loadApplications(force),
+    }).subscribe({
+      next: () => {
+        this.isLoading = false;
+      },
+      error: (err) => {
+        this.notificationService.showError(
+          'Contacts could not be loaded from the server.',
+          'Loading Error'
+        );
+        this.errorMessage = 'Error loading contacts.';
+        this.isLoading = false;
+        console.error('Error loading contacts:', err);
+      },
+    });
+  }
+
+  // =================================================================================
+  // DISPLAY HELPERS
+  // =================================================================================
+
+  /**
+   * The contacts matching the current search text and company filter, sorted by last name.
+   */
+  get filteredContacts(): Contact[] {
+    const search = this.searchControl.value.trim().toLowerCase();
+    const companyId = this.companyFilterControl.value;
+
+    return this.contacts
+      .filter((contact) => companyId === null || contact.company === companyId)
+      .filter((contact) => {
+        if (!search) return true;
+        return [
+          contact.first_name,
+          contact.last_name,
+          contact.email,
+          contact.position,
+          this.companyName(contact.company),
+        ]
+          .join(' ')
+          .toLowerCase()
+          .includes(search);
+      })
+      .sort((a, b) => a.last_name.localeCompare(b.last_name, 'de'));
+  }
+
+  /**
+   * Returns the name of a company by its ID.
+   * @param companyId - The ID of the company.
+   */
+  companyName(companyId: number): string {
+    return this.companies.find((company) => company.id === companyId)?.name ?? '';
+  }
+
+  /**
+   * Returns the applications of the given company, i.e. the applications a contact can be linked to.
+   * @param companyId - The ID of the contact's company.
+   */
+  applicationsForCompany(companyId: number): Application[] {
+    return this.applications.filter((app) => app.company.id === companyId);
+  }
+
+  /**
+   * Returns the application a contact is currently linked to, if any.
+   * @param contactId - The ID of the contact.
+   */
+  linkedApplication(contactId: number): Application | undefined {
+    return this.applications.find((app) => app.contact?.id === contactId);
+  }
+
+  // =================================================================================
+  // CREATE, EDIT & DELETE
+  // =================================================================================
+
+  /**
+   * Opens an empty form for creating a new contact.
+   */
+  openCreateForm(): void {
+    this.editingContactId = null;
+    this.contactForm.reset({ company_id: this.companyFilterControl.value });
+    this.contactForm.get('company_id')?.enable();
+    this.isFormOpen = true;
+  }
+
+  /**
+   * Opens the form pre-filled with an existing contact's data.
+   * @param contact - The contact to edit.
+   */
+  openEditForm(contact: Contact): void {
+    this.editingContactId = contact.id;
+    this.contactForm.reset({ ...contact, company_id: contact.company });
+    this.contactForm.get('company_id')?.disable();
+    this.isFormOpen = true;
+  }
+
+  /**
+   * Closes the create/edit form without saving.
+   */
+  closeForm(): void {
+    this.isFormOpen = false;
+    this.editingContactId = null;
+  }
+
+  /**
+   * Validates the form and creates or updates the contact.
+   */
+  saveContact(): void {
+    if (this.contactForm.invalid) {
+      this.contactForm.markAllAsTouched();
+      this.notificationService.showWarning(
+        'Please fill in all required fields correctly.',
+        'Invalid input'
+      );
+      return;
+    }
+
+    const value = this.contactForm.getRawValue();
+    const personalData = {
+      first_name: value.first_name!,
+      last_name: value.last_name!,
+      email: value.email ?? '',
+      phone: value.phone ?? '',
+      position: value.position ?? '',
+    };
+
+    if (this.editingContactId === null) {
+      const payload: CreateContactPayload = { ...personalData, company_id: value.company_id! };
+      this.store.createContact(payload).subscribe({
+        next: (contact) => this.onSaveSuccess(contact),
+        error: (err) => this.onSaveError(err),
+      });
+    } else {
+      this.store.updateContact(this.editingContactId, personalData).subscribe({
+        next: (contact) => this.onSaveSuccess(contact),
+        error: (err) => this.onSaveError(err),
+      });
+    }
+  }
+
+  /**
+   * Deletes the contact selected in the confirmation dialog.
+   * Applications linked to the contact lose their contact person.
+   */
+  confirmDeleteContact(): void {
+    const contact = this.contactToDelete;
+    this.contactToDelete = null;
+    if (!contact) return;
+
+    this.store.deleteContact(contact.id).subscribe({
+      next: () => {
+        if (this.editingContactId === contact.id) {
+          this.closeForm();
+        }
+        this.notificationService.showSuccess(
+          `Contact ${contact.first_name} ${contact.last_name} has been deleted.`
+        );
+      },
+      error: (err) => {
+        this.notificationService.showError('The contact could not be deleted.', 'Deleting failed');
+        console.error('Error deleting contact:', err);
+      },
+    });
+  }
+
+  // =================================================================================
+  // APPLICATION LINKING
+  // =================================================================================
+
+  /**
+   * Links a contact to a different application of its company.
+   *
+   * The contact is removed from the application it was previously linked to (if any)
+   * and set as the contact person of the selected application.
+   *
+   * @param contact - The contact to re-link.
+   * @param applicationId - The ID of the new application, or `null` to only unlink the contact.
+   */
+  relinkContact(contact: Contact, applicationId: number | null): void {
+    const previous = this.linkedApplication(contact.id);
+    if (previous?.id === applicationId) return;
+
+    const requests: Observable<Application>[] = [];
+    if (previous) {
+      requests.push(this.store.patchApplication(previous.id, { contact_id: null }));
+    }
+    if (applicationId !== null) {
+      requests.push(
+        this.store.patchApplication(applicationId, { contact_id: contact.id })
+      );
+    }
+
+    forkJoin(requests).subscribe({
+      next: () => {
+        this.notificationService.showSuccess(
+          `The link of ${contact.first_name} ${contact.last_name} has been updated.`
+        );
+      },
+      error: (err) => {
+        this.notificationService.showError(
+          'The contact could not be linked to the application.',
+          'Saving failed'
+        );
+        console.error('Error re-linking contact:', err);
+        this.loadData(true);
+      },
+    });
+  }
+
+  /**
+   * Handles a change of the application dropdown in the contact list.
+   * @param contact - The contact whose dropdown changed.
+   * @param event - The native change event of the select element.
+   */
+  onApplicationSelect(contact: Contact, event: Event): void {
+    const value = (event.target as HTMLSelectElement).value;
+    this.relinkContact(contact, value ? Number(value) : null);
+  }
+
+  // =================================================================================
+  // NOTIFICATION HANDLERS
+  // =================================================================================
+
+  /**
+   * Closes the form and shows a success notification after saving a contact.
+   * @param contact - The saved contact.
+   * @private
+   */
+  private onSaveSuccess(contact: Contact): void {
+    this.notificationService.showSuccess(
+      `Contact ${contact.first_name} ${contact.last_name} has been saved.`,
+      'Contact saved!'
+    );
+    this.closeForm();
+  }
+
+  /**
+   * Shows the server's validation errors on the form and a notification when saving a contact fails.
+   * @param error - The error object.
+   * @private
+   */
+  private onSaveError(error: any): void {
+    this.apiErrorService.handle(error, { title: 'Saving failed', form: this.contactForm });
+  }
+}
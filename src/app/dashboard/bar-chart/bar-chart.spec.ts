@@ -0,0 +1,32 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+
+import { BarChart } from './bar-chart';
+
+describe('BarChart', () => {
+  let component: BarChart;
+  let fixture: ComponentFixture<BarChart>;
+
+  beforeEach(async () => {
+    await TestBed.configureTestingModule({
+      imports: [BarChart]
+    })
+    .compileComponents();
+
+    fixture = TestBed.createComponent(BarChart);
+    component = fixture.componentInstance;
+    fixture.componentRef.setInput('bars', [
+      { label: 'IT', value: 4 },
+      { label: 'Finanzen', value: 2 },
+    ]);
+    fixture.detectChanges();
+  });
+
+  it('should create', () => {
+    expect(component).toBeTruthy();
+  });
+
+  it('should scale the bars to the largest value', () => {
+    const [first, second] = component.placedBars();
+    expect(second.height).toBe(first.height / 2);
+  });
+});
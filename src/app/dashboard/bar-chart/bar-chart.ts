@@ -0,0 +1,104 @@
+import { Component, computed, input } from '@angular/core';
+import { ChartBar } from '../dashboard-metrics';
+
+/**
+ * A bar with its position in the SVG coordinate system.
+ */
+interface PlacedBar extends ChartBar {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/** Width of the SVG coordinate system; the chart is scaled to the available width. */
+const CHART_WIDTH = 600;
+
+/** Height of the plot area of vertical charts. */
+const PLOT_HEIGHT = 180;
+
+/** Space above vertical bars for the values and below for the labels. */
+const VALUE_SPACE = 18;
+const LABEL_SPACE = 22;
+
+/** Height of one row of horizontal charts and the width reserved for its label. */
+const ROW_HEIGHT = 28;
+const LABEL_WIDTH = 160;
+
+/**
+ * A simple bar chart rendered as plain SVG.
+ *
+ * Vertical charts show one column per bar with the label below, e.g. for time series.
+ * Horizontal charts show one row per bar with the label on the left, e.g. for categories
+ * with long names.
+ *
+ * @example
+ * ```html
+ * <app-bar-chart [bars]="perWeek()" orientation="vertical" ariaLabel="Bewerbungen pro Woche"></app-bar-chart>
+ * ```
+ */
+@Component({
+  selector: 'app-bar-chart',
+  standalone: true,
+  templateUrl: './bar-chart.html',
+  styleUrl: './bar-chart.scss',
+})
+export class BarChart {
+  /** The bars to show, in display order. */
+  bars = input.required<ChartBar[]>();
+
+  /** Whether the bars are drawn as columns or as rows. */
+  orientation = input<'vertical' | 'horizontal'>('vertical');
+
+  /** Accessible description of the chart. */
+  ariaLabel = input('');
+
+  /** The width of the SVG coordinate system. */
+  readonly width = CHART_WIDTH;
+
+  /**
+   * The height of the SVG coordinate system, which depends on the number of rows in horizontal charts.
+   */
+  height = computed(() =>
+    this.orientation() === 'vertical'
+      ? VALUE_SPACE + PLOT_HEIGHT + LABEL_SPACE
+      : Math.max(this.bars().length, 1) * ROW_HEIGHT
+  );
+
+  /**
+   * The bars with their positions, scaled to the largest value.
+   */
+  placedBars = computed<PlacedBar[]>(() => {
+    const bars = this.bars();
+    const max = Math.max(1, ...bars.map((bar) => bar.value));
+
+    if (this.orientation() === 'horizontal') {
+      const plotWidth = CHART_WIDTH - LABEL_WIDTH - 40;
+      return bars.map((bar, index) => ({
+        ...bar,
+        x: LABEL_WIDTH,
+        y: index * ROW_HEIGHT + 4,
+        width: (bar.value / max) * plotWidth,
+        height: ROW_HEIGHT - 8,
+      }));
+    }
+
+    const slot = CHART_WIDTH / Math.max(bars.length, 1);
+    return bars.map((bar, index) => {
+      const height = (bar.value / max) * PLOT_HEIGHT;
+      return {
+        ...bar,
+        x: index * slot + slot * 0.15,
+        y: VALUE_SPACE + PLOT_HEIGHT - height,
+        width: slot * 0.7,
+        height,
+      };
+    });
+  });
+
+  /** The y coordinate of the baseline of vertical charts. */
+  readonly baseline = VALUE_SPACE + PLOT_HEIGHT;
+
+  /** The width reserved for the labels of horizontal charts. */
+  readonly labelWidth = LABEL_WIDTH;
+}
@@ -0,0 +1,88 @@
+import {
+  applicationsPerWeek,
+  buildFunnel,
+  countByStatus,
+  industryBreakdown,
+  medianDaysSinceApplied,
+  salaryDistribution,
+} from './dashboard-metrics';
+import { buildApplication } from '../testing/application-fixtures';
+
+describe('dashboard-metrics', () => {
+  it('should count the applications per status including empty ones', () => {
+    const counts = countByStatus([
+      buildApplication({ status: 'APPLIED' }),
+      buildApplication({ status: 'APPLIED' }),
+      buildApplication({ status: 'OFFER' }),
+    ]);
+    expect(counts.length).toBe(6);
+    expect(counts.find((bar) => bar.label === 'Beworben')?.value).toBe(2);
+    expect(counts.find((bar) => bar.label === 'Entwurf')?.value).toBe(0);
+  });
+
+  it('should count rejected applications for the stages they passed', () => {
+    const funnel = buildFunnel([
+      buildApplication({ status: 'APPLIED', applied_on: '2024-03-01' }),
+      buildApplication({ status: 'REJECTED', applied_on: '2024-03-01', interview_on: '2024-03-10' }),
+      buildApplication({ status: 'OFFER', applied_on: '2024-03-01', offer_on: '2024-03-20' }),
+      buildApplication({ status: 'REJECTED', applied_on: '2024-03-01' }),
+      buildApplication({ status: 'DRAFT' }),
+    ]);
+    expect(funnel.map((stage) => stage.count)).toEqual([4, 2, 1]);
+    expect(funnel.map((stage) => stage.conversionRate)).toEqual([null, 0.5, 0.5]);
+  });
+
+  it('should calculate the median days and ignore inconsistent dates', () => {
+    const applications = [
+      buildApplication({ applied_on: '2024-03-01', interview_on: '2024-03-05' }),
+      buildApplication({ applied_on: '2024-03-01', interview_on: '2024-03-11' }),
+      buildApplication({ applied_on: '2024-03-10', interview_on: '2024-03-01' }),
+      buildApplication({ applied_on: '2024-03-01' }),
+    ];
+    expect(medianDaysSinceApplied(applications, 'interview_on')).toEqual({ days: 7, sampleSize: 2 });
+    expect(medianDaysSinceApplied(applications, 'rejected_on')).toEqual({ days: null, sampleSize: 0 });
+  });
+
+  it('should count the applications per week ending with the current week', () => {
+    const weeks = applicationsPerWeek(
+      [
+        buildApplication({ applied_on: '2024-03-04' }),
+        buildApplication({ applied_on: '2024-03-10' }),
+        buildApplication({ applied_on: '2024-03-13' }),
+        buildApplication({ applied_on: '2023-01-01' }),
+      ],
+      3,
+      '2024-03-14'
+    );
+    expect(weeks.map((bar) => bar.label)).toEqual(['26.02.', '04.03.', '11.03.']);
+    expect(weeks.map((bar) => bar.value)).toEqual([0, 2, 1]);
+  });
+
+  it('should sort the industries by frequency', () => {
+    const industries = industryBreakdown([
+      buildApplication({ company: { id: 2, name: 'Bank', website: null, industry: 'Finanzen' } }),
+      buildApplication({}),
+      buildApplication({}),
+      buildApplication({ company: { id: 3, name: 'Unknown', website: null, industry: '' } }),
+    ]);
+    expect(industries).toEqual([
+      { label: 'IT', value: 2 },
+      { label: 'Finanzen', value: 1 },
+      { label: 'Unbekannt', value: 1 },
+    ]);
+  });
+
+  it('should group the salaries into ranges including empty ones', () => {
+    const salaries = salaryDistribution(
+      [
+        buildApplication({ salary_expectation: 45000 }),
+        buildApplication({ salary_expectation: 48000 }),
+        buildApplication({ salary_expectation: 72000 }),
+        buildApplication({ salary_expectation: null }),
+      ],
+      10000
+    );
+    expect(salaries.map((bar) => bar.label)).toEqual(['40k', '50k', '60k', '70k']);
+    expect(salaries.map((bar) => bar.value)).toEqual([2, 0, 0, 1]);
+  });
+});
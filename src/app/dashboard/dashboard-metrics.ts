@@ -0,0 +1,194 @@
+import { Application, ApplicationStatus, STATUS_DISPLAY } from '../models/api-interfaces';
+
+/**
+ * A labelled value shown as one bar of a chart.
+ */
+export interface ChartBar {
+  label: string;
+  value: number;
+  /** Optional tooltip; defaults to the label and the value. */
+  title?: string;
+}
+
+/**
+ * One stage of the application funnel.
+ */
+export interface FunnelStage {
+  status: ApplicationStatus;
+  label: string;
+  /** Number of applications that have reached this stage. */
+  count: number;
+  /**
+   * Share of the applications of the previous stage that reached this stage, from 0 to 1.
+   * `null` for the first stage and if the previous stage is empty.
+   */
+  conversionRate: number | null;
+}
+
+/**
+ * The median number of days between two dates of an application.
+ */
+export interface MedianDuration {
+  /** The median in days, or `null` if no application has both dates. */
+  days: number | null;
+  /** Number of applications the median is based on. */
+  sampleSize: number;
+}
+
+/** Milliseconds per day, for date differences. */
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Converts a date string (`YYYY-MM-DD`, optionally with time) to a UTC timestamp of that day.
+ * @param date - The date string.
+ * @private
+ */
+function toDay(date: string): number {
+  return Date.UTC(Number(date.slice(0, 4)), Number(date.slice(5, 7)) - 1, Number(date.slice(8, 10)));
+}
+
+/**
+ * Formats a UTC timestamp as `YYYY-MM-DD`.
+ * @param time - The timestamp.
+ * @private
+ */
+function formatDay(time: number): string {
+  return new Date(time).toISOString().slice(0, 10);
+}
+
+/**
+ * Returns the Monday of the week a day belongs to.
+ * @param time - The UTC timestamp of the day.
+ * @private
+ */
+function startOfWeek(time: number): number {
+  const weekday = (new Date(time).getUTCDay() + 6) % 7;
+  return time - weekday * DAY_MS;
+}
+
+/**
+ * Counts the applications per status.
+ * @param applications - The applications to count.
+ * @returns One bar per status, in the order of the board columns, including empty ones.
+ */
+export function countByStatus(applications: Application[]): ChartBar[] {
+  return (Object.keys(STATUS_DISPLAY) as ApplicationStatus[]).map((status) => ({
+    label: STATUS_DISPLAY[status],
+    value: applications.filter((app) => app.status === status).length,
+  }));
+}
+
+/**
+ * Builds the funnel from sent applications over interviews to offers.
+ *
+ * An application has reached a stage if it has the stage's date or a status at or beyond
+ * the stage, so rejected applications still count for the stages they passed.
+ *
+ * @param applications - The applications to evaluate.
+ * @returns The stages APPLIED, INTERVIEW and OFFER with counts and conversion rates.
+ */
+export function buildFunnel(applications: Application[]): FunnelStage[] {
+  const reached: [ApplicationStatus, (app: Application) => boolean][] = [
+    ['APPLIED', (app) => !!app.applied_on || ['APPLIED', 'INTERVIEW', 'OFFER'].includes(app.status)],
+    ['INTERVIEW', (app) => !!app.interview_on || ['INTERVIEW', 'OFFER'].includes(app.status)],
+    ['OFFER', (app) => !!app.offer_on || app.status === 'OFFER'],
+  ];
+
+  let previous: number | null = null;
+  return reached.map(([status, hasReached]) => {
+    const count = applications.filter(hasReached).length;
+    const conversionRate: number | null = previous ? count / previous : null;
+    previous = count;
+    return { status, label: STATUS_DISPLAY[status], count, conversionRate };
+  });
+}
+
+/**
+ * Calculates the median number of days from the application date to another date,
+ * e.g. how long companies take to invite to an interview.
+ * Applications where the second date lies before the application date are ignored.
+ *
+ * @param applications - The applications to evaluate.
+ * @param to - The date field to measure up to.
+ * @returns The median in days and the number of applications it is based on.
+ */
+export function medianDaysSinceApplied(
+  applications: Application[],
+  to: 'interview_on' | 'rejected_on' | 'offer_on'
+): MedianDuration {
+  const durations = applications
+    .filter((app) => app.applied_on && app[to])
+    .map((app) => (toDay(app[to]!) - toDay(app.applied_on!)) / DAY_MS)
+    .filter((days) => days >= 0)
+    .sort((a, b) => a - b);
+
+  if (durations.length === 0) return { days: null, sampleSize: 0 };
+  const middle = Math.floor(durations.length / 2);
+  const days =
+    durations.length % 2 === 0 ? (durations[middle - 1] + durations[middle]) / 2 : durations[middle];
+  return { days, sampleSize: durations.length };
+}
+
+/**
+ * Counts the sent applications per calendar week (Monday to Sunday) by their application date.
+ *
+ * @param applications - The applications to count.
+ * @param weeks - The number of weeks to show, ending with the current week.
+ * @param today - The current date as `YYYY-MM-DD`.
+ * @returns One bar per week, oldest first, labelled with the Monday as `DD.MM.`.
+ */
+export function applicationsPerWeek(applications: Application[], weeks: number, today: string): ChartBar[] {
+  const currentWeek = startOfWeek(toDay(today));
+  const counts = new Map<number, number>();
+  for (const app of applications) {
+    if (!app.applied_on) continue;
+    const week = startOfWeek(toDay(app.applied_on));
+    counts.set(week, (counts.get(week) ?? 0) + 1);
+  }
+
+  return Array.from({ length: weeks }, (_, index) => {
+    const week = currentWeek - (weeks - 1 - index) * 7 * DAY_MS;
+    const [, month, day] = formatDay(week).split('-');
+    const value = counts.get(week) ?? 0;
+    return { label: `${day}.${month}.`, value, title: `Woche ab ${day}.${month}.: ${value}` };
+  });
+}
+
+/**
+ * Counts the applications per industry of the company.
+ * @param applications - The applications to count.
+ * @returns One bar per industry, the most frequent first; a missing industry is shown as "Unbekannt".
+ */
+export function industryBreakdown(applications: Application[]): ChartBar[] {
+  const counts = new Map<string, number>();
+  for (const app of applications) {
+    const industry = app.company.industry.trim() || 'Unbekannt';
+    counts.set(industry, (counts.get(industry) ?? 0) + 1);
+  }
+  return [...counts.entries()]
+    .map(([label, value]) => ({ label, value }))
+    .sort((a, b) => b.value - a.value || a.label.localeCompare(b.label));
+}
+
+/**
+ * Groups the salary expectations into ranges of equal size.
+ *
+ * @param applications - The applications to evaluate; applications without a salary expectation are ignored.
+ * @param rangeSize - The size of each range, e.g. 10000 for ranges of 10k.
+ * @returns One bar per range from the lowest to the highest salary, including empty ranges in between.
+ */
+export function salaryDistribution(applications: Application[], rangeSize: number): ChartBar[] {
+  const salaries = applications
+    .map((app) => app.salary_expectation)
+    .filter((salary): salary is number => salary !== null);
+  if (salaries.length === 0) return [];
+
+  const first = Math.floor(Math.min(...salaries) / rangeSize);
+  const last = Math.floor(Math.max(...salaries) / rangeSize);
+  return Array.from({ length: last - first + 1 }, (_, index) => {
+    const min = (first + index) * rangeSize;
+    const value = salaries.filter((salary) => Math.floor(salary / rangeSize) === first + index).length;
+    const label = `${min / 1000}k`;
+    return { label, value, title: `${min / 1000}k–${(min + rangeSize) / 1000}k: ${value}` };
+  });
+}
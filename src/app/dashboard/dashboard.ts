@@ -0,0 +1,154 @@
+import { Component, OnInit, computed, inject, signal } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { DataStoreService } from '../services/data-store';
+import { NotificationService } from '../services/notification';
+import { toLocalDateString } from '../shared/dates';
+import { BarChart } from './bar-chart/bar-chart';
+import {
+  applicationsPerWeek,
+  buildFunnel,
+  countByStatus,
+  industryBreakdown,
+  medianDaysSinceApplied,
+  salaryDistribution,
+} from './dashboard-metrics';
+
+/** Number of weeks shown in the applications-per-week chart. */
+const WEEKS_SHOWN = 12;
+
+/** Size of the salary ranges in the salary distribution chart. */
+const SALARY_RANGE_SIZE = 10000;
+
+/** Width of the SVG coordinate system of the funnel and the height of one stage. */
+const FUNNEL_WIDTH = 600;
+const FUNNEL_STAGE_HEIGHT = 56;
+
+/**
+ * Component for the analytics dashboard.
+ *
+ * Shows how the job search is going: the number of applications per status, the funnel
+ * from sent applications over interviews to offers with conversion rates, how long
+ * companies take to respond, the applications per week, the industries applied to and
+ * the distribution of the salary expectations. All figures are computed in the browser
+ * from the applications in the {@link DataStoreService}; the charts are plain SVG.
+ *
+ * @example
+ * ```html
+ * <app-dashboard></app-dashboard>
+ * ```
+ */
+@Component({
+  selector: 'app-dashboard',
+  standalone: true,
+  imports: [CommonModule, BarChart],
+  templateUrl: './dashboard.html',
+  styleUrl: './dashboard.scss',
+})
+export class Dashboard implements OnInit {
+  // --- DEPENDENCY INJECTION ---
+  private store = inject(DataStoreService);
+  private notificationService = inject(NotificationService);
+
+  // --- COMPONENT STATE ---
+
+  /**
+   * A flag indicating whether data is currently being loaded.
+   * @default true
+   */
+  public isLoading = true;
+
+  /**
+   * A string to hold an error message if loading fails.
+   * @default null
+   */
+  public errorMessage: string | null = null;
+
+  /**
+   * Whether archived applications are included in the figures.
+   * They are by default, as they still belong to the history of the job search.
+   * @default true
+   */
+  includeArchived = signal(true);
+
+  /**
+   * The applications the figures are based on.
+   */
+  applications = computed(() =>
+    this.includeArchived() ? this.store.applications() : this.store.activeApplications()
+  );
+
+  /** The number of applications per status. */
+  statusCounts = computed(() => countByStatus(this.applications()));
+
+  /** The funnel stages with their counts and conversion rates. */
+  funnel = computed(() => buildFunnel(this.applications()));
+
+  /** The median days from the application to the interview invitation. */
+  daysToInterview = computed(() => medianDaysSinceApplied(this.applications(), 'interview_on'));
+
+  /** The median days from the application to the rejection. */
+  daysToRejection = computed(() => medianDaysSinceApplied(this.applications(), 'rejected_on'));
+
+  /** The sent applications per week over the last weeks. */
+  perWeek = computed(() => applicationsPerWeek(this.applications(), WEEKS_SHOWN, toLocalDateString()));
+
+  /** The number of applications per industry. */
+  industries = computed(() => industryBreakdown(this.applications()));
+
+  /** The salary expectations grouped into ranges. */
+  salaries = computed(() => salaryDistribution(this.applications(), SALARY_RANGE_SIZE));
+
+  /**
+   * The funnel stages as centred bars, whose width is relative to the first stage.
+   */
+  funnelBars = computed(() => {
+    const stages = this.funnel();
+    const max = Math.max(1, stages[0]?.count ?? 0);
+    return stages.map((stage, index) => {
+      const width = Math.max((stage.count / max) * FUNNEL_WIDTH, 2);
+      return {
+        ...stage,
+        x: (FUNNEL_WIDTH - width) / 2,
+        y: index * FUNNEL_STAGE_HEIGHT,
+        width,
+      };
+    });
+  });
+
+  /** The width of the funnel's SVG coordinate system. */
+  readonly funnelWidth = FUNNEL_WIDTH;
+
+  /** The height of one funnel stage, including the gap to the next one. */
+  readonly funnelStageHeight = FUNNEL_STAGE_HEIGHT;
+
+  /**
+   * Component initialization lifecycle hook.
+   * Loads the applications the dashboard is computed from.
+   */
+  ngOnInit(): void {
+    this.loadApplications();
+  }
+
+  /**
+   * Loads all applications into the store. The figures are derived from the store.
+   */
+  loadApplications(): void {
+    this.isLoading = true;
+    this.errorMessage = null;
+
+    this.store.loadApplications().subscribe({
+      next: () => {
+        this.isLoading = false;
+      },
+      error: (err) => {
+        this.notificationService.showError(
+          'Applications could not be loaded from the server.',
+          'Loading Error'
+        );
+        this.errorMessage = 'Error loading the dashboard.';
+        this.isLoading = false;
+        console.error('Error loading applications for the dashboard:', err);
+      },
+    });
+  }
+}
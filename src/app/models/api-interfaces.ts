@@ -4,6 +4,82 @@
  */
 export type ApplicationStatus = 'DRAFT' | 'APPLIED' | 'INTERVIEW' | 'OFFER' | 'REJECTED' | 'WITHDRAWN';
 
+/**
+ * The date fields of an application that belong to a specific status.
+ */
+export type StatusDateField = 'applied_on' | 'interview_on' | 'offer_on' | 'rejected_on';
+
+/**
+ * Maps each status to the date field that is required when an application has that status.
+ * Statuses without an entry (e.g. `DRAFT`, `WITHDRAWN`) do not require a date.
+ */
+export const STATUS_DATE_FIELDS: Partial<Record<ApplicationStatus, StatusDateField>> = {
+  APPLIED: 'applied_on',
+  INTERVIEW: 'interview_on',
+  OFFER: 'offer_on',
+  REJECTED: 'rejected_on',
+};
+
+/**
+ * Display names of the statuses, in the order of the board columns.
+ * The backend sends the same names as `status_display`.
+ */
+export const STATUS_DISPLAY: Record<ApplicationStatus, string> = {
+  DRAFT: 'Entwurf',
+  APPLIED: 'Beworben',
+  INTERVIEW: 'Interview',
+  OFFER: 'Angebot erhalten',
+  REJECTED: 'Abgelehnt',
+  WITHDRAWN: 'Zurückgezogen',
+};
+
+/**
+ * The kinds of interviews of a hiring process.
+ */
+export type InterviewType = 'PHONE_SCREEN' | 'VIDEO' | 'TECHNICAL' | 'ONSITE' | 'HR' | 'OTHER';
+
+/**
+ * Display names of the interview types.
+ */
+export const INTERVIEW_TYPE_DISPLAY: Record<InterviewType, string> = {
+  PHONE_SCREEN: 'Telefoninterview',
+  VIDEO: 'Videointerview',
+  TECHNICAL: 'Fachliches Interview',
+  ONSITE: 'Vor-Ort-Termin',
+  HR: 'HR-Gespräch',
+  OTHER: 'Sonstiges',
+};
+
+/**
+ * The possible outcomes of an interview; `PENDING` until the result is known.
+ */
+export type InterviewOutcome = 'PENDING' | 'PASSED' | 'FAILED' | 'CANCELLED';
+
+/**
+ * Display names of the interview outcomes.
+ */
+export const INTERVIEW_OUTCOME_DISPLAY: Record<InterviewOutcome, string> = {
+  PENDING: 'Ausstehend',
+  PASSED: 'Weiter im Prozess',
+  FAILED: 'Nicht weiter',
+  CANCELLED: 'Abgesagt',
+};
+
+/**
+ * The kinds of documents that can be attached to an application.
+ */
+export type DocumentType = 'CV' | 'COVER_LETTER' | 'CERTIFICATE' | 'OTHER';
+
+/**
+ * Display names of the document types.
+ */
+export const DOCUMENT_TYPE_DISPLAY: Record<DocumentType, string> = {
+  CV: 'Lebenslauf',
+  COVER_LETTER: 'Anschreiben',
+  CERTIFICATE: 'Zeugnis',
+  OTHER: 'Sonstiges',
+};
+
 // --- Authentifizierung ---
 /**
  * Describes the structure of the response object received after a successful authentication (login/registration).
@@ -49,6 +125,56 @@ export interface Note {
   created_at: string;
 }
 
+/**
+ * Represents a single interview round of an application, e.g. a phone screen or an on-site.
+ */
+export interface Interview {
+  id: number;
+  application: number;
+  /** Date and time of the interview as an ISO formatted string. */
+  scheduled_at: string;
+  interview_type: InterviewType;
+  /** The address or the link to the video call; empty if not known yet. */
+  location: string;
+  /** The contact persons conducting the interview. */
+  interviewers: Contact[];
+  preparation_notes: string;
+  outcome: InterviewOutcome;
+}
+
+/**
+ * Represents an uploaded file in the document library, e.g. one version of the CV.
+ * A document can be attached to any number of applications.
+ */
+export interface DocumentFile {
+  id: number;
+  /** The original file name, used when downloading the file. */
+  name: string;
+  document_type: DocumentType;
+  /** The MIME type of the file. */
+  content_type: string;
+  /** The file size in bytes. */
+  size: number;
+  uploaded_at: string;
+}
+
+/**
+ * Represents a single status transition of an application.
+ * The application itself only keeps its latest status and one date per status; the status
+ * history keeps every step, e.g. several interview rounds before a rejection.
+ */
+export interface StatusChange {
+  id: number;
+  application: number;
+  /** The previous status, or `null` for the status the application was created with. */
+  from_status: ApplicationStatus | null;
+  to_status: ApplicationStatus;
+  /** The time of the transition as an ISO formatted string. */
+  changed_at: string;
+  /** An optional comment on the transition; empty if none was given. */
+  comment: string;
+}
+
 /**
  * The main interface for a job application.
  * It mirrors the `ApplicationSerializer` from the backend, including nested objects.
@@ -71,8 +197,20 @@ export interface Application {
   job_posting_link: string;
   salary_expectation: number | null;  
   created_at: string;  
+  /** Archived applications are hidden from the board and listed in the archive view. */
+  archived: boolean;
   /** An array of notes is included directly within the application object. */
   notes: Note[];
+  /**
+   * The interview rounds, included like the notes.
+   * Missing for applications that were created offline and have not been synced yet.
+   */
+  interviews?: Interview[];
+  /**
+   * The documents sent with the application, e.g. the CV and cover letter.
+   * Missing for applications that were created offline and have not been synced yet.
+   */
+  documents?: DocumentFile[];
 }
 
 // --- Interfaces for Creating/Updating Data (Write-only Payloads) ---
@@ -99,7 +237,8 @@ export interface CreateContactPayload {
 
 /**
  * Defines the payload for creating or updating an application.
- * When sending data, we use IDs instead of nested objects.
+ * When sending data, we use IDs instead of nested objects. Notes and documents are not
+ * part of the payload; they are created, changed, attached and removed one by one.
  */
 export interface CreateApplicationPayload {
   job_title: string;
@@ -113,11 +252,7 @@ export interface CreateApplicationPayload {
   follow_up_on?: string | null;
   job_posting_link?: string;
   salary_expectation?: number | null;
-  /** 
-   * An optional array of notes to be updated.
-   * Used for updating existing notes, each object can have an ID.
-   */
-  notes?: { id?: number; text: string }[];
+  archived?: boolean;
 }
 
 /**
@@ -127,3 +262,27 @@ export interface CreateNotePayload {
   application: number;
   text: string;
 }
+
+/**
+ * Defines the payload for creating or updating an interview.
+ * The interviewers are given as contact IDs.
+ */
+export interface CreateInterviewPayload {
+  application: number;
+  scheduled_at: string;
+  interview_type: InterviewType;
+  location?: string;
+  interviewer_ids?: number[];
+  preparation_notes?: string;
+  outcome?: InterviewOutcome;
+}
+
+/**
+ * Defines the payload for recording a status transition of an application.
+ */
+export interface CreateStatusChangePayload {
+  from_status: ApplicationStatus | null;
+  to_status: ApplicationStatus;
+  changed_at: string;
+  comment?: string;
+}
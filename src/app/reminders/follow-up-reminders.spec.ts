@@ -0,0 +1,27 @@
+import { groupFollowUps, snoozeDate } from './follow-up-reminders';
+import { buildApplication } from '../testing/application-fixtures';
+
+describe('follow-up-reminders', () => {
+  it('should group the follow-ups by due date and sort them', () => {
+    const groups = groupFollowUps(
+      [
+        buildApplication({ id: 1, follow_up_on: '2024-03-20' }),
+        buildApplication({ id: 2, follow_up_on: '2024-03-14' }),
+        buildApplication({ id: 3, follow_up_on: '2024-03-10' }),
+        buildApplication({ id: 4, follow_up_on: '2024-03-16' }),
+        buildApplication({ id: 5, follow_up_on: null }),
+        buildApplication({ id: 6, follow_up_on: '2024-03-01', archived: true }),
+      ],
+      '2024-03-14'
+    );
+    expect(groups.overdue.map((app) => app.id)).toEqual([3]);
+    expect(groups.today.map((app) => app.id)).toEqual([2]);
+    expect(groups.upcoming.map((app) => app.id)).toEqual([4, 1]);
+  });
+
+  it('should snooze overdue reminders from today', () => {
+    expect(snoozeDate('2024-03-10', 3, '2024-03-14')).toBe('2024-03-17');
+    expect(snoozeDate('2024-03-20', 7, '2024-03-14')).toBe('2024-03-27');
+    expect(snoozeDate('2024-02-27', 3, '2024-02-27')).toBe('2024-03-01');
+  });
+});
@@ -0,0 +1,54 @@
+import { Application } from '../models/api-interfaces';
+
+/**
+ * The applications with a follow-up date, grouped by when the follow-up is due.
+ * Each group is sorted by the follow-up date, the earliest first.
+ */
+export interface ReminderGroups {
+  overdue: Application[];
+  today: Application[];
+  upcoming: Application[];
+}
+
+/**
+ * Groups the applications with a follow-up date into overdue, due today and upcoming.
+ * Archived applications and applications without a follow-up date are left out.
+ *
+ * @param applications - The applications to group.
+ * @param today - The current date as `YYYY-MM-DD`.
+ * @returns The grouped applications.
+ */
+export function groupFollowUps(applications: Application[], today: string): ReminderGroups {
+  const groups: ReminderGroups = { overdue: [], today: [], upcoming: [] };
+  const withFollowUp = applications
+    .filter((app) => !app.archived && app.follow_up_on)
+    .sort((a, b) => a.follow_up_on!.localeCompare(b.follow_up_on!));
+
+  for (const app of withFollowUp) {
+    const date = app.follow_up_on!.slice(0, 10);
+    if (date < today) {
+      groups.overdue.push(app);
+    } else if (date === today) {
+      groups.today.push(app);
+    } else {
+      groups.upcoming.push(app);
+    }
+  }
+  return groups;
+}
+
+/**
+ * Calculates the new follow-up date when a reminder is snoozed.
+ * Overdue reminders are snoozed from today, so that they do not stay overdue.
+ *
+ * @param followUpOn - The current follow-up date as `YYYY-MM-DD`.
+ * @param days - The number of days to snooze.
+ * @param today - The current date as `YYYY-MM-DD`.
+ * @returns The new follow-up date as `YYYY-MM-DD`.
+ */
+export function snoozeDate(followUpOn: string, days: number, today: string): string {
+  const base = followUpOn.slice(0, 10) > today ? followUpOn.slice(0, 10) : today;
+  const date = new Date(`${base}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + days);
+  return date.toISOString().slice(0, 10);
+}
@@ -0,0 +1,27 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { provideHttpClient } from '@angular/common/http';
+import { provideRouter } from '@angular/router';
+import { provideToastr } from 'ngx-toastr';
+
+import { Reminders } from './reminders';
+
+describe('Reminders', () => {
+  let component: Reminders;
+  let fixture: ComponentFixture<Reminders>;
+
+  beforeEach(async () => {
+    await TestBed.configureTestingModule({
+      imports: [Reminders],
+      providers: [provideHttpClient(), provideRouter([]), provideToastr()]
+    })
+    .compileComponents();
+
+    fixture = TestBed.createComponent(Reminders);
+    component = fixture.componentInstance;
+    fixture.detectChanges();
+  });
+
+  it('should create', () => {
+    expect(component).toBeTruthy();
+  });
+});
@@ -0,0 +1,152 @@
+import { Component, OnInit, computed, inject } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { RouterLink } from '@angular/router';
+import { DataStoreService, toApplicationPayload } from '../services/data-store';
+import { NotificationService } from '../services/notification';
+import { FollowUpNotificationService } from '../services/follow-up-notifications';
+import { toLocalDateString } from '../shared/dates';
+import { Application } from '../models/api-interfaces';
+import { groupFollowUps, snoozeDate } from './follow-up-reminders';
+
+/** The numbers of days a reminder can be snoozed by. */
+const SNOOZE_OPTIONS = [1, 2, 3, 7, 14];
+
+/**
+ * Component for the reminder center.
+ *
+ * Lists the follow-ups of all active applications, grouped into overdue, due today and
+ * upcoming. Each reminder can be marked as done (which clears the follow-up date), snoozed
+ * by a number of days or opened. The user can also enable browser notifications for
+ * follow-ups that become due while the tab is open.
+ *
+ * @example
+ * ```html
+ * <app-reminders></app-reminders>
+ * ```
+ */
+@Component({
+  selector: 'app-reminders',
+  standalone: true,
+  imports: [CommonModule, RouterLink],
+  templateUrl: './reminders.html',
+  styleUrl: './reminders.scss',
+})
+export class Reminders implements OnInit {
+  // --- DEPENDENCY INJECTION ---
+  private store = inject(DataStoreService);
+  private notificationService = inject(NotificationService);
+  public followUpNotifications = inject(FollowUpNotificationService);
+
+  // --- COMPONENT STATE ---
+
+  /** The numbers of days a reminder can be snoozed by. */
+  readonly snoozeOptions = SNOOZE_OPTIONS;
+
+  /**
+   * The follow-ups of all active applications, grouped by when they are due.
+   */
+  groups = computed(() => groupFollowUps(this.store.applications(), toLocalDateString()));
+
+  /**
+   * The groups in display order with their headings, for the template.
+   */
+  sections = computed(() => [
+    { key: 'overdue', title: 'Überfällig', applications: this.groups().overdue },
+    { key: 'today', title: 'Heute', applications: this.groups().today },
+    { key: 'upcoming', title: 'Demnächst', applications: this.groups().upcoming },
+  ]);
+
+  /**
+   * A flag indicating whether data is currently being loaded.
+   * @default true
+   */
+  public isLoading = true;
+
+  /**
+   * A string to hold an error message if loading fails.
+   * @default null
+   */
+  public errorMessage: string | null = null;
+
+  /**
+   * Component initialization lifecycle hook.
+   * Loads the applications whose follow-ups are listed.
+   */
+  ngOnInit(): void {
+    this.loadApplications();
+  }
+
+  /**
+   * Loads all applications into the store. The reminders are derived from the store.
+   */
+  loadApplications(): void {
+    this.isLoading = true;
+    this.errorMessage = null;
+
+    this.store.loadApplications().subscribe({
+      next: () => {
+        this.isLoading = false;
+      },
+      error: (err) => {
+        this.notificationService.showError(
+          'Applications could not be loaded from the server.',
+          'Loading Error'
+        );
+        this.errorMessage = 'Error loading reminders.';
+        this.isLoading = false;
+        console.error('Error loading applications for the reminders:', err);
+      },
+    });
+  }
+
+  /**
+   * Marks a reminder as done by clearing the follow-up date of the application.
+   * @param application - The application of the reminder.
+   */
+  markDone(application: Application): void {
+    this.saveFollowUp(application, null, `The follow-up for "${application.job_title}" is done.`);
+  }
+
+  /**
+   * Moves the follow-up of an application by a number of days.
+   * Overdue follow-ups are moved starting from today.
+   * @param application - The application of the reminder.
+   * @param days - The number of days, as selected in the dropdown.
+   * @param select - The dropdown, which is reset after the selection.
+   */
+  snooze(application: Application, days: string, select: HTMLSelectElement): void {
+    select.value = '';
+    if (!application.follow_up_on || !days) return;
+
+    const followUpOn = snoozeDate(application.follow_up_on, Number(days), toLocalDateString());
+    this.saveFollowUp(
+      application,
+      followUpOn,
+      `The follow-up for "${application.job_title}" has been moved to ${followUpOn}.`
+    );
+  }
+
+  /**
+   * Saves a new follow-up date of an application.
+   * @param application - The application to change.
+   * @param followUpOn - The new follow-up date, or `null` to remove it.
+   * @param successMessage - The message shown once the change has been saved.
+   * @private
+   */
+  private saveFollowUp(application: Application, followUpOn: string | null, successMessage: string): void {
+    this.store
+      .updateApplication(application.id, { ...toApplicationPayload(application), follow_up_on: followUpOn })
+      .subscribe({
+        next: () => {
+          this.notificationService.showSuccess(successMessage, 'Reminder updated');
+        },
+        error: (err) => {
+          this.notificationService.showError(
+            `The follow-up for "${application.job_title}" could not be changed.`,
+            'Saving failed'
+          );
+          console.error('Error updating follow-up:', err);
+        },
+      });
+  }
+}
@@ -0,0 +1,31 @@
+import { InjectionToken } from '@angular/core';
+import { environment } from '../../environments/environment';
+
+/**
+ * The base URL of the backend API, without a trailing slash.
+ *
+ * Defaults to the `apiUrl` of the current build environment. The {@link Api} service builds
+ * all endpoint URLs from it, and the `authInterceptor` attaches the authentication token
+ * only to requests targeting it.
+ *
+ * @example
+ * ```typescript
+ * // Point the app at a local mock backend in app.config.ts
+ * providers: [{ provide: API_BASE_URL, useValue: 'http://localhost:8000/api' }]
+ * ```
+ */
+export const API_BASE_URL = new InjectionToken<string>('API_BASE_URL', {
+  providedIn: 'root',
+  factory: () => environment.apiUrl,
+});
+
+/**
+ * Checks whether a request URL points to the backend API.
+ *
+ * @param url - The URL of the outgoing request.
+ * @param baseUrl - The base URL of the API.
+ * @returns `true` if the URL is the base URL itself or a path below it.
+ */
+export function isApiUrl(url: string, baseUrl: string): boolean {
+  return url === baseUrl || url.startsWith(`${baseUrl}/`);
+}
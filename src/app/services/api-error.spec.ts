@@ -0,0 +1,86 @@
+import { HttpErrorResponse } from '@angular/common/http';
+import { TestBed } from '@angular/core/testing';
+import { FormControl, FormGroup } from '@angular/forms';
+import { provideToastr } from 'ngx-toastr';
+
+import { ApiErrorService, describeApiError, parseApiError } from './api-error';
+
+describe('parseApiError', () => {
+  it('should collect field errors, non-field errors and detail', () => {
+    const error = parseApiError(
+      new HttpErrorResponse({
+        status: 400,
+        error: {
+          job_title: ['This field may not be blank.'],
+          company: { name: ['This field is required.'] },
+          non_field_errors: ['Invalid combination.'],
+          detail: 'Bad request.',
+        },
+      })
+    );
+
+    expect(error.kind).toBe('validation');
+    expect(error.fieldErrors).toEqual({
+      job_title: ['This field may not be blank.'],
+      'company.name': ['This field is required.'],
+    });
+    expect(error.messages).toEqual(['Invalid combination.', 'Bad request.']);
+  });
+
+  it('should map status codes to error kinds', () => {
+    const kindOf = (status: number) => parseApiError(new HttpErrorResponse({ status })).kind;
+
+    expect(kindOf(0)).toBe('offline');
+    expect(kindOf(403)).toBe('forbidden');
+    expect(kindOf(404)).toBe('not-found');
+    expect(kindOf(502)).toBe('server');
+  });
+
+  it('should handle errors that did not come from an HTTP request', () => {
+    const error = parseApiError(new Error('Something broke'));
+    expect(error.status).toBeNull();
+    expect(error.messages).toEqual(['Something broke']);
+  });
+});
+
+describe('describeApiError', () => {
+  it('should combine messages and field errors', () => {
+    const error = new HttpErrorResponse({
+      status: 400,
+      error: { name: ['Taken.'], detail: 'Invalid.' },
+    });
+    expect(describeApiError(error)).toBe('Invalid. name: Taken.');
+  });
+
+  it('should fall back to the error category', () => {
+    expect(describeApiError(new HttpErrorResponse({ status: 500 }))).toBe('Request failed (server).');
+  });
+});
+
+describe('ApiErrorService', () => {
+  let service: ApiErrorService;
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({ providers: [provideToastr()] });
+    service = TestBed.inject(ApiErrorService);
+  });
+
+  it('should set server errors on matching controls and return the rest', () => {
+    const form = new FormGroup({
+      job_title: new FormControl(''),
+      details: new FormGroup({ company: new FormGroup({ name: new FormControl('') }) }),
+    });
+    const error = parseApiError(
+      new HttpErrorResponse({
+        status: 400,
+        error: { job_title: ['Too long.'], name: ['Taken.'], salary: ['Invalid.'] },
+      })
+    );
+
+    const unmatched = service.applyFieldErrors(form, error, ['', 'details.company']);
+
+    expect(form.get('job_title')?.errors).toEqual({ server: 'Too long.' });
+    expect(form.get('details.company.name')?.errors).toEqual({ server: 'Taken.' });
+    expect(unmatched).toEqual(['salary: Invalid.']);
+  });
+});
@@ -0,0 +1,314 @@
+import { Injectable, inject } from '@angular/core';
+import { HttpErrorResponse } from '@angular/common/http';
+import { AbstractControl } from '@angular/forms';
+import { NotificationService } from './notification';
+
+/**
+ * The category of a failed request, derived from the HTTP status code.
+ * - `offline`: the server could not be reached (status 0).
+ * - `validation`: the server rejected the submitted data (400).
+ * - `unauthorized`: the user is not logged in or the token is invalid (401).
+ * - `forbidden`: the user is not allowed to perform the action (403).
+ * - `not-found`: the requested entry does not exist (404).
+ * - `server`: the server failed to process the request (5xx).
+ * - `unknown`: any other status code, or an error that did not come from an HTTP request.
+ */
+export type ApiErrorKind =
+  | 'offline'
+  | 'validation'
+  | 'unauthorized'
+  | 'forbidden'
+  | 'not-found'
+  | 'server'
+  | 'unknown';
+
+/**
+ * A failed request, normalized from a Django REST Framework error response.
+ */
+export interface ApiError {
+  /** The HTTP status code, or `null` if the error did not come from an HTTP request. */
+  status: number | null;
+  /** The category of the error. */
+  kind: ApiErrorKind;
+  /**
+   * Validation messages per serializer field. Errors of nested serializers are flattened
+   * with dot notation, e.g. `company.name`.
+   */
+  fieldErrors: Record<string, string[]>;
+  /** Messages that do not belong to a field, taken from `non_field_errors` and `detail`. */
+  messages: string[];
+}
+
+/**
+ * Options for {@link ApiErrorService.handle}.
+ */
+export interface ApiErrorHandlingOptions {
+  /** The notification title, describing the failed action. */
+  title?: string;
+  /** The form whose controls should receive the field errors of a validation error. */
+  form?: AbstractControl;
+  /**
+   * Paths of the form groups in which matching controls are searched, in order of priority.
+   * An empty string stands for the form itself.
+   * @default ['']
+   */
+  fieldPaths?: string[];
+  /**
+   * If `false`, validation errors are not notified because the component displays them itself.
+   * Other kinds of errors are always notified.
+   * @default true
+   */
+  notifyValidation?: boolean;
+}
+
+/**
+ * Maps an HTTP status code to an error category.
+ * @param status - The HTTP status code.
+ */
+function kindFromStatus(status: number): ApiErrorKind {
+  if (status === 0) return 'offline';
+  if (status === 400) return 'validation';
+  if (status === 401) return 'unauthorized';
+  if (status === 403) return 'forbidden';
+  if (status === 404) return 'not-found';
+  if (status >= 500) return 'server';
+  return 'unknown';
+}
+
+/**
+ * Converts a DRF error value (a message, a list of messages or a nested serializer error)
+ * into a flat list of messages.
+ * @param value - The error value of a single field.
+ */
+function toMessages(value: unknown): string[] {
+  if (typeof value === 'string') return [value];
+  if (Array.isArray(value)) return value.flatMap(toMessages);
+  return [];
+}
+
+/**
+ * Collects the field errors of a DRF error body, descending into nested serializer errors.
+ * @param body - The (partial) error body.
+ * @param prefix - The dot-separated path of the nested serializer.
+ * @param result - The object the field errors are collected into.
+ */
+function collectFieldErrors(
+  body: Record<string, unknown>,
+  prefix: string,
+  result: Record<string, string[]>
+): void {
+  for (const [key, value] of Object.entries(body)) {
+    const path = prefix ? `${prefix}.${key}` : key;
+    if (value && typeof value === 'object' && !Array.isArray(value)) {
+      collectFieldErrors(value as Record<string, unknown>, path, result);
+      continue;
+    }
+    const messages = toMessages(value);
+    if (messages.length > 0) {
+      result[path] = messages;
+    }
+  }
+}
+
+/**
+ * Normalizes any error thrown by an API call into an {@link ApiError}.
+ *
+ * Understands the error formats of Django REST Framework:
+ * `{ "field": ["message"] }`, `{ "non_field_errors": ["message"] }` and `{ "detail": "message" }`.
+ *
+ * @param error - The error emitted by the HTTP client (or any other error).
+ * @returns The normalized error.
+ */
+export function parseApiError(error: unknown): ApiError {
+  if (!(error instanceof HttpErrorResponse)) {
+    return {
+      status: null,
+      kind: 'unknown',
+      fieldErrors: {},
+      messages: error instanceof Error ? [error.message] : [],
+    };
+  }
+
+  const parsed: ApiError = {
+    status: error.status,
+    kind: kindFromStatus(error.status),
+    fieldErrors: {},
+    messages: [],
+  };
+
+  const body = error.error;
+  if (Array.isArray(body)) {
+    parsed.messages = toMessages(body);
+  } else if (body && typeof body === 'object') {
+    const { detail, non_field_errors, ...fields } = body as Record<string, unknown>;
+    parsed.messages = [...toMessages(non_field_errors), ...toMessages(detail)];
+    collectFieldErrors(fields, '', parsed.fieldErrors);
+  }
+
+  return parsed;
+}
+
+/**
+ * Summarizes a failed request in a single line, e.g. for lists of failed items.
+ *
+ * @param error - The error emitted by the API call (or any other error).
+ * @returns The server's messages and field errors, or the error category if there are none.
+ */
+export function describeApiError(error: unknown): string {
+  const parsed = parseApiError(error);
+  const details = [
+    ...parsed.messages,
+    ...Object.entries(parsed.fieldErrors).map(([field, messages]) => `${field}: ${messages.join(' ')}`),
+  ];
+  return details.length > 0 ? details.join(' ') : `Request failed (${parsed.kind}).`;
+}
+
+/**
+ * Central service for handling failed API calls.
+ *
+ * Parses the error response, shows the server's validation messages directly on the
+ * matching form controls (as a `server` error) and shows a notification that depends on
+ * the kind of error, so that all components report errors consistently.
+ *
+ * @example
+ * ```typescript
+ * this.apiService.createCompany(payload).subscribe({
+ *   error: (err) => this.apiErrorService.handle(err, {
+ *     title: 'Saving failed',
+ *     form: this.form,
+ *     fieldPaths: ['company'],
+ *   }),
+ * });
+ * ```
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class ApiErrorService {
+  private notificationService = inject(NotificationService);
+
+  /**
+   * Handles a failed API call: applies field errors to the form and shows a notification.
+   *
+   * @param error - The error emitted by the API call.
+   * @param options - The form to map the errors onto and how to report them.
+   * @returns The parsed error, e.g. for displaying it in the component.
+   */
+  handle(error: unknown, options: ApiErrorHandlingOptions = {}): ApiError {
+    const parsed = parseApiError(error);
+    console.error('API error:', error);
+
+    const unmatched = options.form
+      ? this.applyFieldErrors(options.form, parsed, options.fieldPaths)
+      : this.describeFieldErrors(parsed.fieldErrors);
+
+    if (parsed.kind !== 'validation' || options.notifyValidation !== false) {
+      this.notify(parsed, unmatched, options.title);
+    }
+    return parsed;
+  }
+
+  /**
+   * Sets the field errors of a validation error as `server` errors on the matching form controls.
+   * The error disappears as soon as the user changes the value of the control.
+   *
+   * @param form - The form containing the controls.
+   * @param error - The parsed error.
+   * @param fieldPaths - Paths of the form groups to search, in order of priority.
+   * @returns Descriptions of the field errors for which no control was found.
+   */
+  applyFieldErrors(form: AbstractControl, error: ApiError, fieldPaths: string[] = ['']): string[] {
+    const unmatched: Record<string, string[]> = {};
+
+    for (const [field, messages] of Object.entries(error.fieldErrors)) {
+      const control = fieldPaths
+        .map((path) => form.get(path ? `${path}.${field}` : field))
+        .find((candidate) => !!candidate);
+
+      if (control) {
+        control.setErrors({ ...control.errors, server: messages.join(' ') });
+        control.markAsTouched();
+      } else {
+        unmatched[field] = messages;
+      }
+    }
+
+    return this.describeFieldErrors(unmatched);
+  }
+
+  /**
+   * Shows a notification that matches the kind of error.
+   * @param error - The parsed error.
+   * @param unmatched - Descriptions of field errors that could not be shown on the form.
+   * @param title - The notification title for validation and unknown errors.
+   * @private
+   */
+  private notify(error: ApiError, unmatched: string[], title?: string): void {
+    switch (error.kind) {
+      case 'offline':
+        this.notificationService.showWarning(this.defaultMessage(error.kind), 'Offline');
+        return;
+      case 'validation': {
+        const details = [...error.messages, ...unmatched];
+        this.notificationService.showWarning(
+          details.length > 0 ? details.join(' ') : this.defaultMessage(error.kind),
+          title ?? 'Invalid input'
+        );
+        return;
+      }
+      case 'unauthorized':
+        this.notificationService.showWarning(this.defaultMessage(error.kind), 'Not logged in');
+        return;
+      case 'forbidden':
+        this.notificationService.showError(
+          error.messages[0] ?? this.defaultMessage(error.kind),
+          'Access denied'
+        );
+        return;
+      case 'not-found':
+        this.notificationService.showError(this.defaultMessage(error.kind), 'Not found');
+        return;
+      case 'server':
+        this.notificationService.showError(this.defaultMessage(error.kind), 'Server error');
+        return;
+      default:
+        this.notificationService.showError(
+          error.messages[0] ?? this.defaultMessage(error.kind),
+          title ?? 'Error'
+        );
+    }
+  }
+
+  /**
+   * Returns the standard notification text for a kind of error.
+   * @param kind - The error category.
+   * @private
+   */
+  private defaultMessage(kind: ApiErrorKind): string {
+    switch (kind) {
+      case 'offline':
+        return 'The server cannot be reached. Please check your internet connection.';
+      case 'validation':
+        return 'Please check the highlighted fields.';
+      case 'unauthorized':
+        return 'Your session has expired. Please log in again.';
+      case 'forbidden':
+        return 'You are not allowed to perform this action.';
+      case 'not-found':
+        return 'The requested entry could not be found.';
+      case 'server':
+        return 'The server could not process the request. Please try again later.';
+      default:
+        return 'An unexpected error has occurred.';
+    }
+  }
+
+  /**
+   * Formats field errors as "field: message" strings.
+   * @param fieldErrors - The field errors to describe.
+   * @private
+   */
+  private describeFieldErrors(fieldErrors: Record<string, string[]>): string[] {
+    return Object.entries(fieldErrors).map(([field, messages]) => `${field}: ${messages.join(' ')}`);
+  }
+}
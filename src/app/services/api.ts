@@ -1,5 +1,5 @@
 import { inject, Injectable } from '@angular/core';
-import { HttpClient, HttpHeaders } from '@angular/common/http';
+import { HttpClient, HttpEvent } from '@angular/common/http';
 import { Observable, BehaviorSubject } from 'rxjs';
 import {
   Application,
@@ -9,19 +9,35 @@ import {
   CreateApplicationPayload,
   CreateCompanyPayload,
   CreateContactPayload,
+  CreateInterviewPayload,
+  CreateNotePayload,
+  CreateStatusChangePayload,
+  DocumentFile,
+  DocumentType,
+  Interview,
+  Note,
+  StatusChange,
 } from '../models/api-interfaces';
+import { API_BASE_URL } from './api-config';
 
 /** A payload type for updating a company, where all fields are optional. */
 type UpdateCompanyPayload = Partial<CreateCompanyPayload>;
 /** A payload type for updating a contact, where all fields are optional. */
 type UpdateContactPayload = Partial<Contact>;
+/** A payload type for partially updating an application, where all fields are optional. */
+type PatchApplicationPayload = Partial<CreateApplicationPayload>;
+/** A payload type for updating an interview, where all fields are optional. */
+type UpdateInterviewPayload = Partial<CreateInterviewPayload>;
 
 /**
  * Service for handling all API communications with the backend.
  *
  * This service provides methods for authentication, CRUD operations on applications,
- * companies, and contacts, as well as token management for secure API access.
- * All authenticated requests automatically include the authorization header.
+ * companies, contacts, interviews and notes, uploading, attaching and downloading documents,
+ * reading and recording the status history of applications,
+ * as well as token management for secure API access.
+ * The base URL comes from the {@link API_BASE_URL} token; the authorization header is
+ * attached to every request by the `authInterceptor`.
  *
  * @example
  * ```typescript
@@ -43,9 +59,8 @@ export class Api {
   /** Injected HttpClient for making HTTP requests. */
   private http = inject(HttpClient);
 
-  /** Base URL for all API endpoints */
-  // private readonly apiUrl = '/api';  // Use relative URL for development
-  private readonly apiUrl = 'https://server-tracker.martin-bock.info/api';  // Use absolute URL for production
+  /** Base URL for all API endpoints, configured per build environment */
+  private readonly apiUrl = inject(API_BASE_URL);
 
   // --- AUTHENTICATION METHODS ---
   /** 
@@ -118,18 +133,31 @@ export class Api {
    * Saves the authentication token to localStorage and updates the login status.
    *
    * @param token - The JWT authentication token from login/registration.
+   * @param username - The name of the authenticated user, used to store per-user preferences.
    *
    * @example
    * ```typescript
    * // Save token after successful login
-   * this.api.saveToken(response.token);
+   * this.api.saveToken(response.token, response.username);
    * ```
    */
-  saveToken(token: string): void {
+  saveToken(token: string, username?: string): void {
     localStorage.setItem('authToken', token);
+    if (username) {
+      localStorage.setItem('authUser', username);
+    }
     this.loggedIn.next(true);
   }
 
+  /**
+   * Retrieves the name of the currently logged-in user.
+   *
+   * @returns The username or `null` if it is not known.
+   */
+  getUsername(): string | null {
+    return localStorage.getItem('authUser');
+  }
+
   /**
    * Retrieves the stored authentication token.
    *
@@ -160,6 +188,7 @@ export class Api {
   logout(): void {
     // Simply remove the token from storage
     localStorage.removeItem('authToken');
+    localStorage.removeItem('authUser');
     this.loggedIn.next(false);
   }
 
@@ -196,12 +225,24 @@ export class Api {
    * ```
    */
   getCompanies(): Observable<Company[]> {
-    const headers = new HttpHeaders({
-      Authorization: `Token ${this.getToken()}`,
-    });
-    return this.http.get<Company[]>(`${this.apiUrl}/companies/`, {
-      headers,
-    });
+    return this.http.get<Company[]>(`${this.apiUrl}/companies/`);
+  }
+
+  /**
+   * Fetches a single company by its ID.
+   *
+   * @param id - The unique identifier of the company to retrieve.
+   * @returns An Observable containing the Company object.
+   *
+   * @example
+   * ```typescript
+   * this.api.getCompanyById(123).subscribe(company => {
+   *   this.company = company;
+   * });
+   * ```
+   */
+  getCompanyById(id: number): Observable<Company> {
+    return this.http.get<Company>(`${this.apiUrl}/companies/${id}/`);
   }
 
   /**
@@ -219,12 +260,7 @@ export class Api {
    * ```
    */
   createCompany(companyData: CreateCompanyPayload): Observable<Company> {
-    const headers = new HttpHeaders({
-      Authorization: `Token ${this.getToken()}`,
-    });
-    return this.http.post<Company>(`${this.apiUrl}/companies/`, companyData, {
-      headers,
-    });
+    return this.http.post<Company>(`${this.apiUrl}/companies/`, companyData);
   }
 
   /**
@@ -235,15 +271,26 @@ export class Api {
    * @returns An Observable containing the updated Company object.
    */
   updateCompany(id: number, payload: UpdateCompanyPayload): Observable<Company> {
-    const headers = new HttpHeaders({
-      Authorization: `Token ${this.getToken()}`,
-    });
-    return this.http.patch<Company>(`${this.apiUrl}/companies/${id}/`, payload, {
-      headers,
-    });
+    return this.http.patch<Company>(`${this.apiUrl}/companies/${id}/`, payload);
   }
 
   // --- CONTACTS CRUD OPERATIONS ---
+  /**
+   * Fetches all contacts of the authenticated user across all companies.
+   *
+   * @returns An Observable array of Contact objects.
+   *
+   * @example
+   * ```typescript
+   * this.api.getContacts().subscribe(contacts => {
+   *   this.contactsList = contacts;
+   * });
+   * ```
+   */
+  getContacts(): Observable<Contact[]> {
+    return this.http.get<Contact[]>(`${this.apiUrl}/contacts/`);
+  }
+
   /**
    * Creates a new contact person associated with a company.
    *
@@ -264,12 +311,7 @@ export class Api {
    * ```
    */
   createContact(contactData: CreateContactPayload): Observable<Contact> {
-    const headers = new HttpHeaders({
-      Authorization: `Token ${this.getToken()}`,
-    });
-    return this.http.post<Contact>(`${this.apiUrl}/contacts/`, contactData, {
-      headers,
-    });
+    return this.http.post<Contact>(`${this.apiUrl}/contacts/`, contactData);
   }
 
   /**
@@ -280,12 +322,7 @@ export class Api {
    * @returns An Observable containing the updated Contact object.
    */
   updateContact(id: number, payload: UpdateContactPayload): Observable<Contact> {
-    const headers = new HttpHeaders({
-      Authorization: `Token ${this.getToken()}`,
-    });
-    return this.http.patch<Contact>(`${this.apiUrl}/contacts/${id}/`, payload, {
-      headers,
-    });
+    return this.http.patch<Contact>(`${this.apiUrl}/contacts/${id}/`, payload);
   }
 
   /**
@@ -296,13 +333,8 @@ export class Api {
    * @remarks This assumes the API supports filtering contacts via a `company_id` query parameter.
    */
   getContactsForCompany(companyId: number): Observable<Contact[]> {
-    const headers = new HttpHeaders({
-      Authorization: `Token ${this.getToken()}`,
-    });
     // Annahme: Die API unterstützt das Filtern von Kontakten nach company_id
-    return this.http.get<Contact[]>(`${this.apiUrl}/contacts/?company_id=${companyId}`, {
-      headers,
-    });
+    return this.http.get<Contact[]>(`${this.apiUrl}/contacts/?company_id=${companyId}`);
   }
 
   /**
@@ -312,10 +344,7 @@ export class Api {
    * @returns An Observable indicating completion of the deletion.
    */
   deleteContact(id: number): Observable<void> {
-    const headers = new HttpHeaders({
-      Authorization: `Token ${this.getToken()}`,
-    });
-    return this.http.delete<void>(`${this.apiUrl}/contacts/${id}/`, { headers });
+    return this.http.delete<void>(`${this.apiUrl}/contacts/${id}/`);
   }
 
   // --- APPLICATIONS CRUD OPERATIONS ---
@@ -340,13 +369,9 @@ export class Api {
   createApplication(
     applicationData: CreateApplicationPayload
   ): Observable<Application> {
-    const headers = new HttpHeaders({
-      Authorization: `Token ${this.getToken()}`,
-    });
     return this.http.post<Application>(
       `${this.apiUrl}/applications/`,
-      applicationData,
-      { headers }
+      applicationData
     );
   }
 
@@ -364,13 +389,8 @@ export class Api {
    * ```
    */
   getApplications(): Observable<Application[]> {
-    const headers = new HttpHeaders({
-      Authorization: `Token ${this.getToken()}`,
-    });
     // Important: The endpoint for the list has no ID at the end
-    return this.http.get<Application[]>(`${this.apiUrl}/applications/`, {
-      headers,
-    });
+    return this.http.get<Application[]>(`${this.apiUrl}/applications/`);
   }
 
   /**
@@ -387,12 +407,7 @@ export class Api {
    * ```
    */
   getApplicationById(id: string): Observable<Application> {
-    const headers = new HttpHeaders({
-      Authorization: `Token ${this.getToken()}`,
-    });
-    return this.http.get<Application>(`${this.apiUrl}/applications/${id}/`, {
-      headers,
-    });
+    return this.http.get<Application>(`${this.apiUrl}/applications/${id}/`);
   }
 
   /**
@@ -414,14 +429,314 @@ export class Api {
     id: string,
     applicationData: CreateApplicationPayload
   ): Observable<Application> {
-    const headers = new HttpHeaders({
-      Authorization: `Token ${this.getToken()}`,
-    });
     // The internal logic of the method is correct and remains the same
     return this.http.put<Application>(
       `${this.apiUrl}/applications/${id}/`,
-      applicationData,
-      { headers }
+      applicationData
+    );
+  }
+
+  /**
+   * Partially updates an existing job application.
+   *
+   * Unlike {@link updateApplication}, only the given fields are sent, which makes
+   * this method suitable for small changes such as moving a card on the Kanban board.
+   *
+   * @param id - The unique identifier of the application to update.
+   * @param payload - An object containing only the fields to update.
+   * @returns An Observable containing the updated Application object.
+   *
+   * @example
+   * ```typescript
+   * this.api.patchApplication('123', { status: 'INTERVIEW', interview_on: '2024-01-15' })
+   *   .subscribe(updatedApp => console.log('New status:', updatedApp.status));
+   * ```
+   */
+  patchApplication(
+    id: string,
+    payload: PatchApplicationPayload
+  ): Observable<Application> {
+    return this.http.patch<Application>(
+      `${this.apiUrl}/applications/${id}/`,
+      payload
+    );
+  }
+
+  /**
+   * Archives or restores an application.
+   *
+   * Archiving is a soft delete: the application is kept, but hidden from the board
+   * and shown in the archive view instead.
+   *
+   * @param id - The unique identifier of the application.
+   * @param archived - `true` to archive the application, `false` to restore it.
+   * @returns An Observable containing the updated Application object.
+   */
+  setApplicationArchived(id: string, archived: boolean): Observable<Application> {
+    return this.patchApplication(id, { archived });
+  }
+
+  /**
+   * Permanently deletes an application.
+   *
+   * @param id - The unique identifier of the application to delete.
+   * @returns An Observable indicating completion of the deletion.
+   *
+   * @example
+   * ```typescript
+   * this.api.deleteApplication('123').subscribe(() => {
+   *   console.log('Application deleted');
+   * });
+   * ```
+   */
+  deleteApplication(id: string): Observable<void> {
+    return this.http.delete<void>(`${this.apiUrl}/applications/${id}/`);
+  }
+
+  // --- NOTES CRUD OPERATIONS ---
+  /**
+   * Creates a new note for an application.
+   *
+   * @param payload - The note data with the application ID and the text.
+   * @returns An Observable containing the newly created Note object, including its creation time.
+   *
+   * @example
+   * ```typescript
+   * this.api.createNote({ application: 123, text: 'Rückruf am Freitag' }).subscribe(note => {
+   *   console.log('Note created:', note.created_at);
+   * });
+   * ```
+   */
+  createNote(payload: CreateNotePayload): Observable<Note> {
+    return this.http.post<Note>(`${this.apiUrl}/notes/`, payload);
+  }
+
+  /**
+   * Changes the text of an existing note.
+   *
+   * @param id - The ID of the note to update.
+   * @param text - The new text of the note.
+   * @returns An Observable containing the updated Note object.
+   */
+  updateNote(id: number, text: string): Observable<Note> {
+    return this.http.patch<Note>(`${this.apiUrl}/notes/${id}/`, { text });
+  }
+
+  /**
+   * Deletes a note by ID.
+   *
+   * @param id - The ID of the note to delete.
+   * @returns An Observable indicating completion of the deletion.
+   */
+  deleteNote(id: number): Observable<void> {
+    return this.http.delete<void>(`${this.apiUrl}/notes/${id}/`);
+  }
+
+  // --- INTERVIEWS CRUD OPERATIONS ---
+  /**
+   * Fetches all interviews of an application.
+   *
+   * @param applicationId - The ID of the application whose interviews are to be fetched.
+   * @returns An Observable array of Interview objects.
+   * @remarks Applications also include their interviews; this method is needed to refresh them separately.
+   */
+  getInterviews(applicationId: number): Observable<Interview[]> {
+    return this.http.get<Interview[]>(`${this.apiUrl}/interviews/?application_id=${applicationId}`);
+  }
+
+  /**
+   * Creates a new interview for an application.
+   *
+   * @param payload - The interview data with the application ID and the contact IDs of the interviewers.
+   * @returns An Observable containing the newly created Interview object.
+   *
+   * @example
+   * ```typescript
+   * const payload = {
+   *   application: 123,
+   *   scheduled_at: '2024-03-10T14:00:00.000Z',
+   *   interview_type: 'TECHNICAL',
+   *   interviewer_ids: [7]
+   * };
+   * this.api.createInterview(payload).subscribe(interview => {
+   *   console.log('Interview created:', interview.id);
+   * });
+   * ```
+   */
+  createInterview(payload: CreateInterviewPayload): Observable<Interview> {
+    return this.http.post<Interview>(`${this.apiUrl}/interviews/`, payload);
+  }
+
+  /**
+   * Updates an existing interview with a partial payload.
+   *
+   * @param id - The ID of the interview to update.
+   * @param payload - An object containing the fields to update.
+   * @returns An Observable containing the updated Interview object.
+   */
+  updateInterview(id: number, payload: UpdateInterviewPayload): Observable<Interview> {
+    return this.http.patch<Interview>(`${this.apiUrl}/interviews/${id}/`, payload);
+  }
+
+  /**
+   * Deletes an interview by ID.
+   *
+   * @param id - The ID of the interview to delete.
+   * @returns An Observable indicating completion of the deletion.
+   */
+  deleteInterview(id: number): Observable<void> {
+    return this.http.delete<void>(`${this.apiUrl}/interviews/${id}/`);
+  }
+
+  // --- DOCUMENTS ---
+  /**
+   * Fetches all documents of the document library.
+   *
+   * @returns An Observable array of DocumentFile objects.
+   */
+  getDocuments(): Observable<DocumentFile[]> {
+    return this.http.get<DocumentFile[]>(`${this.apiUrl}/documents/`);
+  }
+
+  /**
+   * Uploads a file to the document library as a multipart request.
+   *
+   * @param file - The file to upload, e.g. a PDF or DOCX.
+   * @param documentType - The kind of document.
+   * @returns An Observable of the HTTP events, including the upload progress; the final
+   * response contains the new DocumentFile object.
+   *
+   * @example
+   * ```typescript
+   * this.api.uploadDocument(file, 'CV').subscribe(event => {
+   *   if (event.type === HttpEventType.UploadProgress) console.log(event.loaded, event.total);
+   * });
+   * ```
+   */
+  uploadDocument(file: File, documentType: DocumentType): Observable<HttpEvent<DocumentFile>> {
+    return this.http.post<DocumentFile>(
+      `${this.apiUrl}/documents/`,
+      this.toDocumentFormData(file, documentType),
+      { reportProgress: true, observe: 'events' }
+    );
+  }
+
+  /**
+   * Uploads a file as a multipart request and attaches it to an application in one step.
+   * The file is also added to the document library, so it can be reused.
+   *
+   * @param applicationId - The ID of the application to attach the file to.
+   * @param file - The file to upload, e.g. a PDF or DOCX.
+   * @param documentType - The kind of document.
+   * @returns An Observable of the HTTP events, including the upload progress; the final
+   * response contains the new DocumentFile object.
+   */
+  uploadApplicationDocument(
+    applicationId: number,
+    file: File,
+    documentType: DocumentType
+  ): Observable<HttpEvent<DocumentFile>> {
+    return this.http.post<DocumentFile>(
+      `${this.apiUrl}/applications/${applicationId}/documents/upload/`,
+      this.toDocumentFormData(file, documentType),
+      { reportProgress: true, observe: 'events' }
+    );
+  }
+
+  /**
+   * Attaches a document from the library to an application.
+   *
+   * @param applicationId - The ID of the application.
+   * @param documentId - The ID of the document.
+   * @returns An Observable containing the attached DocumentFile object.
+   */
+  attachDocument(applicationId: number, documentId: number): Observable<DocumentFile> {
+    return this.http.post<DocumentFile>(`${this.apiUrl}/applications/${applicationId}/documents/`, {
+      document_id: documentId,
+    });
+  }
+
+  /**
+   * Removes a document from an application. The document stays in the library.
+   *
+   * @param applicationId - The ID of the application.
+   * @param documentId - The ID of the document.
+   * @returns An Observable indicating completion of the removal.
+   */
+  detachDocument(applicationId: number, documentId: number): Observable<void> {
+    return this.http.delete<void>(`${this.apiUrl}/applications/${applicationId}/documents/${documentId}/`);
+  }
+
+  /**
+   * Downloads the file of a document.
+   *
+   * @param id - The ID of the document.
+   * @returns An Observable containing the file content.
+   * @remarks The file is fetched through the HttpClient instead of a plain link, so the
+   * authorization header is sent with the request.
+   */
+  downloadDocument(id: number): Observable<Blob> {
+    return this.http.get(`${this.apiUrl}/documents/${id}/download/`, { responseType: 'blob' });
+  }
+
+  /**
+   * Builds the multipart body for uploading a document.
+   * @param file - The file to upload.
+   * @param documentType - The kind of document.
+   * @private
+   */
+  private toDocumentFormData(file: File, documentType: DocumentType): FormData {
+    const formData = new FormData();
+    formData.append('file', file, file.name);
+    formData.append('document_type', documentType);
+    return formData;
+  }
+
+  // --- STATUS HISTORY ---
+  /**
+   * Fetches the recorded status transitions of an application.
+   *
+   * @param applicationId - The ID of the application whose history is to be fetched.
+   * @returns An Observable array of StatusChange objects.
+   *
+   * @example
+   * ```typescript
+   * this.api.getStatusHistory(123).subscribe(history => {
+   *   this.statusHistory = history;
+   * });
+   * ```
+   */
+  getStatusHistory(applicationId: number): Observable<StatusChange[]> {
+    return this.http.get<StatusChange[]>(
+      `${this.apiUrl}/applications/${applicationId}/status-history/`
+    );
+  }
+
+  /**
+   * Records a status transition of an application.
+   *
+   * @param applicationId - The ID of the application whose status has changed.
+   * @param payload - The previous and new status, the time of the transition and an optional comment.
+   * @returns An Observable containing the recorded StatusChange object.
+   *
+   * @example
+   * ```typescript
+   * const payload = {
+   *   from_status: 'INTERVIEW',
+   *   to_status: 'INTERVIEW',
+   *   changed_at: new Date().toISOString(),
+   *   comment: 'Zweite Runde'
+   * };
+   * this.api.createStatusChange(123, payload).subscribe();
+   * ```
+   */
+  createStatusChange(
+    applicationId: number,
+    payload: CreateStatusChangePayload
+  ): Observable<StatusChange> {
+    return this.http.post<StatusChange>(
+      `${this.apiUrl}/applications/${applicationId}/status-history/`,
+      payload
     );
   }
 }
@@ -0,0 +1,91 @@
+import { TestBed } from '@angular/core/testing';
+import { provideHttpClient } from '@angular/common/http';
+import { HttpTestingController, provideHttpClientTesting } from '@angular/common/http/testing';
+import { Subject } from 'rxjs';
+
+import { ApplicationDeletionService, DeletionResult } from './application-deletion';
+import { API_BASE_URL } from './api-config';
+import { DataStoreService } from './data-store';
+import { NotificationService } from './notification';
+import { buildApplication } from '../testing/application-fixtures';
+
+describe('ApplicationDeletionService', () => {
+  let service: ApplicationDeletionService;
+  let store: DataStoreService;
+  let httpTesting: HttpTestingController;
+  let undo: Subject<boolean>;
+  let notificationService: jasmine.SpyObj<NotificationService>;
+  let results: { id: number; result: DeletionResult }[];
+
+  const application = buildApplication({ id: 1, job_title: 'Frontend Developer' });
+
+  beforeEach(() => {
+    undo = new Subject<boolean>();
+    notificationService = jasmine.createSpyObj<NotificationService>('NotificationService', [
+      'showUndo',
+      'showError',
+    ]);
+    notificationService.showUndo.and.returnValue(undo);
+
+    TestBed.configureTestingModule({
+      providers: [
+        provideHttpClient(),
+        provideHttpClientTesting(),
+        { provide: API_BASE_URL, useValue: '/api' },
+        { provide: NotificationService, useValue: notificationService },
+      ],
+    });
+    service = TestBed.inject(ApplicationDeletionService);
+    store = TestBed.inject(DataStoreService);
+    httpTesting = TestBed.inject(HttpTestingController);
+
+    results = [];
+    service.results$.subscribe((result) => results.push(result));
+  });
+
+  afterEach(() => httpTesting.verify());
+
+  it('should hide the application while the undo toast is shown', () => {
+    service.scheduleDeletion(application);
+
+    expect(service.isPending(1)).toBeTrue();
+    expect(notificationService.showUndo).toHaveBeenCalledWith('"Frontend Developer" deleted.', 'Application deleted');
+    httpTesting.expectNone('/api/applications/1/');
+    expect(results).toEqual([]);
+  });
+
+  it('should restore the application when the deletion is undone', () => {
+    service.scheduleDeletion(application);
+    undo.next(true);
+
+    httpTesting.expectNone('/api/applications/1/');
+    expect(service.isPending(1)).toBeFalse();
+    expect(results).toEqual([{ id: 1, result: 'restored' }]);
+  });
+
+  it('should delete the application once the undo toast has closed', () => {
+    service.scheduleDeletion(application);
+    undo.next(false);
+
+    httpTesting.expectOne({ method: 'DELETE', url: '/api/applications/1/' }).flush(null);
+    expect(service.isPending(1)).toBeFalse();
+    expect(results).toEqual([{ id: 1, result: 'deleted' }]);
+  });
+
+  it('should report a failed deletion and show the application again', () => {
+    spyOn(console, 'error');
+    service.scheduleDeletion(application);
+    undo.next(false);
+
+    httpTesting
+      .expectOne({ method: 'DELETE', url: '/api/applications/1/' })
+      .flush('Server error', { status: 500, statusText: 'Internal Server Error' });
+
+    expect(notificationService.showError).toHaveBeenCalledWith(
+      '"Frontend Developer" could not be deleted.',
+      'Deleting failed'
+    );
+    expect(store.isPendingDeletion(1)).toBeFalse();
+    expect(results).toEqual([{ id: 1, result: 'failed' }]);
+  });
+});
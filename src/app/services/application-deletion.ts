@@ -0,0 +1,87 @@
+import { Injectable, inject } from '@angular/core';
+import { Subject, of } from 'rxjs';
+import { catchError, map, switchMap } from 'rxjs/operators';
+import { DataStoreService } from './data-store';
+import { NotificationService } from './notification';
+import { Application } from '../models/api-interfaces';
+
+/**
+ * The outcome of a scheduled application deletion.
+ * - `deleted`: the undo period expired and the application was deleted on the server.
+ * - `restored`: the user clicked "undo" before the deletion was sent.
+ * - `failed`: the delete request failed; the application still exists.
+ */
+export type DeletionResult = 'deleted' | 'restored' | 'failed';
+
+/**
+ * Service for deleting applications with an undo option.
+ *
+ * Deleting an application cannot be reverted on the server, so the actual delete request
+ * is delayed until the undo toast closes. In the meantime the application is hidden in the
+ * {@link DataStoreService}, so that it disappears from all views. Because the service lives
+ * at root level, a deletion started in the form keeps running after navigating back to the board.
+ *
+ * @example
+ * ```typescript
+ * this.deletionService.scheduleDeletion(app);
+ * ```
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class ApplicationDeletionService {
+  private store = inject(DataStoreService);
+  private notificationService = inject(NotificationService);
+
+  /** Emits the outcome of every scheduled deletion. */
+  private resultsSubject = new Subject<{ id: number; result: DeletionResult }>();
+
+  /**
+   * An observable of all deletion outcomes, for views that need to react when
+   * a deletion started elsewhere is completed, undone or fails.
+   */
+  results$ = this.resultsSubject.asObservable();
+
+  /**
+   * Checks whether an application is scheduled for deletion and should be hidden.
+   * @param id - The ID of the application.
+   */
+  isPending(id: number): boolean {
+    return this.store.isPendingDeletion(id);
+  }
+
+  /**
+   * Schedules an application for deletion and shows an undo toast.
+   * The outcome is published via {@link results$} once the undo period is over.
+   *
+   * @param application - The application to delete.
+   */
+  scheduleDeletion(application: Application): void {
+    this.store.markPendingDeletion(application.id);
+
+    this.notificationService
+      .showUndo(`"${application.job_title}" deleted.`, 'Application deleted')
+      .pipe(
+        switchMap((undone) => {
+          if (undone) {
+            return of<DeletionResult>('restored');
+          }
+          return this.store.deleteApplication(application.id).pipe(
+            map((): DeletionResult => 'deleted'),
+            catchError((err) => {
+              this.notificationService.showError(
+                `"${application.job_title}" could not be deleted.`,
+                'Deleting failed'
+              );
+              console.error('Error deleting application:', err);
+              return of<DeletionResult>('failed');
+            })
+          );
+        })
+      )
+      .subscribe((result) => {
+        this.store.clearPendingDeletion(application.id);
+        this.resultsSubject.next({ id: application.id, result });
+      });
+  }
+}
@@ -0,0 +1,60 @@
+import { Application } from '../models/api-interfaces';
+import { applicationsToCsv, applicationsToJson, toCsvCell } from './application-export';
+
+describe('application-export', () => {
+  const application: Application = {
+    id: 7,
+    job_title: 'Frontend Developer',
+    company: { id: 1, name: 'Tech; Corp', website: null, industry: 'IT' },
+    contact: {
+      id: 3,
+      first_name: 'Erika',
+      last_name: 'Muster',
+      email: 'erika@example.com',
+      phone: '',
+      position: 'HR',
+      company: 1,
+    },
+    status: 'APPLIED',
+    status_display: 'Beworben',
+    applied_on: '2024-03-01',
+    interview_on: null,
+    offer_on: null,
+    rejected_on: null,
+    follow_up_on: null,
+    job_posting_link: '',
+    salary_expectation: 55000,
+    created_at: '2024-02-28T10:00:00Z',
+    archived: false,
+    notes: [{ id: 1, text: 'Said "call back"', created_at: '2024-03-02T09:00:00Z' }],
+  };
+
+  it('should escape separators, quotes and formulas in CSV cells', () => {
+    expect(toCsvCell('Tech; Corp')).toBe('"Tech; Corp"');
+    expect(toCsvCell('Say "hi"')).toBe('"Say ""hi"""');
+    expect(toCsvCell('=SUM(A1)')).toBe("'=SUM(A1)");
+    expect(toCsvCell(null)).toBe('');
+    expect(toCsvCell(-5)).toBe('-5');
+  });
+
+  it('should flatten company and contact into CSV columns', () => {
+    const [header, row] = applicationsToCsv([application], { includeNotes: true }).split('\r\n');
+
+    expect(header.split(';')).toContain('company_name');
+    expect(header.split(';')).toContain('contact_email');
+    expect(header.endsWith(';notes')).toBeTrue();
+    expect(row).toContain('"Tech; Corp"');
+    expect(row).toContain('"2024-03-02: Said ""call back"""');
+  });
+
+  it('should include notes in JSON only when requested', () => {
+    const withoutNotes = JSON.parse(applicationsToJson([application], { includeNotes: false }));
+    const withNotes = JSON.parse(applicationsToJson([application], { includeNotes: true }));
+
+    expect(withoutNotes[0].contact_last_name).toBe('Muster');
+    expect(withoutNotes[0].notes).toBeUndefined();
+    expect(withNotes[0].notes).toEqual([
+      { text: 'Said "call back"', created_at: '2024-03-02T09:00:00Z' },
+    ]);
+  });
+});
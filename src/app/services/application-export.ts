@@ -0,0 +1,218 @@
+import { Injectable } from '@angular/core';
+import { Application } from '../models/api-interfaces';
+import { applicationsToIcs } from './calendar-export';
+import { toLocalDateString } from '../shared/dates';
+
+/**
+ * The file formats applications can be exported to.
+ * `ics` exports the interview, follow-up and offer dates as calendar events.
+ */
+export type ExportFormat = 'csv' | 'json' | 'ics';
+
+/**
+ * Options for exporting applications.
+ */
+export interface ExportOptions {
+  /** If `true`, the notes of each application are included. */
+  includeNotes: boolean;
+}
+
+/**
+ * An application with its company and contact flattened into prefixed columns.
+ */
+export type FlatApplication = Record<string, string | number | boolean | null>;
+
+/** Field separator of the CSV export; spreadsheet programs with German locale expect a semicolon. */
+const CSV_SEPARATOR = ';';
+
+/** An application without data, used to determine the CSV columns. */
+const EMPTY_APPLICATION: Application = {
+  id: 0,
+  job_title: '',
+  company: { id: 0, name: '', website: null, industry: '' },
+  contact: null,
+  status: 'DRAFT',
+  status_display: '',
+  applied_on: null,
+  interview_on: null,
+  offer_on: null,
+  rejected_on: null,
+  follow_up_on: null,
+  job_posting_link: '',
+  salary_expectation: null,
+  created_at: '',
+  archived: false,
+  notes: [],
+};
+
+/**
+ * Flattens an application, so that it fits into a single table row.
+ * Company and contact fields are prefixed with `company_` and `contact_`.
+ *
+ * @param application - The application to flatten.
+ * @returns The flat record; the column order is the same for every application.
+ */
+export function flattenApplication(application: Application): FlatApplication {
+  const { company, contact } = application;
+  return {
+    id: application.id,
+    job_title: application.job_title,
+    status: application.status,
+    status_display: application.status_display,
+    applied_on: application.applied_on,
+    interview_on: application.interview_on,
+    offer_on: application.offer_on,
+    rejected_on: application.rejected_on,
+    follow_up_on: application.follow_up_on,
+    job_posting_link: application.job_posting_link,
+    salary_expectation: application.salary_expectation,
+    created_at: application.created_at,
+    archived: application.archived,
+    company_id: company.id,
+    company_name: company.name,
+    company_industry: company.industry,
+    company_website: company.website,
+    contact_id: contact?.id ?? null,
+    contact_first_name: contact?.first_name ?? null,
+    contact_last_name: contact?.last_name ?? null,
+    contact_email: contact?.email ?? null,
+    contact_phone: contact?.phone ?? null,
+    contact_position: contact?.position ?? null,
+  };
+}
+
+/**
+ * Formats a single CSV cell. Cells containing separators, quotes or line breaks are quoted,
+ * and text starting with a formula character is prefixed, so spreadsheets do not evaluate it.
+ *
+ * @param value - The cell value.
+ * @returns The escaped cell.
+ */
+export function toCsvCell(value: string | number | boolean | null): string {
+  if (value === null) return '';
+  let text = String(value);
+  if (typeof value === 'string' && /^[=+\-@]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[";\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Converts applications to CSV with a header row.
+ * Notes are combined into one cell, one note per line, each prefixed with its creation date.
+ *
+ * @param applications - The applications to export.
+ * @param options - Whether to include the notes.
+ * @returns The CSV text.
+ */
+export function applicationsToCsv(applications: Application[], options: ExportOptions): string {
+  const rows = applications.map((application) => {
+    const row = flattenApplication(application);
+    if (options.includeNotes) {
+      row['notes'] = application.notes
+        .map((note) => `${note.created_at.slice(0, 10)}: ${note.text}`)
+        .join('\n');
+    }
+    return row;
+  });
+
+  const header = [
+    ...Object.keys(flattenApplication(EMPTY_APPLICATION)),
+    ...(options.includeNotes ? ['notes'] : []),
+  ];
+  const lines = [
+    header.join(CSV_SEPARATOR),
+    ...rows.map((row) => header.map((column) => toCsvCell(row[column])).join(CSV_SEPARATOR)),
+  ];
+  return lines.join('\r\n');
+}
+
+/**
+ * Converts applications to formatted JSON.
+ * Notes are included as an array of `{ text, created_at }` objects.
+ *
+ * @param applications - The applications to export.
+ * @param options - Whether to include the notes.
+ * @returns The JSON text.
+ */
+export function applicationsToJson(applications: Application[], options: ExportOptions): string {
+  const records = applications.map((application) =>
+    options.includeNotes
+      ? {
+          ...flattenApplication(application),
+          notes: application.notes.map(({ text, created_at }) => ({ text, created_at })),
+        }
+      : flattenApplication(application)
+  );
+  return JSON.stringify(records, null, 2);
+}
+
+/**
+ * Lets the browser download a file.
+ *
+ * @param content - The file content, as text or as a Blob received from the server.
+ * @param filename - The suggested file name.
+ * @param mimeType - The MIME type of the content.
+ */
+export function downloadFile(content: string | Blob, filename: string, mimeType: string): void {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  // Revoking the URL right away cancels the download in some browsers
+  setTimeout(() => URL.revokeObjectURL(url));
+}
+
+/**
+ * Service for exporting applications as CSV or JSON files, e.g. for reports to the
+ * employment agency or as a personal backup, and their dates as iCalendar files for
+ * calendar apps.
+ *
+ * @example
+ * ```typescript
+ * this.exportService.export(this.filteredApplications, 'csv', { includeNotes: true });
+ * ```
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class ApplicationExportService {
+  /**
+   * Converts applications to the requested format and downloads the file.
+   * The file name contains the current local date, e.g. `bewerbungen-2024-05-01.csv`.
+   *
+   * @param applications - The applications to export.
+   * @param format - The file format.
+   * @param options - Whether to include the notes; not used for calendar files.
+   * @returns `false` if nothing was downloaded, because a calendar export contains no dates.
+   */
+  export(applications: Application[], format: ExportFormat, options: ExportOptions): boolean {
+    const filename = `bewerbungen-${toLocalDateString()}.${format}`;
+    if (format === 'ics') {
+      return this.exportCalendar(applications, filename);
+    }
+    if (format === 'csv') {
+      // The byte order mark makes spreadsheet programs read the file as UTF-8
+      downloadFile('\uFEFF' + applicationsToCsv(applications, options), filename, 'text/csv;charset=utf-8');
+    } else {
+      downloadFile(applicationsToJson(applications, options), filename, 'application/json');
+    }
+    return true;
+  }
+
+  /**
+   * Downloads the interview, follow-up and offer dates of applications as an `.ics` file.
+   *
+   * @param applications - The applications whose dates are exported.
+   * @param filename - The suggested file name.
+   * @returns `false` if none of the applications has a date to export, so no file was downloaded.
+   */
+  exportCalendar(applications: Application[], filename: string): boolean {
+    const content = applicationsToIcs(applications);
+    if (content === null) return false;
+
+    downloadFile(content, filename, 'text/calendar;charset=utf-8');
+    return true;
+  }
+}
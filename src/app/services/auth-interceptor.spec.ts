@@ -1,7 +1,8 @@
 import { TestBed } from '@angular/core/testing';
-import { HttpInterceptorFn } from '@angular/common/http';
+import { HttpErrorResponse, HttpInterceptorFn } from '@angular/common/http';
 
-import { authInterceptor } from './auth-interceptor';
+import { authInterceptor, isInvalidTokenResponse } from './auth-interceptor';
+import { isApiUrl } from './api-config';
 
 describe('authInterceptor', () => {
   const interceptor: HttpInterceptorFn = (req, next) => 
@@ -14,4 +15,22 @@ describe('authInterceptor', () => {
   it('should be created', () => {
     expect(interceptor).toBeTruthy();
   });
+
+  it('should treat 401 and invalid-token 403 responses as an invalid token', () => {
+    expect(isInvalidTokenResponse(new HttpErrorResponse({ status: 401 }))).toBeTrue();
+    expect(
+      isInvalidTokenResponse(new HttpErrorResponse({ status: 403, error: { detail: 'Invalid token.' } }))
+    ).toBeTrue();
+    expect(
+      isInvalidTokenResponse(
+        new HttpErrorResponse({ status: 403, error: { detail: 'You do not have permission.' } })
+      )
+    ).toBeFalse();
+  });
+
+  it('should only match URLs below the API base URL', () => {
+    expect(isApiUrl('/api/applications/', '/api')).toBeTrue();
+    expect(isApiUrl('/apis/other/', '/api')).toBeFalse();
+    expect(isApiUrl('https://example.com/api/companies/', '/api')).toBeFalse();
+  });
 });
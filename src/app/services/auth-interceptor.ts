@@ -1,13 +1,40 @@
-import { HttpInterceptorFn } from '@angular/common/http';
+import { HttpErrorResponse, HttpInterceptorFn } from '@angular/common/http';
 import { inject } from '@angular/core';
+import { Router } from '@angular/router';
+import { throwError } from 'rxjs';
+import { catchError } from 'rxjs/operators';
 import { Api } from './api'; // Adjust path if necessary
+import { API_BASE_URL, isApiUrl } from './api-config';
+
+/**
+ * `detail` messages with which Django REST Framework rejects a missing, revoked or expired token.
+ * Depending on the configured authentication classes, these are sent with status 403 instead of 401.
+ */
+const INVALID_TOKEN_MESSAGES = [
+  'Invalid token.',
+  'Token has expired.',
+  'User inactive or deleted.',
+  'Authentication credentials were not provided.',
+];
+
+/**
+ * Checks whether a failed response means that the authentication token is no longer valid.
+ *
+ * @param error - The error response of an authenticated request.
+ * @returns `true` for 401 responses and for 403 responses caused by an invalid token.
+ */
+export function isInvalidTokenResponse(error: HttpErrorResponse): boolean {
+  if (error.status === 401) return true;
+  return error.status === 403 && INVALID_TOKEN_MESSAGES.includes(error.error?.detail);
+}
 
 /**
  * HTTP interceptor function for automatically adding authentication tokens to API requests.
  * 
  * This interceptor automatically attaches the authentication token to all outgoing HTTP requests
  * that target the application's API endpoints. It uses Angular's functional interceptor pattern
- * and integrates with the Api service for token management.
+ * and integrates with the Api service for token management. It is the only place where the
+ * authorization header is set.
  * 
  * @param req - The outgoing HTTP request
  * @param next - The next handler in the interceptor chain
@@ -27,9 +54,12 @@ import { Api } from './api'; // Adjust path if necessary
  * @remarks
  * The interceptor performs the following logic:
  * 1. Retrieves the current authentication token from the API service
- * 2. Checks if the request is targeting the application's API endpoints (/api)
+ * 2. Checks if the request is targeting the application's API endpoints ({@link API_BASE_URL})
  * 3. If authenticated and targeting API: clones request with Authorization header
  * 4. If not authenticated or external URL: passes request unchanged
+ * 5. If an authenticated request fails because the token is invalid (see {@link isInvalidTokenResponse}):
+ *    logs the user out and redirects to `/login?returnUrl=…`, so that the user returns to the
+ *    current page after logging in again. The error is passed on to the caller.
  * 
  * Authentication scheme used: "Token" (Django REST Framework TokenAuthentication)
  * For JWT authentication, this would typically be "Bearer" instead.
@@ -39,27 +69,45 @@ import { Api } from './api'; // Adjust path if necessary
 export const authInterceptor: HttpInterceptorFn = (req, next) => {
   // Inject the API service to access token management methods
   const apiService = inject(Api);
+  const router = inject(Router);
+  const apiBaseUrl = inject(API_BASE_URL);
   
   // Retrieve the current authentication token from storage
   const authToken = apiService.getToken();
 
   // Check if the request targets our API endpoints and a token is available
-  if (authToken && req.url.startsWith('/api')) {
+  let authReq = req;
+  if (authToken && isApiUrl(req.url, apiBaseUrl)) {
     // Clone the request since HTTP requests are immutable
     // Add the Authorization header with the Token authentication scheme
-    const authReq = req.clone({
+    authReq = req.clone({
       setHeaders: {
         // Using 'Token' scheme for Django REST Framework's TokenAuthentication
         // For JWT authentication, this would typically be 'Bearer ' + token
         Authorization: `Token ${authToken}`
       }
     });
-    
-    // Forward the modified request with authentication header
-    return next(authReq);
   }
 
   // For requests without token (e.g., login/register endpoints) or to external URLs,
-  // forward the original request unchanged
-  return next(req);
+  // the original request is forwarded unchanged
+  return next(authReq).pipe(
+    catchError((error: unknown) => {
+      // Only authenticated requests can fail because of an invalid token. The login check
+      // makes sure that parallel requests failing at the same time redirect only once.
+      if (
+        error instanceof HttpErrorResponse &&
+        authReq.headers.has('Authorization') &&
+        apiService.isLoggedIn() &&
+        isInvalidTokenResponse(error)
+      ) {
+        const returnUrl = router.url;
+        apiService.logout();
+        router.navigate(['/login'], {
+          queryParams: returnUrl.startsWith('/login') ? {} : { returnUrl },
+        });
+      }
+      return throwError(() => error);
+    })
+  );
 };
@@ -0,0 +1,87 @@
+import { TestBed } from '@angular/core/testing';
+import { provideHttpClient } from '@angular/common/http';
+
+import {
+  BoardPreferencesService,
+  DEFAULT_BOARD_COLUMNS,
+  isBoardColumnPreference,
+} from './board-preferences';
+import { Api } from './api';
+
+describe('BoardPreferencesService', () => {
+  let service: BoardPreferencesService;
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({ providers: [provideHttpClient()] });
+    spyOn(TestBed.inject(Api), 'getUsername').and.returnValue('anna');
+    service = TestBed.inject(BoardPreferencesService);
+  });
+
+  afterEach(() => {
+    localStorage.removeItem('boardColumns:anna');
+    localStorage.removeItem('boardColumns:ben');
+  });
+
+  it('should be created', () => {
+    expect(service).toBeTruthy();
+  });
+
+  it('should return the default columns if nothing is stored', () => {
+    expect(service.load()).toEqual(
+      DEFAULT_BOARD_COLUMNS.map((status) => ({ status, hidden: false, collapsed: false }))
+    );
+  });
+
+  it('should merge stored settings with new statuses', () => {
+    localStorage.setItem(
+      'boardColumns:anna',
+      JSON.stringify([
+        { status: 'OFFER', hidden: false, collapsed: true },
+        { status: 'ARCHIVED', hidden: false, collapsed: false },
+        { status: 'DRAFT', hidden: true, collapsed: false },
+      ])
+    );
+
+    const columns = service.load();
+
+    expect(columns.map((column) => column.status)).toEqual([
+      'OFFER',
+      'DRAFT',
+      'APPLIED',
+      'INTERVIEW',
+      'REJECTED',
+      'WITHDRAWN',
+    ]);
+    expect(columns[0].collapsed).toBeTrue();
+    expect(columns[1].hidden).toBeTrue();
+    expect(columns[2]).toEqual({ status: 'APPLIED', hidden: false, collapsed: false });
+  });
+
+  it('should fall back to the defaults for corrupted settings', () => {
+    for (const raw of ['{}', '"x"', 'null', '[1, {"status": "DRAFT"}]', '{not json']) {
+      localStorage.setItem('boardColumns:anna', raw);
+      expect(service.load().map((column) => column.status)).toEqual(DEFAULT_BOARD_COLUMNS);
+    }
+  });
+
+  it('should store the settings per user', () => {
+    const columns = service.load();
+    columns[0].hidden = true;
+    service.save(columns);
+
+    expect(localStorage.getItem('boardColumns:anna')).toContain('"hidden":true');
+    expect(localStorage.getItem('boardColumns:ben')).toBeNull();
+
+    service.reset();
+    expect(localStorage.getItem('boardColumns:anna')).toBeNull();
+  });
+});
+
+describe('isBoardColumnPreference', () => {
+  it('should only accept complete settings of known statuses', () => {
+    expect(isBoardColumnPreference({ status: 'APPLIED', hidden: false, collapsed: true })).toBeTrue();
+    expect(isBoardColumnPreference({ status: 'APPLIED', hidden: 'no', collapsed: true })).toBeFalse();
+    expect(isBoardColumnPreference({ status: 'UNKNOWN', hidden: false, collapsed: false })).toBeFalse();
+    expect(isBoardColumnPreference(null)).toBeFalse();
+  });
+});
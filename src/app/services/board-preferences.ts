@@ -0,0 +1,117 @@
+import { Injectable, inject } from '@angular/core';
+import { Api } from './api';
+import { ApplicationStatus } from '../models/api-interfaces';
+
+/**
+ * The display settings of a single Kanban column.
+ */
+export interface BoardColumnPreference {
+  status: ApplicationStatus;
+  /** If `true`, the column is not rendered on the board. */
+  hidden: boolean;
+  /** If `true`, the column is rendered as a narrow strip without cards. */
+  collapsed: boolean;
+}
+
+/**
+ * The default column order of the Kanban board. Every status gets a column.
+ */
+export const DEFAULT_BOARD_COLUMNS: ApplicationStatus[] = [
+  'DRAFT',
+  'APPLIED',
+  'INTERVIEW',
+  'OFFER',
+  'REJECTED',
+  'WITHDRAWN',
+];
+
+/**
+ * Checks whether a stored value is a valid column setting for a known status.
+ * @param value - An entry read from localStorage.
+ */
+export function isBoardColumnPreference(value: unknown): value is BoardColumnPreference {
+  if (typeof value !== 'object' || value === null) return false;
+  const column = value as Partial<BoardColumnPreference>;
+  return (
+    DEFAULT_BOARD_COLUMNS.includes(column.status as ApplicationStatus) &&
+    typeof column.hidden === 'boolean' &&
+    typeof column.collapsed === 'boolean'
+  );
+}
+
+/**
+ * Service for persisting the Kanban board column settings of the current user.
+ *
+ * The settings (column order, hidden and collapsed columns) are stored in localStorage
+ * under a key that contains the username, so that several users sharing a browser
+ * keep their own board layout.
+ *
+ * @example
+ * ```typescript
+ * const columns = this.boardPreferences.load();
+ * columns[0].collapsed = true;
+ * this.boardPreferences.save(columns);
+ * ```
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class BoardPreferencesService {
+  /** API service, used to determine the current user. */
+  private apiService = inject(Api);
+
+  /**
+   * Loads the column settings of the current user.
+   *
+   * Stored settings are merged with {@link DEFAULT_BOARD_COLUMNS}: invalid entries, unknown and
+   * repeated statuses are dropped, and statuses missing from the stored settings are appended
+   * as visible columns. Corrupted settings fall back to the default layout.
+   *
+   * @returns The column settings in display order.
+   */
+  load(): BoardColumnPreference[] {
+    let stored: unknown = [];
+    try {
+      const raw = localStorage.getItem(this.storageKey());
+      stored = raw ? JSON.parse(raw) : [];
+    } catch (err) {
+      console.error('Error reading board preferences:', err);
+    }
+
+    const columns: BoardColumnPreference[] = [];
+    for (const column of Array.isArray(stored) ? stored : []) {
+      if (isBoardColumnPreference(column) && !columns.some((c) => c.status === column.status)) {
+        columns.push({ status: column.status, hidden: column.hidden, collapsed: column.collapsed });
+      }
+    }
+    for (const status of DEFAULT_BOARD_COLUMNS) {
+      if (!columns.some((column) => column.status === status)) {
+        columns.push({ status, hidden: false, collapsed: false });
+      }
+    }
+    return columns;
+  }
+
+  /**
+   * Saves the column settings of the current user.
+   * @param columns - The column settings in display order.
+   */
+  save(columns: BoardColumnPreference[]): void {
+    localStorage.setItem(this.storageKey(), JSON.stringify(columns));
+  }
+
+  /**
+   * Removes the stored settings of the current user, restoring the default layout.
+   */
+  reset(): void {
+    localStorage.removeItem(this.storageKey());
+  }
+
+  /**
+   * Builds the localStorage key for the current user.
+   * @private
+   */
+  private storageKey(): string {
+    return `boardColumns:${this.apiService.getUsername() ?? 'default'}`;
+  }
+}
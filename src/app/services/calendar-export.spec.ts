@@ -0,0 +1,61 @@
+import { Application } from '../models/api-interfaces';
+import { applicationsToIcs, escapeIcsText, foldIcsLine } from './calendar-export';
+
+describe('calendar-export', () => {
+  const application: Application = {
+    id: 7,
+    job_title: 'Frontend Developer',
+    company: { id: 1, name: 'Tech Corp', website: null, industry: 'IT' },
+    contact: {
+      id: 3,
+      first_name: 'Anna',
+      last_name: 'Schmidt',
+      email: 'anna@example.com',
+      phone: '',
+      position: 'HR',
+      company: 1,
+    },
+    status: 'INTERVIEW',
+    status_display: 'Interview',
+    applied_on: '2024-03-01',
+    interview_on: '2024-03-12',
+    offer_on: null,
+    rejected_on: null,
+    follow_up_on: '2024-03-31',
+    job_posting_link: 'https://jobs.example.com/7',
+    salary_expectation: null,
+    created_at: '2024-03-01T10:00:00Z',
+    archived: false,
+    notes: [],
+  };
+
+  it('should escape special characters', () => {
+    expect(escapeIcsText('a;b,c\\d\ne')).toBe('a\\;b\\,c\\\\d\\ne');
+  });
+
+  it('should fold long lines at 75 octets', () => {
+    const folded = foldIcsLine('SUMMARY:' + 'ä'.repeat(60));
+    const lines = folded.split('\r\n');
+    expect(lines.length).toBe(2);
+    expect(new TextEncoder().encode(lines[0]).length).toBeLessThanOrEqual(75);
+    expect(lines[1].startsWith(' ')).toBeTrue();
+    expect(lines.map((line, i) => (i === 0 ? line : line.slice(1))).join('')).toBe('SUMMARY:' + 'ä'.repeat(60));
+  });
+
+  it('should create one all-day event per date', () => {
+    const ics = applicationsToIcs([application], new Date('2024-03-05T08:30:00.000Z'))!;
+    const unfolded = ics.replace(/\r\n /g, '');
+    expect(unfolded.match(/BEGIN:VEVENT/g)?.length).toBe(2);
+    expect(unfolded).toContain('UID:application-7-interview_on@application-tracker');
+    expect(unfolded).toContain('DTSTAMP:20240305T083000Z');
+    expect(unfolded).toContain('DTSTART;VALUE=DATE:20240331');
+    expect(unfolded).toContain('DTEND;VALUE=DATE:20240401');
+    expect(unfolded).toContain('SUMMARY:Interview: Frontend Developer bei Tech Corp');
+    expect(unfolded).toContain('Kontakt: Anna Schmidt (HR)\\nE-Mail: anna@example.com');
+    expect(unfolded).toContain('URL:https://jobs.example.com/7');
+  });
+
+  it('should return null if there are no dates to export', () => {
+    expect(applicationsToIcs([{ ...application, interview_on: null, follow_up_on: null }])).toBeNull();
+  });
+});
@@ -0,0 +1,140 @@
+import { Application } from '../models/api-interfaces';
+
+/** The date fields of an application that are exported as calendar events. */
+export type CalendarDateField = 'interview_on' | 'follow_up_on' | 'offer_on';
+
+/** The event title prefix for each exported date field. */
+const EVENT_TITLES: Record<CalendarDateField, string> = {
+  interview_on: 'Interview',
+  follow_up_on: 'Wiedervorlage',
+  offer_on: 'Angebot',
+};
+
+/** Product identifier written into the calendar file. */
+const PRODUCT_ID = '-//Application Tracker//Bewerbungen//DE';
+
+/** Maximum length of a content line in octets, as defined by RFC 5545. */
+const MAX_LINE_OCTETS = 75;
+
+/**
+ * Escapes text for use in an iCalendar property value.
+ * @param text - The text to escape.
+ * @returns The text with backslashes, semicolons, commas and line breaks escaped.
+ */
+export function escapeIcsText(text: string): string {
+  return text
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+/**
+ * Splits a content line into lines of at most 75 octets. Continuation lines start with a space.
+ * @param line - The content line.
+ * @returns The folded line, joined with CRLF.
+ */
+export function foldIcsLine(line: string): string {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = '';
+  for (const char of line) {
+    const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (encoder.encode(current + char).length > limit) {
+      parts.push(current);
+      current = '';
+    }
+    current += char;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+}
+
+/**
+ * Formats a date (`YYYY-MM-DD`) as an iCalendar date, optionally shifted by a number of days.
+ * @param date - The date.
+ * @param addDays - The number of days to add.
+ * @private
+ */
+function toIcsDate(date: string, addDays = 0): string {
+  const day = new Date(`${date.slice(0, 10)}T00:00:00Z`);
+  day.setUTCDate(day.getUTCDate() + addDays);
+  return day.toISOString().slice(0, 10).replace(/-/g, '');
+}
+
+/**
+ * Describes an application for the event description: company, contact and job posting.
+ * @param application - The application.
+ * @private
+ */
+function describeApplication(application: Application): string {
+  const { company, contact } = application;
+  const lines = [`Unternehmen: ${company.name}`];
+  if (contact) {
+    const name = `${contact.first_name} ${contact.last_name}`.trim();
+    lines.push(`Kontakt: ${contact.position ? `${name} (${contact.position})` : name}`);
+    if (contact.email) lines.push(`E-Mail: ${contact.email}`);
+    if (contact.phone) lines.push(`Telefon: ${contact.phone}`);
+  }
+  if (application.job_posting_link) {
+    lines.push(`Stellenanzeige: ${application.job_posting_link}`);
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Builds the all-day events of an application, one per set date field.
+ *
+ * @param application - The application.
+ * @param timestamp - The creation time of the events in iCalendar UTC format, e.g. `20240301T120000Z`.
+ * @returns The content lines of the VEVENT components, unfolded.
+ */
+export function applicationToEvents(application: Application, timestamp: string): string[] {
+  const lines: string[] = [];
+  for (const field of Object.keys(EVENT_TITLES) as CalendarDateField[]) {
+    const date = application[field];
+    if (!date) continue;
+
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:application-${application.id}-${field}@application-tracker`,
+      `DTSTAMP:${timestamp}`,
+      `DTSTART;VALUE=DATE:${toIcsDate(date)}`,
+      `DTEND;VALUE=DATE:${toIcsDate(date, 1)}`,
+      `SUMMARY:${escapeIcsText(`${EVENT_TITLES[field]}: ${application.job_title} bei ${application.company.name}`)}`,
+      `DESCRIPTION:${escapeIcsText(describeApplication(application))}`
+    );
+    if (/^https?:\/\//i.test(application.job_posting_link)) {
+      lines.push(`URL:${application.job_posting_link}`);
+    }
+    lines.push('END:VEVENT');
+  }
+  return lines;
+}
+
+/**
+ * Converts the interview, follow-up and offer dates of applications into an iCalendar file.
+ * Each date becomes an all-day event with the job title, the company, the contact and the
+ * link to the job posting. The UIDs are stable, so importing the file again updates the
+ * events instead of duplicating them.
+ *
+ * @param applications - The applications to export.
+ * @param now - The export time, used as the events' timestamp.
+ * @returns The content of the `.ics` file, or `null` if none of the applications has a date to export.
+ */
+export function applicationsToIcs(applications: Application[], now = new Date()): string | null {
+  const timestamp = now.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+  const events = applications.flatMap((application) => applicationToEvents(application, timestamp));
+  if (events.length === 0) return null;
+
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    ...events,
+    'END:VCALENDAR',
+  ];
+  return lines.map(foldIcsLine).join('\r\n') + '\r\n';
+}
@@ -0,0 +1,264 @@
+import { TestBed } from '@angular/core/testing';
+import { provideHttpClient } from '@angular/common/http';
+import { HttpTestingController, provideHttpClientTesting } from '@angular/common/http/testing';
+import { provideNoopAnimations } from '@angular/platform-browser/animations';
+import { provideToastr } from 'ngx-toastr';
+import { of } from 'rxjs';
+
+import { DataStoreService, groupByStatus } from './data-store';
+import { Application } from '../models/api-interfaces';
+import { Api } from './api';
+import { API_BASE_URL } from './api-config';
+import { OfflineQueueService } from './offline-queue';
+import { OfflineStorageService } from './offline-storage';
+import { buildApplication } from '../testing/application-fixtures';
+
+describe('DataStoreService', () => {
+  let service: DataStoreService;
+  let offlineQueue: OfflineQueueService;
+  let httpTesting: HttpTestingController;
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({
+      providers: [
+        provideHttpClient(),
+        provideHttpClientTesting(),
+        provideNoopAnimations(),
+        provideToastr(),
+        { provide: API_BASE_URL, useValue: '/api' },
+        { provide: OfflineStorageService, useValue: { get: () => of(undefined), set: () => of(undefined) } },
+      ],
+    });
+    service = TestBed.inject(DataStoreService);
+    offlineQueue = TestBed.inject(OfflineQueueService);
+    httpTesting = TestBed.inject(HttpTestingController);
+    offlineQueue.online.set(true);
+  });
+
+  afterEach(() => httpTesting.verify());
+
+  /** Fills the cache with the given applications. */
+  const loadCached = (applications: Application[]) => {
+    service.loadApplications().subscribe();
+    httpTesting.expectOne('/api/applications/').flush(applications);
+  };
+
+  /** Fails the request with the error the HTTP client reports when the server cannot be reached. */
+  const failOffline = (url: string) =>
+    httpTesting.expectOne(url).error(new ProgressEvent('error'), { status: 0, statusText: 'Unknown Error' });
+
+  it('should be created', () => {
+    expect(service).toBeTruthy();
+  });
+
+  it('should group applications by status, keeping empty groups', () => {
+    const applications = [
+      { id: 1, status: 'APPLIED' },
+      { id: 2, status: 'OFFER' },
+      { id: 3, status: 'APPLIED' },
+    ] as Application[];
+
+    const groups = groupByStatus(applications, ['APPLIED', 'INTERVIEW']);
+
+    expect(groups['APPLIED'].map((app) => app.id)).toEqual([1, 3]);
+    expect(groups['INTERVIEW']).toEqual([]);
+    expect(groups['OFFER']).toBeUndefined();
+  });
+
+  describe('loading', () => {
+    it('should serve cached applications without a new request', () => {
+      loadCached([buildApplication({ id: 1 })]);
+
+      let loaded: Application[] = [];
+      service.loadApplications().subscribe((applications) => (loaded = applications));
+
+      httpTesting.expectNone('/api/applications/');
+      expect(loaded.map((app) => app.id)).toEqual([1]);
+    });
+
+    it('should refresh stale applications in the background', () => {
+      const now = Date.now();
+      const clock = spyOn(Date, 'now').and.returnValue(now);
+      loadCached([buildApplication({ id: 1 })]);
+
+      clock.and.returnValue(now + 60_000);
+      let loaded: Application[] = [];
+      service.loadApplications().subscribe((applications) => (loaded = applications));
+      expect(loaded.map((app) => app.id)).toEqual([1]);
+
+      httpTesting.expectOne('/api/applications/').flush([buildApplication({ id: 1 }), buildApplication({ id: 2 })]);
+      expect(service.applications().map((app) => app.id)).toEqual([1, 2]);
+    });
+
+    it('should put a fetched application into the cache', () => {
+      loadCached([buildApplication({ id: 1 })]);
+
+      service.loadApplication(1).subscribe();
+      httpTesting.expectOne('/api/applications/1/').flush(buildApplication({ id: 1, job_title: 'Tech Lead' }));
+
+      expect(service.applications()[0].job_title).toBe('Tech Lead');
+    });
+  });
+
+  describe('updateApplication', () => {
+    const payload = { job_title: 'Tech Lead', company_id: 1, status: 'APPLIED' as const };
+
+    it('should show the change right away and then the saved version', () => {
+      loadCached([buildApplication({ id: 1 })]);
+
+      service.updateApplication(1, payload).subscribe();
+      expect(service.applications()[0].job_title).toBe('Tech Lead');
+
+      httpTesting
+        .expectOne({ method: 'PUT', url: '/api/applications/1/' })
+        .flush(buildApplication({ id: 1, job_title: 'Tech Lead', status_display: 'Saved' }));
+      expect(service.applications()[0].status_display).toBe('Saved');
+    });
+
+    it('should restore the previous version if saving fails', () => {
+      loadCached([buildApplication({ id: 1 })]);
+      let failed = false;
+
+      service.updateApplication(1, payload).subscribe({ error: () => (failed = true) });
+      httpTesting
+        .expectOne({ method: 'PUT', url: '/api/applications/1/' })
+        .flush('Invalid', { status: 400, statusText: 'Bad Request' });
+
+      expect(failed).toBeTrue();
+      expect(service.applications()[0].job_title).toBe('Frontend Developer');
+      expect(offlineQueue.queue()).toEqual([]);
+    });
+
+    it('should queue the change if the server cannot be reached', () => {
+      loadCached([buildApplication({ id: 1 })]);
+
+      service.updateApplication(1, payload).subscribe();
+      failOffline('/api/applications/1/');
+
+      expect(service.applications()[0].job_title).toBe('Tech Lead');
+      expect(offlineQueue.queue().map((entry) => entry.type)).toEqual(['updateApplication']);
+    });
+  });
+
+  describe('patchApplication', () => {
+    it('should restore the previous version if the optimistic change fails', () => {
+      const application = buildApplication({ id: 1 });
+      loadCached([application]);
+
+      service.patchApplication(1, { status: 'OFFER' }, { ...application, status: 'OFFER' }).subscribe({
+        error: () => undefined,
+      });
+      expect(service.applications()[0].status).toBe('OFFER');
+
+      httpTesting
+        .expectOne({ method: 'PATCH', url: '/api/applications/1/' })
+        .flush('Invalid', { status: 400, statusText: 'Bad Request' });
+      expect(service.applications()[0].status).toBe('APPLIED');
+    });
+
+    it('should queue the change as a complete update if the server cannot be reached', () => {
+      const application = buildApplication({ id: 1 });
+      loadCached([application]);
+
+      service.patchApplication(1, { status: 'OFFER' }, { ...application, status: 'OFFER' }).subscribe();
+      failOffline('/api/applications/1/');
+      // The complete update is tried once more before it is queued
+      failOffline('/api/applications/1/');
+
+      const [queued] = offlineQueue.queue();
+      expect(queued.type).toBe('updateApplication');
+      expect(queued.type === 'updateApplication' && queued.payload.job_title).toBe('Frontend Developer');
+      expect(queued.type === 'updateApplication' && queued.payload.status).toBe('OFFER');
+      expect(service.applications()[0].status).toBe('OFFER');
+    });
+
+    it('should queue the change right away while offline', () => {
+      loadCached([buildApplication({ id: 1 })]);
+      offlineQueue.online.set(false);
+
+      service.patchApplication(1, { archived: true }).subscribe();
+
+      httpTesting.expectNone('/api/applications/1/');
+      expect(offlineQueue.queue().length).toBe(1);
+      expect(service.applications()[0].archived).toBeTrue();
+    });
+  });
+
+  describe('offline queue', () => {
+    beforeEach(() => spyOn(TestBed.inject(Api), 'isLoggedIn').and.returnValue(true));
+
+    it('should replace an application created offline by the synced one', () => {
+      loadCached([]);
+      offlineQueue.online.set(false);
+      service.createApplication({ job_title: 'Developer', company_id: 1, status: 'DRAFT' }).subscribe();
+      expect(service.applications()[0].id).toBeLessThan(0);
+
+      offlineQueue.online.set(true);
+      offlineQueue.sync();
+      httpTesting
+        .expectOne({ method: 'POST', url: '/api/applications/' })
+        .flush(buildApplication({ id: 7, job_title: 'Developer' }));
+
+      expect(service.applications().map((app) => app.id)).toEqual([7]);
+    });
+
+    it('should restore the server version when a queued update is discarded', () => {
+      loadCached([buildApplication({ id: 1 })]);
+      offlineQueue.online.set(false);
+      service.updateApplication(1, { job_title: 'Tech Lead', company_id: 1, status: 'APPLIED' }).subscribe();
+      expect(service.applications()[0].job_title).toBe('Tech Lead');
+
+      offlineQueue.online.set(true);
+      offlineQueue.discard(offlineQueue.queue()[0].id);
+      httpTesting.expectOne('/api/applications/1/').flush(buildApplication({ id: 1 }));
+
+      expect(service.applications()[0].job_title).toBe('Frontend Developer');
+    });
+
+    it('should remove an application created offline when its creation is discarded', () => {
+      loadCached([]);
+      offlineQueue.online.set(false);
+      service.createApplication({ job_title: 'Developer', company_id: 1, status: 'DRAFT' }).subscribe();
+
+      offlineQueue.discard(offlineQueue.queue()[0].id);
+
+      expect(service.applications()).toEqual([]);
+    });
+  });
+
+  describe('deleteApplication', () => {
+    it('should discard the queued creation of an application created offline', () => {
+      loadCached([]);
+      offlineQueue.online.set(false);
+      let created: Application | undefined;
+      service
+        .createApplication({ job_title: 'Developer', company_id: 3, status: 'DRAFT' })
+        .subscribe((application) => (created = application));
+      expect(offlineQueue.queue().length).toBe(1);
+
+      service.deleteApplication(created!.id).subscribe();
+
+      httpTesting.expectNone(() => true);
+      expect(offlineQueue.queue()).toEqual([]);
+      expect(service.applications()).toEqual([]);
+    });
+
+    it('should delete saved applications on the server', () => {
+      loadCached([buildApplication({ id: 1 }), buildApplication({ id: 2 })]);
+
+      service.deleteApplication(1).subscribe();
+      httpTesting.expectOne({ method: 'DELETE', url: '/api/applications/1/' }).flush(null);
+
+      expect(service.applications().map((app) => app.id)).toEqual([2]);
+    });
+
+    it('should only allow deleting saved applications while online', () => {
+      offlineQueue.online.set(false);
+      expect(service.canDeleteApplication(1)).toBeFalse();
+      expect(service.canDeleteApplication(-1)).toBeTrue();
+
+      offlineQueue.online.set(true);
+      expect(service.canDeleteApplication(1)).toBeTrue();
+    });
+  });
+});
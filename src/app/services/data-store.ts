@@ -0,0 +1,1032 @@
+import { Injectable, WritableSignal, computed, effect, inject, signal } from '@angular/core';
+import { HttpEvent, HttpEventType } from '@angular/common/http';
+import { Observable, of, throwError } from 'rxjs';
+import { catchError, finalize, shareReplay, switchMap, tap } from 'rxjs/operators';
+import { Api } from './api';
+import { OfflineStorageService } from './offline-storage';
+import {
+  OfflineQueueService,
+  QueuedMutation,
+  SyncedMutation,
+  isOfflineError,
+  isTemporaryId,
+} from './offline-queue';
+import {
+  Application,
+  Company,
+  Contact,
+  CreateApplicationPayload,
+  CreateCompanyPayload,
+  CreateContactPayload,
+  CreateInterviewPayload,
+  CreateNotePayload,
+  CreateStatusChangePayload,
+  DocumentFile,
+  DocumentType,
+  Interview,
+  Note,
+  STATUS_DISPLAY,
+  StatusChange,
+} from '../models/api-interfaces';
+import { DEFAULT_BOARD_COLUMNS } from './board-preferences';
+import { isFollowUpDue } from '../shared/dates';
+
+/** The collections cached by the {@link DataStoreService}. */
+type Collection = 'applications' | 'companies' | 'contacts' | 'documents';
+
+/** The collections that are kept in the offline storage for use without a connection. */
+const OFFLINE_COLLECTIONS: Collection[] = ['applications', 'companies'];
+
+/**
+ * Cached data older than this is refreshed in the background when it is requested again.
+ */
+const STALE_AFTER_MS = 30_000;
+
+/**
+ * Groups applications by their status.
+ *
+ * @param applications - The applications to group; their order is kept within each group.
+ * @param statuses - The statuses to create groups for. Groups are created even if they are empty,
+ * and applications with other statuses are left out.
+ * @returns An object mapping each status to its applications.
+ */
+export function groupByStatus(
+  applications: Application[],
+  statuses: readonly string[]
+): Record<string, Application[]> {
+  const groups: Record<string, Application[]> = {};
+  for (const status of statuses) {
+    groups[status] = [];
+  }
+  for (const app of applications) {
+    groups[app.status]?.push(app);
+  }
+  return groups;
+}
+
+/**
+ * Builds the payload that saves an application unchanged, e.g. to undo an update.
+ * @param application - The application to convert.
+ * @returns The complete application data with IDs instead of nested objects.
+ */
+export function toApplicationPayload(application: Application): CreateApplicationPayload {
+  return {
+    job_title: application.job_title,
+    company_id: application.company.id,
+    contact_id: application.contact?.id ?? null,
+    status: application.status,
+    applied_on: application.applied_on,
+    interview_on: application.interview_on,
+    offer_on: application.offer_on,
+    rejected_on: application.rejected_on,
+    follow_up_on: application.follow_up_on,
+    job_posting_link: application.job_posting_link,
+    salary_expectation: application.salary_expectation,
+    archived: application.archived,
+  };
+}
+
+/**
+ * Signal-based store that caches applications, companies and contacts for all views.
+ *
+ * Views read the cached data through signals and selectors instead of fetching it on every
+ * navigation. The `load*` methods return cached data immediately and refresh it in the
+ * background once it is older than {@link STALE_AFTER_MS}. All write operations go through
+ * the store, which applies the server's response to the cache, so that every view shows
+ * the change without reloading. The cache is cleared on logout.
+ *
+ * Applications and companies are also kept in the {@link OfflineStorageService} and used
+ * when the server cannot be reached. While offline, creating and updating applications and
+ * creating companies is queued in the {@link OfflineQueueService}; the changes are shown
+ * immediately, with temporary IDs for new entities, and replaced by the server's response
+ * once the queue has been synced.
+ *
+ * @example
+ * ```typescript
+ * private store = inject(DataStoreService);
+ *
+ * ngOnInit(): void {
+ *   this.store.loadApplications().subscribe();
+ * }
+ * ```
+ * ```html
+ * <span>{{ store.dueFollowUps().length }} follow-ups due</span>
+ * ```
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class DataStoreService {
+  private api = inject(Api);
+  private offlineStorage = inject(OfflineStorageService);
+  private offlineQueue = inject(OfflineQueueService);
+
+  // =================================================================================
+  // STATE
+  // =================================================================================
+
+  /** Cached applications, or `null` if they have not been loaded yet. */
+  private applicationsState = signal<Application[] | null>(null);
+
+  /** Cached companies, or `null` if they have not been loaded yet. */
+  private companiesState = signal<Company[] | null>(null);
+
+  /** Cached contacts, or `null` if they have not been loaded yet. */
+  private contactsState = signal<Contact[] | null>(null);
+
+  /** Cached documents of the document library, or `null` if they have not been loaded yet. */
+  private documentsState = signal<DocumentFile[] | null>(null);
+
+  /** IDs of applications that are about to be deleted and are hidden in all views. */
+  private pendingDeletionIds = signal<ReadonlySet<number>>(new Set());
+
+  /** Time of the last successful fetch per collection, used to decide when to refresh. */
+  private fetchedAt: Record<Collection, number> = {
+    applications: 0,
+    companies: 0,
+    contacts: 0,
+    documents: 0,
+  };
+
+  /** Requests that are currently running, shared between concurrent callers. */
+  private inFlight: Partial<Record<Collection, Observable<unknown>>> = {};
+
+  // =================================================================================
+  // SELECTORS
+  // =================================================================================
+
+  /** All cached applications, including archived ones. */
+  readonly applications = computed(() =>
+    (this.applicationsState() ?? []).filter((app) => !this.pendingDeletionIds().has(app.id))
+  );
+
+  /** All cached companies, sorted by name. */
+  readonly companies = computed(() =>
+    [...(this.companiesState() ?? [])].sort((a, b) => a.name.localeCompare(b.name, 'de'))
+  );
+
+  /** All cached contacts. */
+  readonly contacts = computed(() => this.contactsState() ?? []);
+
+  /** All cached documents of the document library, newest first. */
+  readonly documents = computed(() =>
+    [...(this.documentsState() ?? [])].sort((a, b) => b.uploaded_at.localeCompare(a.uploaded_at))
+  );
+
+  /** Whether the applications have been loaded at least once. */
+  readonly applicationsLoaded = computed(() => this.applicationsState() !== null);
+
+  /** The applications shown on the board, i.e. all applications that are not archived. */
+  readonly activeApplications = computed(() => this.applications().filter((app) => !app.archived));
+
+  /** Archived applications, newest first. */
+  readonly archivedApplications = computed(() =>
+    this.applications()
+      .filter((app) => app.archived)
+      .sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime())
+  );
+
+  /** Active applications grouped by status. */
+  readonly applicationsByStatus = computed(() =>
+    groupByStatus(this.activeApplications(), DEFAULT_BOARD_COLUMNS)
+  );
+
+  /** Active applications whose follow-up date is today or in the past. */
+  readonly dueFollowUps = computed(() =>
+    this.activeApplications().filter((app) => isFollowUpDue(app.follow_up_on))
+  );
+
+  constructor() {
+    // Never show one user's data to the next one
+    this.api.isLoggedIn$.subscribe((isLoggedIn) => {
+      if (!isLoggedIn) this.clear();
+    });
+
+    // Keep the last known data for the next visit without a connection
+    effect(() => {
+      const applications = this.applicationsState();
+      if (applications) this.offlineStorage.set('applications', applications).subscribe();
+    });
+    effect(() => {
+      const companies = this.companiesState();
+      if (companies) this.offlineStorage.set('companies', companies).subscribe();
+    });
+
+    this.offlineQueue.synced$.subscribe((synced) => this.applySynced(synced));
+    this.offlineQueue.discarded$.subscribe((mutation) => this.revertDiscarded(mutation));
+  }
+
+  // =================================================================================
+  // LOADING
+  // =================================================================================
+
+  /**
+   * Loads all applications, from the cache if possible.
+   * @param force - If `true`, the cache is bypassed and the applications are fetched from the server.
+   * @returns An Observable emitting the applications once.
+   */
+  loadApplications(force = false): Observable<Application[]> {
+    return this.load('applications', this.applicationsState, () => this.api.getApplications(), force);
+  }
+
+  /**
+   * Loads all companies, from the cache if possible.
+   * @param force - If `true`, the cache is bypassed and the companies are fetched from the server.
+   * @returns An Observable emitting the companies once.
+   */
+  loadCompanies(force = false): Observable<Company[]> {
+    return this.load('companies', this.companiesState, () => this.api.getCompanies(), force);
+  }
+
+  /**
+   * Loads all contacts, from the cache if possible.
+   * @param force - If `true`, the cache is bypassed and the contacts are fetched from the server.
+   * @returns An Observable emitting the contacts once.
+   */
+  loadContacts(force = false): Observable<Contact[]> {
+    return this.load('contacts', this.contactsState, () => this.api.getContacts(), force);
+  }
+
+  /**
+   * Loads the document library, from the cache if possible.
+   * @param force - If `true`, the cache is bypassed and the documents are fetched from the server.
+   * @returns An Observable emitting the documents once.
+   */
+  loadDocuments(force = false): Observable<DocumentFile[]> {
+    return this.load('documents', this.documentsState, () => this.api.getDocuments(), force);
+  }
+
+  /**
+   * Fetches a single application from the server and updates it in the cache.
+   * While offline, and for applications created offline, the cached version is returned.
+   * @param id - The ID of the application.
+   * @returns An Observable emitting the up-to-date application.
+   */
+  loadApplication(id: number): Observable<Application> {
+    const cached = () => this.applicationsState()?.find((app) => app.id === id);
+    const local = cached();
+    if (local && (isTemporaryId(id) || !this.offlineQueue.online())) {
+      return of(local);
+    }
+
+    return this.api.getApplicationById(String(id)).pipe(
+      tap((application) => this.putApplication(application)),
+      catchError((err) => {
+        const fallback = cached();
+        return isOfflineError(err) && fallback ? of(fallback) : throwError(() => err);
+      })
+    );
+  }
+
+  /**
+   * Removes all cached data, e.g. on logout.
+   */
+  clear(): void {
+    this.applicationsState.set(null);
+    this.companiesState.set(null);
+    this.contactsState.set(null);
+    this.documentsState.set(null);
+    this.pendingDeletionIds.set(new Set());
+    this.fetchedAt = { applications: 0, companies: 0, contacts: 0, documents: 0 };
+  }
+
+  // =================================================================================
+  // APPLICATIONS
+  // =================================================================================
+
+  /**
+   * Creates an application and adds it to the cache. Queued while offline.
+   * @param payload - The data of the new application.
+   */
+  createApplication(payload: CreateApplicationPayload): Observable<Application> {
+    return this.queueWhenOffline(
+      () => this.api.createApplication(payload),
+      () => {
+        const application = this.toLocalApplication(this.offlineQueue.nextTemporaryId(), payload);
+        this.offlineQueue.enqueue({ type: 'createApplication', entityId: application.id, payload });
+        return application;
+      },
+      isTemporaryId(payload.company_id)
+    ).pipe(tap((application) => this.putApplication(application)));
+  }
+
+  /**
+   * Replaces an application and updates it in the cache. Queued while offline.
+   *
+   * The change is shown immediately and replaced by the server's response. If the request
+   * fails, the previous version is restored.
+   *
+   * @param id - The ID of the application.
+   * @param payload - The complete application data.
+   */
+  updateApplication(id: number, payload: CreateApplicationPayload): Observable<Application> {
+    const previous = this.applicationsState()?.find((app) => app.id === id);
+    if (previous) this.putApplication(this.toLocalApplication(id, payload, previous));
+
+    return this.queueWhenOffline(
+      () => this.api.updateApplication(String(id), payload),
+      () => {
+        this.offlineQueue.enqueue({
+          type: 'updateApplication',
+          entityId: id,
+          payload,
+          base: previous ?? null,
+        });
+        return this.toLocalApplication(id, payload, previous);
+      },
+      isTemporaryId(id) || isTemporaryId(payload.company_id)
+    ).pipe(
+      tap((application) => this.putApplication(application)),
+      catchError((err) => {
+        if (previous) this.putApplication(previous);
+        return throwError(() => err);
+      })
+    );
+  }
+
+  /**
+   * Partially updates an application and updates it in the cache.
+   *
+   * If an optimistic version is given, it is shown immediately and replaced by the
+   * server's response. If the request fails, the previous version is restored.
+   * While offline, and for applications created offline, the change is saved as a complete
+   * update with {@link updateApplication}, so it is queued like changes made in the form.
+   *
+   * @param id - The ID of the application.
+   * @param payload - The fields to change.
+   * @param optimistic - The expected result of the change, shown while the request is running.
+   */
+  patchApplication(
+    id: number,
+    payload: Partial<CreateApplicationPayload>,
+    optimistic?: Application
+  ): Observable<Application> {
+    const previous = this.applicationsState()?.find((app) => app.id === id);
+    // Partial changes cannot be queued, so they are merged into the complete application data
+    const queueAsUpdate = (base: Application) =>
+      this.updateApplication(id, { ...toApplicationPayload(base), ...payload });
+
+    if (previous && (isTemporaryId(id) || !this.offlineQueue.online())) {
+      return queueAsUpdate(previous);
+    }
+    if (optimistic) this.putApplication(optimistic);
+
+    return this.api.patchApplication(String(id), payload).pipe(
+      tap((application) => this.putApplication(application)),
+      catchError((err) => {
+        if (optimistic && previous) this.putApplication(previous);
+        if (isOfflineError(err) && previous) return queueAsUpdate(previous);
+        return throwError(() => err);
+      })
+    );
+  }
+
+  /**
+   * Archives or restores an application. The change is shown immediately and undone if it fails.
+   * @param application - The application to change.
+   * @param archived - `true` to archive the application, `false` to restore it.
+   */
+  setApplicationArchived(application: Application, archived: boolean): Observable<Application> {
+    return this.patchApplication(application.id, { archived }, { ...application, archived });
+  }
+
+  /**
+   * Hides an application in all views while its deletion can still be undone.
+   * @param id - The ID of the application.
+   */
+  markPendingDeletion(id: number): void {
+    this.pendingDeletionIds.update((ids) => new Set(ids).add(id));
+  }
+
+  /**
+   * Shows an application again after its deletion was undone or failed.
+   * @param id - The ID of the application.
+   */
+  clearPendingDeletion(id: number): void {
+    this.pendingDeletionIds.update((ids) => {
+      const next = new Set(ids);
+      next.delete(id);
+      return next;
+    });
+  }
+
+  /**
+   * Checks whether an application is waiting to be deleted.
+   * @param id - The ID of the application.
+   */
+  isPendingDeletion(id: number): boolean {
+    return this.pendingDeletionIds().has(id);
+  }
+
+  /**
+   * Records a status transition in the history of an application. Queued while offline,
+   * and behind the creation of applications that have not been synced yet.
+   * @param applicationId - The ID of the application.
+   * @param payload - The transition to record.
+   * @returns An Observable emitting the recorded transition, or `null` if it has been queued.
+   */
+  recordStatusChange(
+    applicationId: number,
+    payload: CreateStatusChangePayload
+  ): Observable<StatusChange | null> {
+    return this.queueWhenOffline<StatusChange | null>(
+      () => this.api.createStatusChange(applicationId, payload),
+      () => {
+        this.offlineQueue.enqueue({ type: 'createStatusChange', entityId: applicationId, payload });
+        return null;
+      },
+      isTemporaryId(applicationId)
+    );
+  }
+
+  /**
+   * Checks whether an application can be deleted. Deletions are not queued, so saved
+   * applications can only be deleted while online.
+   * @param id - The ID of the application.
+   */
+  canDeleteApplication(id: number): boolean {
+    return this.offlineQueue.online() || isTemporaryId(id);
+  }
+
+  /**
+   * Deletes an application on the server and removes it from the cache.
+   * An application created offline only exists in the queue, so its creation and the
+   * changes queued for it are discarded instead.
+   * @param id - The ID of the application.
+   */
+  deleteApplication(id: number): Observable<void> {
+    if (isTemporaryId(id)) {
+      const creation = this.offlineQueue
+        .queue()
+        .find((entry) => entry.type === 'createApplication' && entry.entityId === id);
+      if (creation) this.offlineQueue.discard(creation.id);
+      this.applicationsState.update((apps) => apps && apps.filter((app) => app.id !== id));
+      this.clearPendingDeletion(id);
+      return of(undefined);
+    }
+
+    return this.api.deleteApplication(String(id)).pipe(
+      tap(() => {
+        this.applicationsState.update((apps) => apps && apps.filter((app) => app.id !== id));
+        this.clearPendingDeletion(id);
+      })
+    );
+  }
+
+  // =================================================================================
+  // COMPANIES
+  // =================================================================================
+
+  /**
+   * Creates a company and adds it to the cache. Queued while offline.
+   * @param payload - The data of the new company.
+   */
+  createCompany(payload: CreateCompanyPayload): Observable<Company> {
+    return this.queueWhenOffline(
+      () => this.api.createCompany(payload),
+      () => {
+        const company: Company = {
+          id: this.offlineQueue.nextTemporaryId(),
+          name: payload.name,
+          website: payload.website ?? null,
+          industry: payload.industry,
+        };
+        this.offlineQueue.enqueue({ type: 'createCompany', entityId: company.id, payload });
+        return company;
+      }
+    ).pipe(tap((company) => this.putCompany(company)));
+  }
+
+  /**
+   * Updates a company in the cache, including the company data embedded in its applications.
+   * The change is shown immediately and undone if the request fails.
+   * @param id - The ID of the company.
+   * @param payload - The fields to change.
+   */
+  updateCompany(id: number, payload: Partial<CreateCompanyPayload>): Observable<Company> {
+    const previous = this.companiesState()?.find((company) => company.id === id);
+    if (previous) this.putCompany({ ...previous, ...payload });
+
+    return this.api.updateCompany(id, payload).pipe(
+      tap((company) => this.putCompany(company)),
+      catchError((err) => {
+        if (previous) this.putCompany(previous);
+        return throwError(() => err);
+      })
+    );
+  }
+
+  // =================================================================================
+  // CONTACTS
+  // =================================================================================
+
+  /**
+   * Creates a contact and adds it to the cache.
+   * @param payload - The data of the new contact.
+   */
+  createContact(payload: CreateContactPayload): Observable<Contact> {
+    return this.api.createContact(payload).pipe(tap((contact) => this.putContact(contact)));
+  }
+
+  /**
+   * Updates a contact in the cache, including the contact data embedded in its application.
+   * The change is shown immediately and undone if the request fails.
+   * @param id - The ID of the contact.
+   * @param payload - The fields to change.
+   */
+  updateContact(id: number, payload: Partial<Contact>): Observable<Contact> {
+    const previous = this.contactsState()?.find((contact) => contact.id === id);
+    if (previous) this.putContact({ ...previous, ...payload });
+
+    return this.api.updateContact(id, payload).pipe(
+      tap((contact) => this.putContact(contact)),
+      catchError((err) => {
+        if (previous) this.putContact(previous);
+        return throwError(() => err);
+      })
+    );
+  }
+
+  /**
+   * Deletes a contact and removes it from the cache and from the applications it was linked to.
+   * @param id - The ID of the contact.
+   */
+  deleteContact(id: number): Observable<void> {
+    return this.api.deleteContact(id).pipe(
+      tap(() => {
+        this.contactsState.update((contacts) => contacts && contacts.filter((c) => c.id !== id));
+        this.applicationsState.update(
+          (apps) => apps && apps.map((app) => (app.contact?.id === id ? { ...app, contact: null } : app))
+        );
+      })
+    );
+  }
+
+  // =================================================================================
+  // NOTES
+  // =================================================================================
+
+  /**
+   * Creates a note and adds it to its application in the cache.
+   * @param payload - The application ID and the text of the new note.
+   */
+  createNote(payload: CreateNotePayload): Observable<Note> {
+    return this.api
+      .createNote(payload)
+      .pipe(tap((note) => this.updateNotes(payload.application, (notes) => upsert(notes, note))));
+  }
+
+  /**
+   * Changes the text of a note and replaces it in its application in the cache.
+   * @param applicationId - The ID of the application the note belongs to.
+   * @param id - The ID of the note.
+   * @param text - The new text.
+   */
+  updateNote(applicationId: number, id: number, text: string): Observable<Note> {
+    return this.api
+      .updateNote(id, text)
+      .pipe(tap((note) => this.updateNotes(applicationId, (notes) => upsert(notes, note))));
+  }
+
+  /**
+   * Deletes a note and removes it from its application in the cache.
+   * @param applicationId - The ID of the application the note belongs to.
+   * @param id - The ID of the note.
+   */
+  deleteNote(applicationId: number, id: number): Observable<void> {
+    return this.api
+      .deleteNote(id)
+      .pipe(tap(() => this.updateNotes(applicationId, (notes) => notes.filter((note) => note.id !== id))));
+  }
+
+  // =================================================================================
+  // INTERVIEWS
+  // =================================================================================
+
+  /**
+   * Creates an interview and adds it to its application in the cache.
+   * @param payload - The data of the new interview.
+   */
+  createInterview(payload: CreateInterviewPayload): Observable<Interview> {
+    return this.api.createInterview(payload).pipe(tap((interview) => this.putInterview(interview)));
+  }
+
+  /**
+   * Updates an interview and replaces it in its application in the cache.
+   * @param id - The ID of the interview.
+   * @param payload - The fields to change.
+   */
+  updateInterview(id: number, payload: Partial<CreateInterviewPayload>): Observable<Interview> {
+    return this.api.updateInterview(id, payload).pipe(tap((interview) => this.putInterview(interview)));
+  }
+
+  /**
+   * Deletes an interview and removes it from its application in the cache.
+   * @param interview - The interview to delete.
+   */
+  deleteInterview(interview: Interview): Observable<void> {
+    return this.api.deleteInterview(interview.id).pipe(
+      tap(() =>
+        this.updateInterviews(interview.application, (interviews) =>
+          interviews.filter((i) => i.id !== interview.id)
+        )
+      )
+    );
+  }
+
+  // =================================================================================
+  // DOCUMENTS
+  // =================================================================================
+
+  /**
+   * Uploads a file to the document library and, if an application is given, attaches it.
+   * Once the upload has finished, the document is added to the cache.
+   * @param file - The file to upload.
+   * @param documentType - The kind of document.
+   * @param applicationId - The ID of the application to attach the file to, if any.
+   * @returns An Observable of the HTTP events, including the upload progress.
+   */
+  uploadDocument(
+    file: File,
+    documentType: DocumentType,
+    applicationId?: number
+  ): Observable<HttpEvent<DocumentFile>> {
+    const upload$ =
+      applicationId === undefined
+        ? this.api.uploadDocument(file, documentType)
+        : this.api.uploadApplicationDocument(applicationId, file, documentType);
+
+    return upload$.pipe(
+      tap((event) => {
+        if (event.type !== HttpEventType.Response || !event.body) return;
+        const document = event.body;
+        this.putDocument(document);
+        if (applicationId !== undefined) {
+          this.updateDocuments(applicationId, (documents) => upsert(documents, document));
+        }
+      })
+    );
+  }
+
+  /**
+   * Attaches a document from the library to an application in the cache.
+   * @param applicationId - The ID of the application.
+   * @param documentId - The ID of the document.
+   */
+  attachDocument(applicationId: number, documentId: number): Observable<DocumentFile> {
+    return this.api
+      .attachDocument(applicationId, documentId)
+      .pipe(tap((document) => this.updateDocuments(applicationId, (documents) => upsert(documents, document))));
+  }
+
+  /**
+   * Removes a document from an application in the cache. The document stays in the library.
+   * @param applicationId - The ID of the application.
+   * @param documentId - The ID of the document.
+   */
+  detachDocument(applicationId: number, documentId: number): Observable<void> {
+    return this.api.detachDocument(applicationId, documentId).pipe(
+      tap(() =>
+        this.updateDocuments(applicationId, (documents) => documents.filter((d) => d.id !== documentId))
+      )
+    );
+  }
+
+  // =================================================================================
+  // CACHE HELPERS
+  // =================================================================================
+
+  /**
+   * Returns cached data or fetches it, refreshing stale data in the background.
+   * @param key - The collection to load.
+   * @param state - The signal holding the cached collection.
+   * @param request - Creates the request fetching the collection.
+   * @param force - Whether to bypass the cache.
+   * @private
+   */
+  private load<T extends { id: number }>(
+    key: Collection,
+    state: WritableSignal<T[] | null>,
+    request: () => Observable<T[]>,
+    force: boolean
+  ): Observable<T[]> {
+    const cached = state();
+    if (cached === null || force) {
+      return this.fetch(key, state, request);
+    }
+
+    if (Date.now() - this.fetchedAt[key] > STALE_AFTER_MS) {
+      this.fetch(key, state, request).subscribe({
+        error: (err) => console.error(`Error refreshing ${key}:`, err),
+      });
+    }
+    return of(cached);
+  }
+
+  /**
+   * Fetches a collection and stores it in the cache. Concurrent calls share one request.
+   * Entities created offline are kept until they have been synced. If the server cannot be
+   * reached, the cached data or the data kept in the offline storage is used instead.
+   * @param key - The collection to fetch.
+   * @param state - The signal holding the cached collection.
+   * @param request - Creates the request fetching the collection.
+   * @private
+   */
+  private fetch<T extends { id: number }>(
+    key: Collection,
+    state: WritableSignal<T[] | null>,
+    request: () => Observable<T[]>
+  ): Observable<T[]> {
+    const running = this.inFlight[key] as Observable<T[]> | undefined;
+    if (running) return running;
+
+    const request$ = request().pipe(
+      tap((items) => {
+        const local = (state() ?? []).filter((item) => isTemporaryId(item.id));
+        state.set([...items, ...local]);
+        this.fetchedAt[key] = Date.now();
+      }),
+      catchError((err) =>
+        isOfflineError(err) ? this.restoreOffline(key, state, err) : throwError(() => err)
+      ),
+      finalize(() => delete this.inFlight[key]),
+      shareReplay(1)
+    );
+    this.inFlight[key] = request$;
+    return request$;
+  }
+
+  /**
+   * Returns the cached collection, or the one kept in the offline storage, if the server
+   * cannot be reached.
+   * @param key - The collection that could not be fetched.
+   * @param state - The signal holding the cached collection.
+   * @param error - The error of the failed request, rethrown if no data is available.
+   * @private
+   */
+  private restoreOffline<T>(
+    key: Collection,
+    state: WritableSignal<T[] | null>,
+    error: unknown
+  ): Observable<T[]> {
+    const cached = state();
+    if (cached) return of(cached);
+    if (!OFFLINE_COLLECTIONS.includes(key)) return throwError(() => error);
+
+    return this.offlineStorage.get<T[]>(key).pipe(
+      switchMap((stored) => {
+        if (!stored) return throwError(() => error);
+        state.set(stored);
+        return of(stored);
+      })
+    );
+  }
+
+  /**
+   * Sends a request, or runs the offline fallback if there is no connection.
+   * @param request - Creates the request.
+   * @param offline - Queues the change and returns the local result.
+   * @param local - Whether the change refers to entities that have not been synced yet,
+   * in which case it is always queued behind them.
+   * @private
+   */
+  private queueWhenOffline<T>(
+    request: () => Observable<T>,
+    offline: () => T,
+    local = false
+  ): Observable<T> {
+    if (local || !this.offlineQueue.online()) {
+      return of(offline());
+    }
+    return request().pipe(
+      catchError((err) => (isOfflineError(err) ? of(offline()) : throwError(() => err)))
+    );
+  }
+
+  /**
+   * Builds the application as it will look after a change has been synced.
+   * @param id - The ID of the application, or a temporary ID for a new one.
+   * @param payload - The application data.
+   * @param previous - The current version of the application, if it exists.
+   * @private
+   */
+  private toLocalApplication(
+    id: number,
+    payload: CreateApplicationPayload,
+    previous?: Application
+  ): Application {
+    const company = this.companiesState()?.find((c) => c.id === payload.company_id) ??
+      previous?.company ?? { id: payload.company_id, name: '', website: null, industry: '' };
+    const contact = payload.contact_id
+      ? (this.contactsState()?.find((c) => c.id === payload.contact_id) ??
+        (previous?.contact?.id === payload.contact_id ? previous.contact : null))
+      : null;
+    const now = new Date().toISOString();
+
+    return {
+      id,
+      job_title: payload.job_title,
+      company,
+      contact,
+      status: payload.status,
+      status_display: STATUS_DISPLAY[payload.status],
+      applied_on: payload.applied_on ?? null,
+      interview_on: payload.interview_on ?? null,
+      offer_on: payload.offer_on ?? null,
+      rejected_on: payload.rejected_on ?? null,
+      follow_up_on: payload.follow_up_on ?? null,
+      job_posting_link: payload.job_posting_link ?? previous?.job_posting_link ?? '',
+      salary_expectation: payload.salary_expectation ?? null,
+      created_at: previous?.created_at ?? now,
+      archived: payload.archived ?? previous?.archived ?? false,
+      notes: previous?.notes ?? [],
+      interviews: previous?.interviews ?? [],
+      documents: previous?.documents ?? [],
+    };
+  }
+
+  /**
+   * Replaces an entity created or changed offline with the server's version once it has been synced.
+   * @param synced - The synced change and the server's response.
+   * @private
+   */
+  private applySynced({ mutation, result }: SyncedMutation): void {
+    if (mutation.type === 'createCompany') {
+      const company = result as Company;
+      this.companiesState.update(
+        (companies) => companies && companies.filter((c) => c.id !== mutation.entityId)
+      );
+      this.applicationsState.update(
+        (apps) =>
+          apps &&
+          apps.map((app) => (app.company.id === mutation.entityId ? { ...app, company } : app))
+      );
+      this.putCompany(company);
+      return;
+    }
+    // The status history is not cached, so there is nothing to update
+    if (mutation.type === 'createStatusChange') return;
+
+    if (mutation.type === 'createApplication') {
+      this.applicationsState.update(
+        (apps) => apps && apps.filter((app) => app.id !== mutation.entityId)
+      );
+    }
+
+    // Keep showing a change that was made while this one was being sent and is still queued
+    const application = result as Application;
+    const queued = this.offlineQueue
+      .queue()
+      .find(
+        (entry) =>
+          entry.type === 'updateApplication' &&
+          entry.status === 'pending' &&
+          entry.entityId === application.id
+      );
+    this.putApplication(
+      queued?.type === 'updateApplication'
+        ? this.toLocalApplication(application.id, queued.payload, application)
+        : application
+    );
+  }
+
+  /**
+   * Removes the local result of a discarded change, or restores the server's version.
+   * @param mutation - The discarded change.
+   * @private
+   */
+  private revertDiscarded(mutation: QueuedMutation): void {
+    switch (mutation.type) {
+      case 'createCompany':
+        this.companiesState.update(
+          (companies) => companies && companies.filter((c) => c.id !== mutation.entityId)
+        );
+        return;
+      case 'createApplication':
+        this.applicationsState.update(
+          (apps) => apps && apps.filter((app) => app.id !== mutation.entityId)
+        );
+        return;
+      case 'updateApplication':
+        this.loadApplication(mutation.entityId).subscribe({
+          error: (err) => console.error('Error restoring application:', err),
+        });
+        return;
+      case 'createStatusChange':
+        // Nothing is shown for a status change until it has been synced
+        return;
+    }
+  }
+
+  /**
+   * Adds an application to the cache or replaces the cached version.
+   * @param application - The application to store.
+   * @private
+   */
+  private putApplication(application: Application): void {
+    this.applicationsState.update((apps) => apps && upsert(apps, application));
+  }
+
+  /**
+   * Adds a company to the cache or replaces the cached version and its copies in applications.
+   * @param company - The company to store.
+   * @private
+   */
+  private putCompany(company: Company): void {
+    this.companiesState.update((companies) => companies && upsert(companies, company));
+    this.applicationsState.update(
+      (apps) =>
+        apps && apps.map((app) => (app.company.id === company.id ? { ...app, company } : app))
+    );
+  }
+
+  /**
+   * Replaces the notes of a cached application.
+   * @param applicationId - The ID of the application.
+   * @param update - Returns the new notes for the current ones.
+   * @private
+   */
+  private updateNotes(applicationId: number, update: (notes: Note[]) => Note[]): void {
+    this.applicationsState.update(
+      (apps) =>
+        apps && apps.map((app) => (app.id === applicationId ? { ...app, notes: update(app.notes) } : app))
+    );
+  }
+
+  /**
+   * Adds an interview to its cached application or replaces the cached version.
+   * @param interview - The interview to store.
+   * @private
+   */
+  private putInterview(interview: Interview): void {
+    this.updateInterviews(interview.application, (interviews) => upsert(interviews, interview));
+  }
+
+  /**
+   * Replaces the interviews of a cached application.
+   * @param applicationId - The ID of the application.
+   * @param update - Returns the new interviews for the current ones.
+   * @private
+   */
+  private updateInterviews(applicationId: number, update: (interviews: Interview[]) => Interview[]): void {
+    this.applicationsState.update(
+      (apps) =>
+        apps &&
+        apps.map((app) =>
+          app.id === applicationId ? { ...app, interviews: update(app.interviews ?? []) } : app
+        )
+    );
+  }
+
+  /**
+   * Adds a document to the cached library or replaces the cached version.
+   * @param document - The document to store.
+   * @private
+   */
+  private putDocument(document: DocumentFile): void {
+    this.documentsState.update((documents) => documents && upsert(documents, document));
+  }
+
+  /**
+   * Replaces the documents of a cached application.
+   * @param applicationId - The ID of the application.
+   * @param update - Returns the new documents for the current ones.
+   * @private
+   */
+  private updateDocuments(
+    applicationId: number,
+    update: (documents: DocumentFile[]) => DocumentFile[]
+  ): void {
+    this.applicationsState.update(
+      (apps) =>
+        apps &&
+        apps.map((app) =>
+          app.id === applicationId ? { ...app, documents: update(app.documents ?? []) } : app
+        )
+    );
+  }
+
+  /**
+   * Adds a contact to the cache or replaces the cached version and its copy in applications.
+   * @param contact - The contact to store.
+   * @private
+   */
+  private putContact(contact: Contact): void {
+    this.contactsState.update((contacts) => contacts && upsert(contacts, contact));
+    this.applicationsState.update(
+      (apps) =>
+        apps && apps.map((app) => (app.contact?.id === contact.id ? { ...app, contact } : app))
+    );
+  }
+}
+
+/**
+ * Returns a copy of a list in which the item with the same ID is replaced, or the item is appended.
+ * @param items - The list to update.
+ * @param item - The new or updated item.
+ */
+function upsert<T extends { id: number }>(items: T[], item: T): T[] {
+  return items.some((existing) => existing.id === item.id)
+    ? items.map((existing) => (existing.id === item.id ? item : existing))
+    : [...items, item];
+}
@@ -0,0 +1,32 @@
+import { TestBed } from '@angular/core/testing';
+import { provideHttpClient } from '@angular/common/http';
+import { provideRouter } from '@angular/router';
+import { provideToastr } from 'ngx-toastr';
+
+import { FollowUpNotificationService, currentNotificationPermission } from './follow-up-notifications';
+
+describe('FollowUpNotificationService', () => {
+  let service: FollowUpNotificationService;
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({
+      providers: [provideHttpClient(), provideRouter([]), provideToastr()],
+    });
+    service = TestBed.inject(FollowUpNotificationService);
+  });
+
+  it('should be created', () => {
+    expect(service).toBeTruthy();
+  });
+
+  it('should be disabled until the user opts in', () => {
+    expect(service.enabled()).toBeFalse();
+  });
+
+  it('should read the permission again when the checks start', () => {
+    service.permission.set('granted');
+    service.start();
+    expect(service.permission()).toBe(currentNotificationPermission());
+    service.stop();
+  });
+});
@@ -0,0 +1,211 @@
+import { Injectable, inject, signal } from '@angular/core';
+import { Router } from '@angular/router';
+import { Subscription, of, timer } from 'rxjs';
+import { catchError, switchMap } from 'rxjs/operators';
+import { Api } from './api';
+import { DataStoreService } from './data-store';
+
+/** The permission states of the Web Notifications API, plus `unsupported` for browsers without it. */
+export type NotificationPermissionState = NotificationPermission | 'unsupported';
+
+/** How often the follow-ups are checked while the tab is open. */
+const CHECK_INTERVAL_MS = 60 * 1000;
+
+/**
+ * Reads the browser's current permission for notifications.
+ * @returns The permission, or `unsupported` if the browser has no Notifications API.
+ */
+export function currentNotificationPermission(): NotificationPermissionState {
+  return typeof Notification === 'undefined' ? 'unsupported' : Notification.permission;
+}
+
+/**
+ * Service for browser notifications about due follow-ups.
+ *
+ * The notifications are opt-in: the user enables them in the reminder center, which asks
+ * for the browser's permission. While the tab is open and the user is logged in, the
+ * service checks the follow-ups every minute and shows one notification per follow-up as
+ * soon as it is due. Which follow-ups have been notified is stored per user, so reloading
+ * the page does not repeat them. Clicking a notification opens the application.
+ *
+ * @example
+ * ```typescript
+ * this.followUpNotifications.enable();
+ * ```
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class FollowUpNotificationService {
+  /** API service, used to determine the current user. */
+  private apiService = inject(Api);
+  private store = inject(DataStoreService);
+  private router = inject(Router);
+
+  /**
+   * The browser's permission for notifications. Read again on every check, because the user
+   * can revoke it in the browser settings at any time.
+   */
+  readonly permission = signal<NotificationPermissionState>(currentNotificationPermission());
+
+  /** Whether the current user has enabled the notifications. */
+  readonly enabled = signal(false);
+
+  /**
+   * The subscription of the periodic check, while it is running.
+   * @private
+   */
+  private checkSubscription: Subscription | undefined;
+
+  /**
+   * Starts checking the follow-ups for the current user. Called after login.
+   */
+  start(): void {
+    this.stop();
+    this.enabled.set(localStorage.getItem(this.storageKey('enabled')) === 'true');
+    this.permission.set(currentNotificationPermission());
+    this.checkSubscription = timer(0, CHECK_INTERVAL_MS)
+      .pipe(
+        switchMap(() => {
+          this.permission.set(currentNotificationPermission());
+          return this.isActive()
+            ? this.store.loadApplications().pipe(catchError(() => of(null)))
+            : of(null);
+        })
+      )
+      .subscribe(() => this.notifyDueFollowUps());
+  }
+
+  /**
+   * Stops checking the follow-ups. Called on logout.
+   */
+  stop(): void {
+    this.checkSubscription?.unsubscribe();
+    this.checkSubscription = undefined;
+  }
+
+  /**
+   * Asks for the browser's permission and enables the notifications if it is granted.
+   * Follow-ups that are already due are notified right away.
+   */
+  enable(): void {
+    if (typeof Notification === 'undefined') return;
+
+    Notification.requestPermission().then((permission) => {
+      this.permission.set(permission);
+      this.setEnabled(permission === 'granted');
+      this.notifyDueFollowUps();
+    });
+  }
+
+  /**
+   * Disables the notifications for the current user.
+   */
+  disable(): void {
+    this.setEnabled(false);
+  }
+
+  /**
+   * Shows a notification for each due follow-up that has not been notified yet.
+   * @private
+   */
+  private notifyDueFollowUps(): void {
+    if (!this.isActive()) return;
+
+    const notified = this.loadNotified();
+    const due = this.store.dueFollowUps();
+    for (const app of due) {
+      const key = `${app.id}:${app.follow_up_on}`;
+      if (notified.includes(key)) continue;
+
+      this.show(
+        'Wiedervorlage fällig',
+        { body: `${app.job_title} bei ${app.company.name}`, tag: `follow-up-${app.id}` },
+        () => this.router.navigate(['/applications', app.id])
+      );
+      notified.push(key);
+    }
+
+    // Only keep the keys of follow-ups that are still due, so the list does not grow forever
+    const stillDue = new Set(due.map((app) => `${app.id}:${app.follow_up_on}`));
+    localStorage.setItem(
+      this.storageKey('notified'),
+      JSON.stringify(notified.filter((key) => stillDue.has(key)))
+    );
+  }
+
+  /**
+   * Shows a notification that brings the tab to the front and runs an action when clicked.
+   *
+   * Browsers that only allow notifications through a service worker (e.g. Chrome on Android)
+   * throw when a notification is created directly. The notification is then shown through
+   * the page's service worker, if there is one; clicks are not handled in that case.
+   *
+   * @param title - The title of the notification.
+   * @param options - The body and tag of the notification.
+   * @param onClick - The action run when the notification is clicked.
+   * @private
+   */
+  private show(title: string, options: NotificationOptions, onClick: () => void): void {
+    try {
+      const notification = new Notification(title, options);
+      notification.onclick = () => {
+        window.focus();
+        onClick();
+        notification.close();
+      };
+    } catch (err) {
+      if (typeof navigator === 'undefined' || !navigator.serviceWorker) {
+        console.error('Error showing notification:', err);
+        return;
+      }
+      navigator.serviceWorker
+        .getRegistration()
+        .then((registration) => {
+          if (!registration) throw err;
+          return registration.showNotification(title, options);
+        })
+        .catch((error) => console.error('Error showing notification:', error));
+    }
+  }
+
+  /**
+   * Checks whether the notifications are enabled and permitted.
+   * @private
+   */
+  private isActive(): boolean {
+    return this.enabled() && this.permission() === 'granted';
+  }
+
+  /**
+   * Stores whether the notifications are enabled for the current user.
+   * @param enabled - The new setting.
+   * @private
+   */
+  private setEnabled(enabled: boolean): void {
+    this.enabled.set(enabled);
+    localStorage.setItem(this.storageKey('enabled'), String(enabled));
+  }
+
+  /**
+   * Loads the keys (`<id>:<follow_up_on>`) of the follow-ups that have already been notified.
+   * @private
+   */
+  private loadNotified(): string[] {
+    try {
+      return JSON.parse(localStorage.getItem(this.storageKey('notified')) ?? '[]');
+    } catch (err) {
+      console.error('Error reading notified follow-ups:', err);
+      return [];
+    }
+  }
+
+  /**
+   * Builds the localStorage key of a setting for the current user.
+   * @param setting - The name of the setting.
+   * @private
+   */
+  private storageKey(setting: 'enabled' | 'notified'): string {
+    return `followUpNotifications:${this.apiService.getUsername() ?? 'default'}:${setting}`;
+  }
+}
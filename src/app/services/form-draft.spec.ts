@@ -0,0 +1,23 @@
+import { TestBed } from '@angular/core/testing';
+import { provideHttpClient } from '@angular/common/http';
+
+import { FormDraftService } from './form-draft';
+
+describe('FormDraftService', () => {
+  let service: FormDraftService;
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({ providers: [provideHttpClient()] });
+    service = TestBed.inject(FormDraftService);
+  });
+
+  afterEach(() => service.remove('test/form'));
+
+  it('should save, load and remove a draft', () => {
+    service.save('test/form', { job_title: 'Developer' });
+    expect(service.load<{ job_title: string }>('test/form')?.value).toEqual({ job_title: 'Developer' });
+
+    service.remove('test/form');
+    expect(service.load('test/form')).toBeNull();
+  });
+});
@@ -0,0 +1,79 @@
+import { Injectable, inject } from '@angular/core';
+import { Api } from './api';
+
+/**
+ * A form value that was autosaved before it was submitted.
+ */
+export interface FormDraft<T = unknown> {
+  /** The raw value of the form. */
+  value: T;
+  /** When the draft was saved, as an ISO timestamp. */
+  savedAt: string;
+}
+
+/**
+ * Service for autosaving the values of forms that have not been submitted yet.
+ *
+ * Drafts are stored in localStorage under a key that contains the username and the
+ * form's route (e.g. `applications/edit/5`), so that a draft is only offered on the page
+ * it was written on and only to the user who wrote it.
+ *
+ * @example
+ * ```typescript
+ * this.formDraft.save('companies/new', this.form.getRawValue());
+ * const draft = this.formDraft.load<CompanyFormValue>('companies/new');
+ * ```
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class FormDraftService {
+  /** API service, used to determine the current user. */
+  private apiService = inject(Api);
+
+  /**
+   * Saves the value of a form, replacing any previous draft.
+   * @param formKey - Identifies the form, usually its route.
+   * @param value - The raw form value.
+   */
+  save(formKey: string, value: unknown): void {
+    const draft: FormDraft = { value, savedAt: new Date().toISOString() };
+    try {
+      localStorage.setItem(this.storageKey(formKey), JSON.stringify(draft));
+    } catch (err) {
+      console.error('Error saving form draft:', err);
+    }
+  }
+
+  /**
+   * Loads the draft of a form.
+   * @param formKey - Identifies the form, usually its route.
+   * @returns The draft, or `null` if there is none or it cannot be read.
+   */
+  load<T>(formKey: string): FormDraft<T> | null {
+    try {
+      const raw = localStorage.getItem(this.storageKey(formKey));
+      return raw ? (JSON.parse(raw) as FormDraft<T>) : null;
+    } catch (err) {
+      console.error('Error loading form draft:', err);
+      return null;
+    }
+  }
+
+  /**
+   * Deletes the draft of a form, e.g. after it has been submitted.
+   * @param formKey - Identifies the form, usually its route.
+   */
+  remove(formKey: string): void {
+    localStorage.removeItem(this.storageKey(formKey));
+  }
+
+  /**
+   * Builds the localStorage key for a form of the current user.
+   * @param formKey - Identifies the form.
+   * @private
+   */
+  private storageKey(formKey: string): string {
+    return `formDraft:${this.apiService.getUsername() ?? 'default'}:${formKey}`;
+  }
+}
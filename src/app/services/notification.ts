@@ -1,5 +1,7 @@
 import { Injectable, inject } from '@angular/core';
-import { ToastrService } from 'ngx-toastr';
+import { ActiveToast, ToastrService } from 'ngx-toastr';
+import { Observable, race } from 'rxjs';
+import { map, take } from 'rxjs/operators';
 
 @Injectable({
   providedIn: 'root'
@@ -22,4 +24,37 @@ export class NotificationService {
   showWarning(message: string, title: string = 'Warnung') {
     this.toastr.warning(message, title);
   }
+
+  /**
+   * Shows a toast that lets the user undo an action by clicking on it.
+   *
+   * @param message - The message describing the action, e.g. "Application deleted."
+   * @param title - The toast title.
+   * @param timeOut - How long the user has to undo the action, in milliseconds.
+   * @remarks Duplicate prevention is turned off for this toast: every action needs its own
+   * toast, otherwise undoing one of two identical messages would undo both.
+   * @returns An Observable that emits once: `true` if the user clicked the toast to undo,
+   * `false` if the toast closed without being clicked.
+   */
+  showUndo(message: string, title: string = 'Undo?', timeOut: number = 6000): Observable<boolean> {
+    // ngx-toastr ignores a per-toast preventDuplicates option, so the global one is switched off
+    // while the toast is created
+    const config = this.toastr.toastrConfig;
+    const preventDuplicates = config.preventDuplicates;
+    config.preventDuplicates = false;
+    let toast: ActiveToast<unknown>;
+    try {
+      toast = this.toastr.info(`${message} Click here to undo.`, title, {
+        timeOut,
+        tapToDismiss: true,
+        progressBar: true,
+      });
+    } finally {
+      config.preventDuplicates = preventDuplicates;
+    }
+    return race(
+      toast.onTap.pipe(map(() => true)),
+      toast.onHidden.pipe(map(() => false))
+    ).pipe(take(1));
+  }
 }
@@ -0,0 +1,269 @@
+import { TestBed, fakeAsync, tick } from '@angular/core/testing';
+import { provideHttpClient } from '@angular/common/http';
+import { HttpTestingController, provideHttpClientTesting } from '@angular/common/http/testing';
+import { provideNoopAnimations } from '@angular/platform-browser/animations';
+import { provideToastr } from 'ngx-toastr';
+import { of } from 'rxjs';
+
+import {
+  OfflineQueueService,
+  QueuedMutation,
+  dependsOn,
+  hasConflict,
+  replaceTemporaryId,
+} from './offline-queue';
+import { Application } from '../models/api-interfaces';
+import { Api } from './api';
+import { API_BASE_URL } from './api-config';
+import { OfflineStorageService } from './offline-storage';
+
+describe('OfflineQueueService', () => {
+  let service: OfflineQueueService;
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({ providers: [provideHttpClient(), provideToastr()] });
+    service = TestBed.inject(OfflineQueueService);
+  });
+
+  it('should be created', () => {
+    expect(service).toBeTruthy();
+  });
+
+  it('should hand out distinct negative temporary IDs', () => {
+    const first = service.nextTemporaryId();
+    const second = service.nextTemporaryId();
+    expect(first).toBeLessThan(0);
+    expect(second).toBeLessThan(first);
+  });
+});
+
+describe('OfflineQueueService sync', () => {
+  let service: OfflineQueueService;
+  let httpTesting: HttpTestingController;
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({
+      providers: [
+        provideHttpClient(),
+        provideHttpClientTesting(),
+        provideNoopAnimations(),
+        provideToastr(),
+        { provide: API_BASE_URL, useValue: '/api' },
+        { provide: OfflineStorageService, useValue: { get: () => of(undefined), set: () => of(undefined) } },
+      ],
+    });
+    spyOn(TestBed.inject(Api), 'isLoggedIn').and.returnValue(true);
+    service = TestBed.inject(OfflineQueueService);
+    httpTesting = TestBed.inject(HttpTestingController);
+    service.online.set(false);
+  });
+
+  afterEach(() => httpTesting.verify());
+
+  it('should queue an update behind the creation that is being sent', () => {
+    const payload = { job_title: 'Developer', company_id: 3, status: 'DRAFT' as const };
+    service.enqueue({ type: 'createApplication', entityId: -1, payload });
+    service.online.set(true);
+    service.sync();
+
+    const create = httpTesting.expectOne({ method: 'POST', url: '/api/applications/' });
+    service.enqueue({
+      type: 'updateApplication',
+      entityId: -1,
+      payload: { ...payload, job_title: 'Senior Developer' },
+      base: null,
+    });
+    expect(service.queue().length).toBe(2);
+    expect(create.request.body.job_title).toBe('Developer');
+
+    create.flush({ id: 7, ...payload });
+
+    const update = httpTesting.expectOne({ method: 'PUT', url: '/api/applications/7/' });
+    expect(update.request.body.job_title).toBe('Senior Developer');
+    update.flush({ id: 7, ...payload, job_title: 'Senior Developer' });
+    expect(service.queue()).toEqual([]);
+  });
+
+  it('should try again later when the server cannot be reached while online', fakeAsync(() => {
+    const payload = { job_title: 'Developer', company_id: 3, status: 'DRAFT' as const };
+    service.enqueue({ type: 'createApplication', entityId: -1, payload });
+    service.online.set(true);
+    service.sync();
+
+    httpTesting
+      .expectOne('/api/applications/')
+      .error(new ProgressEvent('error'), { status: 0, statusText: 'Unknown Error' });
+    expect(service.syncing()).toBeFalse();
+    expect(service.retryScheduled()).toBeTrue();
+
+    tick(10 * 1000);
+    httpTesting
+      .expectOne('/api/applications/')
+      .error(new ProgressEvent('error'), { status: 0, statusText: 'Unknown Error' });
+
+    // The delay doubles after every failed attempt
+    tick(10 * 1000);
+    httpTesting.expectNone('/api/applications/');
+    tick(10 * 1000);
+    httpTesting.expectOne('/api/applications/').flush({ id: 7, ...payload });
+
+    expect(service.queue()).toEqual([]);
+    expect(service.retryScheduled()).toBeFalse();
+  }));
+
+  it('should sync right away when asked, instead of waiting for the scheduled attempt', fakeAsync(() => {
+    const payload = { job_title: 'Developer', company_id: 3, status: 'DRAFT' as const };
+    service.enqueue({ type: 'createApplication', entityId: -1, payload });
+    service.online.set(true);
+    service.sync();
+    httpTesting
+      .expectOne('/api/applications/')
+      .error(new ProgressEvent('error'), { status: 0, statusText: 'Unknown Error' });
+
+    service.sync();
+    httpTesting.expectOne('/api/applications/').flush({ id: 7, ...payload });
+
+    tick(10 * 1000);
+    httpTesting.expectNone('/api/applications/');
+    expect(service.retryScheduled()).toBeFalse();
+  }));
+
+  it('should record a queued status change under the ID assigned to its application', () => {
+    const payload = { job_title: 'Developer', company_id: 3, status: 'APPLIED' as const };
+    service.enqueue({ type: 'createApplication', entityId: -1, payload });
+    service.enqueue({
+      type: 'createStatusChange',
+      entityId: -1,
+      payload: { from_status: null, to_status: 'APPLIED', changed_at: '2024-03-01T10:00:00Z' },
+    });
+    service.online.set(true);
+    service.sync();
+
+    httpTesting.expectOne('/api/applications/').flush({ id: 7, ...payload });
+    const statusChange = httpTesting.expectOne('/api/applications/7/status-history/');
+    expect(statusChange.request.body.to_status).toBe('APPLIED');
+    statusChange.flush({ id: 1, application: 7, from_status: null, to_status: 'APPLIED', changed_at: '', comment: '' });
+
+    expect(service.queue()).toEqual([]);
+  });
+
+  it('should discard the status changes of a discarded creation', () => {
+    service.enqueue({
+      type: 'createApplication',
+      entityId: -1,
+      payload: { job_title: 'Developer', company_id: 3, status: 'APPLIED' },
+    });
+    service.enqueue({
+      type: 'createStatusChange',
+      entityId: -1,
+      payload: { from_status: null, to_status: 'APPLIED', changed_at: '2024-03-01T10:00:00Z' },
+    });
+
+    service.discard(service.queue()[0].id);
+
+    expect(service.queue()).toEqual([]);
+  });
+
+  it('should merge updates into a creation that is still waiting', () => {
+    const payload = { job_title: 'Developer', company_id: 3, status: 'DRAFT' as const };
+    service.enqueue({ type: 'createApplication', entityId: -1, payload });
+    service.enqueue({
+      type: 'updateApplication',
+      entityId: -1,
+      payload: { ...payload, job_title: 'Senior Developer' },
+      base: null,
+    });
+
+    expect(service.queue().length).toBe(1);
+    expect(service.queue()[0].type).toBe('createApplication');
+  });
+});
+
+describe('hasConflict', () => {
+  const base = {
+    id: 1,
+    job_title: 'Developer',
+    status: 'APPLIED',
+    company: { id: 2 },
+    contact: null,
+    notes: [{ id: 3, text: 'Call back', created_at: '' }],
+  } as unknown as Application;
+
+  it('should ignore unchanged applications', () => {
+    expect(hasConflict(base, { ...base })).toBeFalse();
+  });
+
+  it('should detect changed fields and notes', () => {
+    expect(hasConflict(base, { ...base, status: 'INTERVIEW' })).toBeTrue();
+    expect(hasConflict(base, { ...base, notes: [] })).toBeTrue();
+  });
+});
+
+describe('replaceTemporaryId', () => {
+  it('should replace the entity ID and the company ID', () => {
+    const mutation: QueuedMutation = {
+      id: 'a',
+      type: 'createApplication',
+      entityId: -2,
+      queuedAt: '',
+      status: 'pending',
+      payload: { job_title: 'Developer', company_id: -1, status: 'DRAFT' },
+    };
+
+    const withCompany = replaceTemporaryId(mutation, -1, 10);
+    expect(withCompany.entityId).toBe(-2);
+    expect(withCompany.type === 'createApplication' && withCompany.payload.company_id).toBe(10);
+
+    expect(replaceTemporaryId(mutation, -2, 11).entityId).toBe(11);
+  });
+});
+
+describe('dependsOn', () => {
+  const company: QueuedMutation = {
+    id: 'a',
+    type: 'createCompany',
+    entityId: -1,
+    queuedAt: '',
+    status: 'failed',
+    payload: { name: 'ACME', industry: 'IT' },
+  };
+  const application: QueuedMutation = {
+    id: 'b',
+    type: 'createApplication',
+    entityId: -2,
+    queuedAt: '',
+    status: 'pending',
+    payload: { job_title: 'Developer', company_id: -1, status: 'DRAFT' },
+  };
+
+  it('should detect changes referring to an entity created offline', () => {
+    expect(dependsOn(application, company)).toBeTrue();
+    expect(dependsOn(company, application)).toBeFalse();
+    expect(dependsOn(company, company)).toBeFalse();
+  });
+
+  it('should not treat updates as creations', () => {
+    const update: QueuedMutation = {
+      ...application,
+      id: 'c',
+      type: 'updateApplication',
+      entityId: 5,
+      base: null,
+    };
+    expect(dependsOn({ ...application, entityId: 5 }, update)).toBeFalse();
+  });
+
+  it('should make status changes wait for the application they belong to', () => {
+    const statusChange: QueuedMutation = {
+      id: 'd',
+      type: 'createStatusChange',
+      entityId: -2,
+      queuedAt: '',
+      status: 'pending',
+      payload: { from_status: 'DRAFT', to_status: 'APPLIED', changed_at: '2024-03-01T10:00:00Z' },
+    };
+    expect(dependsOn(statusChange, application)).toBeTrue();
+    expect(dependsOn(statusChange, company)).toBeFalse();
+    expect(dependsOn(application, statusChange)).toBeFalse();
+  });
+});
@@ -0,0 +1,612 @@
+import { Injectable, computed, inject, signal } from '@angular/core';
+import { HttpErrorResponse } from '@angular/common/http';
+import { Observable, Subject, Subscription, of, timer } from 'rxjs';
+import { switchMap } from 'rxjs/operators';
+import { Api } from './api';
+import { NotificationService } from './notification';
+import { OfflineStorageService } from './offline-storage';
+import { describeApiError } from './api-error';
+import {
+  Application,
+  Company,
+  CreateApplicationPayload,
+  CreateCompanyPayload,
+  CreateStatusChangePayload,
+  STATUS_DISPLAY,
+  StatusChange,
+} from '../models/api-interfaces';
+
+/** Delay before the first new attempt when the server could not be reached. */
+const RETRY_DELAY_MS = 10 * 1000;
+
+/** The longest delay between two attempts; the delay doubles after every failed attempt. */
+const MAX_RETRY_DELAY_MS = 5 * 60 * 1000;
+
+/** Fields shared by all queued mutations. */
+interface QueuedMutationBase {
+  /** Local identifier of the queue entry. */
+  id: string;
+  /**
+   * The ID of the affected entity. Entities created offline get a temporary, negative ID
+   * that is replaced by the server's ID once they have been synced.
+   */
+  entityId: number;
+  /** When the change was made, as an ISO timestamp. */
+  queuedAt: string;
+  /**
+   * - `pending`: waiting to be sent.
+   * - `failed`: rejected by the server, see `error`.
+   * - `conflict`: the entity was changed on the server in the meantime.
+   */
+  status: 'pending' | 'failed' | 'conflict';
+  /** Why the change could not be synced. */
+  error?: string;
+}
+
+/**
+ * A change made while offline, waiting to be sent to the server.
+ */
+export type QueuedMutation =
+  | (QueuedMutationBase & { type: 'createApplication'; payload: CreateApplicationPayload })
+  | (QueuedMutationBase & {
+      type: 'updateApplication';
+      payload: CreateApplicationPayload;
+      /**
+       * The server's version the change was based on, used to detect conflicts.
+       * `null` if the change should overwrite the server's version.
+       */
+      base: Application | null;
+    })
+  | (QueuedMutationBase & { type: 'createCompany'; payload: CreateCompanyPayload })
+  /** A status transition; `entityId` is the ID of the application it belongs to. */
+  | (QueuedMutationBase & { type: 'createStatusChange'; payload: CreateStatusChangePayload });
+
+/** Removes the fields managed by the queue from each kind of mutation. */
+type WithoutQueueFields<M> = M extends QueuedMutation
+  ? Omit<M, 'id' | 'queuedAt' | 'status' | 'error'>
+  : never;
+
+/** The data needed to queue a change; the remaining fields are filled in by the queue. */
+export type NewQueuedMutation = WithoutQueueFields<QueuedMutation>;
+
+/** A queued change that has been sent to the server successfully. */
+export interface SyncedMutation {
+  mutation: QueuedMutation;
+  /** The server's response. */
+  result: Application | Company | StatusChange;
+}
+
+/** Key under which the queue is kept in the offline storage. */
+const QUEUE_KEY = 'mutationQueue';
+
+/**
+ * Fields of an application that are compared to detect changes made by someone else.
+ */
+const CONFLICT_FIELDS: (keyof Application)[] = [
+  'job_title',
+  'status',
+  'applied_on',
+  'interview_on',
+  'offer_on',
+  'rejected_on',
+  'follow_up_on',
+  'job_posting_link',
+  'salary_expectation',
+  'archived',
+];
+
+/**
+ * Checks whether a request failed because the server could not be reached.
+ * @param error - The error emitted by the HTTP client.
+ */
+export function isOfflineError(error: unknown): boolean {
+  return error instanceof HttpErrorResponse && error.status === 0;
+}
+
+/**
+ * Checks whether an ID is a temporary ID of an entity created offline.
+ * @param id - The ID to check.
+ */
+export function isTemporaryId(id: number): boolean {
+  return id < 0;
+}
+
+/**
+ * Checks whether an application was changed on the server after a local change was based on it.
+ *
+ * @param base - The version the local change was based on.
+ * @param server - The current version on the server.
+ * @returns `true` if the fields, company, contact or notes differ.
+ */
+export function hasConflict(base: Application, server: Application): boolean {
+  return (
+    CONFLICT_FIELDS.some((field) => base[field] !== server[field]) ||
+    base.company.id !== server.company.id ||
+    (base.contact?.id ?? null) !== (server.contact?.id ?? null) ||
+    JSON.stringify(base.notes.map((n) => [n.id, n.text])) !==
+      JSON.stringify(server.notes.map((n) => [n.id, n.text]))
+  );
+}
+
+/**
+ * Replaces a temporary ID in a queued change with the ID assigned by the server.
+ *
+ * @param mutation - The queued change.
+ * @param temporaryId - The temporary ID of the entity that has been synced.
+ * @param id - The server's ID of that entity.
+ * @returns The updated change, or the same change if it does not refer to the entity.
+ */
+export function replaceTemporaryId(
+  mutation: QueuedMutation,
+  temporaryId: number,
+  id: number
+): QueuedMutation {
+  let updated = mutation;
+  if (mutation.entityId === temporaryId) {
+    updated = { ...updated, entityId: id };
+  }
+  if (refersToCompany(updated) && updated.payload.company_id === temporaryId) {
+    updated = { ...updated, payload: { ...updated.payload, company_id: id } };
+  }
+  return updated;
+}
+
+/**
+ * Checks whether a queued change refers to an entity created by another queued change,
+ * e.g. an application created for a company that was also created offline.
+ *
+ * @param entry - The change that may depend on the creation.
+ * @param creation - The change that may create the entity.
+ * @returns `true` if `entry` cannot be sent before `creation` has been synced.
+ */
+export function dependsOn(entry: QueuedMutation, creation: QueuedMutation): boolean {
+  return (
+    (creation.type === 'createApplication' || creation.type === 'createCompany') &&
+    entry.id !== creation.id &&
+    (entry.entityId === creation.entityId ||
+      (refersToCompany(entry) && entry.payload.company_id === creation.entityId))
+  );
+}
+
+/**
+ * Checks whether a queued change carries the ID of a company in its payload.
+ * @param mutation - The queued change.
+ * @private
+ */
+function refersToCompany<M extends NewQueuedMutation>(
+  mutation: M
+): mutation is Extract<M, { type: 'createApplication' | 'updateApplication' }> {
+  return mutation.type === 'createApplication' || mutation.type === 'updateApplication';
+}
+
+/**
+ * Describes the entity a queued change refers to, for notifications.
+ * @param mutation - The queued change.
+ */
+export function describeMutation(mutation: NewQueuedMutation): string {
+  switch (mutation.type) {
+    case 'createCompany':
+      return `Company "${mutation.payload.name}"`;
+    case 'createStatusChange':
+      return `Status change to "${STATUS_DISPLAY[mutation.payload.to_status]}"`;
+    default:
+      return `Application "${mutation.payload.job_title}"`;
+  }
+}
+
+/**
+ * Queue of changes made while offline.
+ *
+ * Tracks the connection state of the browser. Changes that cannot be sent are queued and
+ * kept in the {@link OfflineStorageService}, so that they survive a reload. When the
+ * connection returns (or the user logs in again), the queue is replayed in order. Entities
+ * created offline get temporary IDs, which are replaced in later changes once the server
+ * has assigned the real IDs.
+ *
+ * Before an offline change to an application is sent, the server's version is compared with
+ * the version the change was based on. If it was changed in the meantime, the change is kept
+ * as a conflict until the user decides to overwrite the server's version or to discard it.
+ *
+ * @example
+ * ```typescript
+ * if (!this.offlineQueue.online()) {
+ *   this.offlineQueue.enqueue({ type: 'createCompany', entityId: this.offlineQueue.nextTemporaryId(), payload });
+ * }
+ * ```
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class OfflineQueueService {
+  private api = inject(Api);
+  private notificationService = inject(NotificationService);
+  private offlineStorage = inject(OfflineStorageService);
+
+  /** Whether the browser has a network connection. */
+  readonly online = signal(typeof navigator === 'undefined' || navigator.onLine);
+
+  /** Whether the queue is currently being sent to the server. */
+  readonly syncing = signal(false);
+
+  /**
+   * Whether the server could not be reached although the browser is online,
+   * and a new attempt has been scheduled.
+   */
+  readonly retryScheduled = signal(false);
+
+  /** All queued changes, oldest first. */
+  private queueState = signal<QueuedMutation[]>([]);
+
+  /** All queued changes, oldest first. */
+  readonly queue = this.queueState.asReadonly();
+
+  /** Number of changes waiting to be sent. */
+  readonly pendingCount = computed(
+    () => this.queueState().filter((mutation) => mutation.status === 'pending').length
+  );
+
+  /** Changes that were rejected by the server or are in conflict with it. */
+  readonly problems = computed(() =>
+    this.queueState().filter((mutation) => mutation.status !== 'pending')
+  );
+
+  /** Emits every change that has been sent successfully. */
+  private syncedSubject = new Subject<SyncedMutation>();
+  readonly synced$ = this.syncedSubject.asObservable();
+
+  /** Emits every change that has been discarded by the user. */
+  private discardedSubject = new Subject<QueuedMutation>();
+  readonly discarded$ = this.discardedSubject.asObservable();
+
+  /** The last temporary ID handed out; temporary IDs count down from -1. */
+  private lastTemporaryId = 0;
+
+  /**
+   * The ID of the queue entry that is being sent. It is never merged with new changes,
+   * because its payload has already been sent and the entry is removed once it has been synced.
+   * @default null
+   */
+  private sendingId: string | null = null;
+
+  /**
+   * The scheduled new attempt, while the server cannot be reached.
+   * @private
+   */
+  private retrySubscription: Subscription | undefined;
+
+  /**
+   * The delay before the next new attempt, in milliseconds.
+   * @default RETRY_DELAY_MS
+   */
+  private retryDelay = RETRY_DELAY_MS;
+
+  constructor() {
+    if (typeof window !== 'undefined') {
+      window.addEventListener('online', () => {
+        this.online.set(true);
+        this.sync();
+      });
+      window.addEventListener('offline', () => this.online.set(false));
+    }
+
+    this.api.isLoggedIn$.subscribe((isLoggedIn) => {
+      if (isLoggedIn) {
+        this.restore();
+      } else {
+        this.cancelRetry();
+        this.queueState.set([]);
+      }
+    });
+  }
+
+  /**
+   * Returns a new temporary ID for an entity created offline.
+   */
+  nextTemporaryId(): number {
+    this.lastTemporaryId -= 1;
+    return this.lastTemporaryId;
+  }
+
+  /**
+   * Queues a change and informs the user that it will be sent later.
+   *
+   * Repeated updates of the same application are merged into one change, and updates of an
+   * application created offline are merged into its creation, unless that change is being
+   * sent right now; the update is then queued behind it.
+   *
+   * @param mutation - The change to queue.
+   */
+  enqueue(mutation: NewQueuedMutation): void {
+    const queue = this.queueState();
+    const merged = queue.findIndex(
+      (existing) =>
+        mutation.type === 'updateApplication' &&
+        existing.status === 'pending' &&
+        existing.id !== this.sendingId &&
+        existing.entityId === mutation.entityId &&
+        (existing.type === 'updateApplication' || existing.type === 'createApplication')
+    );
+
+    if (merged >= 0) {
+      const existing = queue[merged];
+      const next = [...queue];
+      next[merged] = { ...existing, payload: mutation.payload } as QueuedMutation;
+      this.setQueue(next);
+    } else {
+      // An update queued behind the creation being sent cannot conflict with another version
+      const queued =
+        mutation.type === 'updateApplication' && isTemporaryId(mutation.entityId)
+          ? { ...mutation, base: null }
+          : mutation;
+      this.setQueue([
+        ...queue,
+        {
+          ...queued,
+          id: `${Date.now()}-${Math.random().toString(36).slice(2)}`,
+          queuedAt: new Date().toISOString(),
+          status: 'pending',
+        } as QueuedMutation,
+      ]);
+    }
+
+    this.notificationService.showInfo(
+      `${describeMutation(mutation)} has been saved on this device and will be synced once you are back online.`,
+      'Saved offline'
+    );
+  }
+
+  /**
+   * Sends the pending changes to the server, one after another. Also called by the user to
+   * try again right away, instead of waiting for the scheduled attempt.
+   * Does nothing while offline, while a sync is running or while nobody is logged in.
+   */
+  sync(): void {
+    if (this.syncing() || !this.online() || !this.api.isLoggedIn() || this.pendingCount() === 0) {
+      return;
+    }
+    this.cancelRetry();
+    this.syncing.set(true);
+    this.syncNext(0);
+  }
+
+  /**
+   * Sends a failed change again, together with the failed changes that depend on it.
+   * A change in conflict overwrites the server's version.
+   * @param id - The ID of the queue entry.
+   */
+  retry(id: string): void {
+    const retried = this.queueState().find((entry) => entry.id === id);
+    if (!retried) return;
+
+    this.setQueue(
+      this.queueState().map((mutation) => {
+        const blocked = mutation.status === 'failed' && dependsOn(mutation, retried);
+        if (mutation.id !== id && !blocked) return mutation;
+        const pending = { ...mutation, status: 'pending' as const, error: undefined };
+        return mutation.id === id && pending.type === 'updateApplication'
+          ? { ...pending, base: null }
+          : pending;
+      })
+    );
+    this.sync();
+  }
+
+  /**
+   * Removes a change from the queue, together with the changes that depend on it,
+   * e.g. an application created for a discarded company.
+   * @param id - The ID of the queue entry.
+   */
+  discard(id: string): void {
+    const mutation = this.queueState().find((entry) => entry.id === id);
+    if (!mutation) return;
+
+    const discarded = this.queueState().filter(
+      (entry) => entry.id === id || dependsOn(entry, mutation)
+    );
+    this.setQueue(this.queueState().filter((entry) => !discarded.includes(entry)));
+    discarded.forEach((entry) => this.discardedSubject.next(entry));
+  }
+
+  // =================================================================================
+  // SYNC HELPERS
+  // =================================================================================
+
+  /**
+   * Sends the oldest pending change and continues with the next one.
+   * @param syncedCount - Number of changes sent successfully in this run.
+   * @private
+   */
+  private syncNext(syncedCount: number): void {
+    const mutation = this.queueState().find((entry) => entry.status === 'pending');
+    if (!mutation || !this.online()) {
+      this.syncing.set(false);
+      if (!mutation && syncedCount > 0) {
+        this.notificationService.showSuccess(
+          `${syncedCount} offline change(s) have been synced.`,
+          'Back online'
+        );
+      }
+      return;
+    }
+
+    // Changes referring to an entity whose creation could not be synced would only be
+    // rejected by the server with a misleading error, so they wait for the creation instead
+    const blockedBy = this.queueState().find(
+      (entry) => entry.status !== 'pending' && dependsOn(mutation, entry)
+    );
+    if (blockedBy) {
+      this.markProblem(
+        mutation,
+        'failed',
+        `Waiting for ${describeMutation(blockedBy)}, which could not be synced.`
+      );
+      this.syncNext(syncedCount);
+      return;
+    }
+
+    this.sendingId = mutation.id;
+    this.replay(mutation).subscribe({
+      next: (result) => {
+        this.sendingId = null;
+        this.retryDelay = RETRY_DELAY_MS;
+        if (result) {
+          this.complete(mutation, result);
+          syncedCount += 1;
+        }
+        this.syncNext(syncedCount);
+      },
+      error: (err) => {
+        this.sendingId = null;
+        if (isOfflineError(err)) {
+          // Still unreachable; the next "online" event starts a new attempt, but the browser
+          // may consider itself online while the server is down, so try again later as well
+          this.syncing.set(false);
+          this.scheduleRetry();
+          return;
+        }
+        const message = describeApiError(err);
+        this.markProblem(mutation, 'failed', message);
+        this.notificationService.showError(
+          `${describeMutation(mutation)} could not be synced: ${message}`,
+          'Sync failed'
+        );
+        this.syncNext(syncedCount);
+      },
+    });
+  }
+
+  /**
+   * Schedules a new attempt to sync the queue, with a delay that doubles after every
+   * attempt in which the server could not be reached.
+   * @private
+   */
+  private scheduleRetry(): void {
+    this.cancelRetry();
+    if (this.pendingCount() === 0) return;
+
+    this.retryScheduled.set(true);
+    this.retrySubscription = timer(this.retryDelay).subscribe(() => {
+      this.retryScheduled.set(false);
+      this.sync();
+    });
+    this.retryDelay = Math.min(this.retryDelay * 2, MAX_RETRY_DELAY_MS);
+  }
+
+  /**
+   * Cancels the scheduled new attempt, if any.
+   * @private
+   */
+  private cancelRetry(): void {
+    this.retrySubscription?.unsubscribe();
+    this.retrySubscription = undefined;
+    this.retryScheduled.set(false);
+  }
+
+  /**
+   * Sends a single change to the server.
+   * @param mutation - The change to send.
+   * @returns An Observable emitting the server's response, or `null` if the change is in conflict.
+   * @private
+   */
+  private replay(
+    mutation: QueuedMutation
+  ): Observable<Application | Company | StatusChange | null> {
+    switch (mutation.type) {
+      case 'createCompany':
+        return this.api.createCompany(mutation.payload);
+      case 'createApplication':
+        return this.api.createApplication(mutation.payload);
+      case 'createStatusChange':
+        return this.api.createStatusChange(mutation.entityId, mutation.payload);
+      case 'updateApplication': {
+        const update$ = this.api.updateApplication(String(mutation.entityId), mutation.payload);
+        const base = mutation.base;
+        if (!base) return update$;
+
+        return this.api.getApplicationById(String(mutation.entityId)).pipe(
+          switchMap((server) => {
+            if (!hasConflict(base, server)) return update$;
+
+            this.markProblem(
+              mutation,
+              'conflict',
+              'The application has been changed elsewhere in the meantime.'
+            );
+            this.notificationService.showWarning(
+              `${describeMutation(mutation)} has been changed elsewhere while you were offline. ` +
+                'Overwrite it with your version or discard your change.',
+              'Sync conflict'
+            );
+            return of(null);
+          })
+        );
+      }
+    }
+  }
+
+  /**
+   * Removes a sent change from the queue and passes the server's ID on to later changes.
+   * @param mutation - The change that has been sent.
+   * @param result - The server's response.
+   * @private
+   */
+  private complete(
+    mutation: QueuedMutation,
+    result: Application | Company | StatusChange
+  ): void {
+    const remaining = this.queueState().filter((entry) => entry.id !== mutation.id);
+    const created = mutation.type === 'createApplication' || mutation.type === 'createCompany';
+    this.setQueue(
+      created && isTemporaryId(mutation.entityId)
+        ? remaining.map((entry) => replaceTemporaryId(entry, mutation.entityId, result.id))
+        : remaining
+    );
+    this.syncedSubject.next({ mutation, result });
+  }
+
+  /**
+   * Keeps a change in the queue that needs the user's decision.
+   * @param mutation - The affected change.
+   * @param status - Why the change could not be sent.
+   * @param error - The message shown to the user.
+   * @private
+   */
+  private markProblem(
+    mutation: QueuedMutation,
+    status: 'failed' | 'conflict',
+    error: string
+  ): void {
+    this.setQueue(
+      this.queueState().map((entry) =>
+        entry.id === mutation.id ? { ...entry, status, error } : entry
+      )
+    );
+  }
+
+  // =================================================================================
+  // PERSISTENCE
+  // =================================================================================
+
+  /**
+   * Loads the queue of the user who has just logged in and sends it if possible.
+   * @private
+   */
+  private restore(): void {
+    this.offlineStorage.get<QueuedMutation[]>(QUEUE_KEY).subscribe((stored) => {
+      const queue = stored ?? [];
+      this.queueState.set(queue);
+      this.lastTemporaryId = Math.min(0, ...queue.map((mutation) => mutation.entityId));
+      this.sync();
+    });
+  }
+
+  /**
+   * Replaces the queue and stores it for the current user.
+   * @param queue - The new queue.
+   * @private
+   */
+  private setQueue(queue: QueuedMutation[]): void {
+    this.queueState.set(queue);
+    this.offlineStorage.set(QUEUE_KEY, queue).subscribe();
+  }
+}
@@ -0,0 +1,61 @@
+import { TestBed } from '@angular/core/testing';
+import { provideHttpClient } from '@angular/common/http';
+import { firstValueFrom } from 'rxjs';
+
+import { OfflineStorageService } from './offline-storage';
+import { Api } from './api';
+
+describe('OfflineStorageService', () => {
+  let service: OfflineStorageService;
+  let username: jasmine.Spy;
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({ providers: [provideHttpClient()] });
+    service = TestBed.inject(OfflineStorageService);
+    username = spyOn(TestBed.inject(Api), 'getUsername').and.returnValue('alice');
+  });
+
+  afterEach(async () => {
+    await firstValueFrom(service.remove('applications'));
+    username.and.returnValue('bob');
+    await firstValueFrom(service.remove('applications'));
+  });
+
+  it('should be created', () => {
+    expect(service).toBeTruthy();
+  });
+
+  it('should read back a stored value', async () => {
+    await firstValueFrom(service.set('applications', [{ id: 1 }]));
+
+    expect(await firstValueFrom(service.get('applications'))).toEqual([{ id: 1 }]);
+  });
+
+  it('should return undefined for removed values', async () => {
+    await firstValueFrom(service.set('applications', [{ id: 1 }]));
+    await firstValueFrom(service.remove('applications'));
+
+    expect(await firstValueFrom(service.get('applications'))).toBeUndefined();
+  });
+
+  it('should keep the values of each user apart', async () => {
+    await firstValueFrom(service.set('applications', [{ id: 1 }]));
+    username.and.returnValue('bob');
+
+    expect(await firstValueFrom(service.get('applications'))).toBeUndefined();
+    await firstValueFrom(service.set('applications', [{ id: 2 }]));
+
+    username.and.returnValue('alice');
+    expect(await firstValueFrom(service.get('applications'))).toEqual([{ id: 1 }]);
+  });
+
+  it('should neither fail nor store anything if IndexedDB cannot be opened', async () => {
+    spyOn(console, 'error');
+    spyOn(indexedDB, 'open').and.throwError('IndexedDB is disabled');
+
+    await firstValueFrom(service.set('applications', [{ id: 1 }]));
+
+    expect(await firstValueFrom(service.get('applications'))).toBeUndefined();
+    expect(console.error).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,128 @@
+import { Injectable, inject } from '@angular/core';
+import { Observable, defer, of } from 'rxjs';
+import { catchError, shareReplay, switchMap } from 'rxjs/operators';
+import { Api } from './api';
+
+/** Name of the IndexedDB database holding the offline data. */
+const DB_NAME = 'application-tracker';
+
+/** Name of the object store in which all values are kept under string keys. */
+const STORE_NAME = 'offline';
+
+/**
+ * Service for keeping data in IndexedDB, so that it is available while offline.
+ *
+ * Values are stored under a key that contains the username, so that several users
+ * sharing a browser keep their own data. If IndexedDB is not available (e.g. in some
+ * private browsing modes), reading returns `undefined` and writing does nothing.
+ *
+ * @example
+ * ```typescript
+ * this.offlineStorage.set('applications', applications).subscribe();
+ * this.offlineStorage.get<Application[]>('applications').subscribe(cached => ...);
+ * ```
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class OfflineStorageService {
+  /** API service, used to determine the current user. */
+  private apiService = inject(Api);
+
+  /**
+   * The opened database, shared by all operations. Opened on first use.
+   * @private
+   */
+  private db$: Observable<IDBDatabase> = defer(
+    () =>
+      new Observable<IDBDatabase>((subscriber) => {
+        const request = indexedDB.open(DB_NAME, 1);
+        request.onupgradeneeded = () => request.result.createObjectStore(STORE_NAME);
+        request.onsuccess = () => {
+          subscriber.next(request.result);
+          subscriber.complete();
+        };
+        request.onerror = () => subscriber.error(request.error);
+      })
+  ).pipe(shareReplay(1));
+
+  /**
+   * Reads a value of the current user.
+   * @param key - The key of the value.
+   * @returns An Observable emitting the value, or `undefined` if nothing is stored.
+   */
+  get<T>(key: string): Observable<T | undefined> {
+    return this.request<T | undefined>('readonly', (store) => store.get(this.userKey(key))).pipe(
+      catchError((err) => {
+        console.error(`Error reading "${key}" from offline storage:`, err);
+        return of(undefined);
+      })
+    );
+  }
+
+  /**
+   * Stores a value for the current user, replacing any previous value.
+   * @param key - The key of the value.
+   * @param value - The value; must be serializable by the structured clone algorithm.
+   */
+  set(key: string, value: unknown): Observable<void> {
+    return this.write(key, (store) => store.put(value, this.userKey(key)));
+  }
+
+  /**
+   * Removes a value of the current user.
+   * @param key - The key of the value.
+   */
+  remove(key: string): Observable<void> {
+    return this.write(key, (store) => store.delete(this.userKey(key)));
+  }
+
+  /**
+   * Runs a write operation and reports errors without failing.
+   * @param key - The key of the value, for the error message.
+   * @param operation - The operation to run on the object store.
+   * @private
+   */
+  private write(key: string, operation: (store: IDBObjectStore) => IDBRequest): Observable<void> {
+    return this.request<void>('readwrite', operation).pipe(
+      catchError((err) => {
+        console.error(`Error writing "${key}" to offline storage:`, err);
+        return of(undefined);
+      })
+    );
+  }
+
+  /**
+   * Runs a single request in a new transaction on the object store.
+   * @param mode - The transaction mode.
+   * @param operation - Creates the request on the object store.
+   * @private
+   */
+  private request<T>(
+    mode: IDBTransactionMode,
+    operation: (store: IDBObjectStore) => IDBRequest
+  ): Observable<T> {
+    return this.db$.pipe(
+      switchMap(
+        (db) =>
+          new Observable<T>((subscriber) => {
+            const request = operation(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+            request.onsuccess = () => {
+              subscriber.next(request.result as T);
+              subscriber.complete();
+            };
+            request.onerror = () => subscriber.error(request.error);
+          })
+      )
+    );
+  }
+
+  /**
+   * Builds the storage key for the current user.
+   * @param key - The key of the value.
+   * @private
+   */
+  private userKey(key: string): string {
+    return `${this.apiService.getUsername() ?? 'default'}:${key}`;
+  }
+}
@@ -0,0 +1,25 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+
+import { ConfirmDialog } from './confirm-dialog';
+
+describe('ConfirmDialog', () => {
+  let component: ConfirmDialog;
+  let fixture: ComponentFixture<ConfirmDialog>;
+
+  beforeEach(async () => {
+    await TestBed.configureTestingModule({
+      imports: [ConfirmDialog]
+    })
+    .compileComponents();
+
+    fixture = TestBed.createComponent(ConfirmDialog);
+    component = fixture.componentInstance;
+    fixture.componentRef.setInput('title', 'Löschen');
+    fixture.componentRef.setInput('message', 'Wirklich löschen?');
+    fixture.detectChanges();
+  });
+
+  it('should create', () => {
+    expect(component).toBeTruthy();
+  });
+});
@@ -0,0 +1,49 @@
+import { Component, input, output } from '@angular/core';
+
+/**
+ * A modal dialog that asks the user to confirm or cancel an action.
+ *
+ * The dialog is rendered as long as it is part of the template, so the parent
+ * controls its visibility with an `@if` block.
+ *
+ * @example
+ * ```html
+ * @if (applicationToDelete) {
+ *   <app-confirm-dialog
+ *     title="Bewerbung löschen"
+ *     message="Diese Bewerbung wirklich löschen?"
+ *     confirmLabel="Löschen"
+ *     (confirmed)="deleteApplication()"
+ *     (cancelled)="applicationToDelete = null"
+ *   ></app-confirm-dialog>
+ * }
+ * ```
+ */
+@Component({
+  selector: 'app-confirm-dialog',
+  standalone: true,
+  templateUrl: './confirm-dialog.html',
+  styleUrl: './confirm-dialog.scss',
+})
+export class ConfirmDialog {
+  /** The dialog heading. */
+  title = input.required<string>();
+
+  /** The question or explanation shown in the dialog body. */
+  message = input.required<string>();
+
+  /** The label of the confirm button. */
+  confirmLabel = input('Bestätigen');
+
+  /** The label of the cancel button. */
+  cancelLabel = input('Abbrechen');
+
+  /** If `true`, the confirm button is styled as a destructive action. */
+  danger = input(true);
+
+  /** Emits when the user confirms the action. */
+  confirmed = output<void>();
+
+  /** Emits when the user cancels, either via the button or by clicking the backdrop. */
+  cancelled = output<void>();
+}
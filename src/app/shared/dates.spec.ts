@@ -0,0 +1,15 @@
+import { isFollowUpDue, toLocalDateString } from './dates';
+
+describe('dates', () => {
+  it('should format dates in the local time zone', () => {
+    expect(toLocalDateString(new Date(2024, 2, 1, 23, 30))).toBe('2024-03-01');
+  });
+
+  it('should treat a follow-up as due for the whole day', () => {
+    const tomorrow = new Date();
+    tomorrow.setDate(tomorrow.getDate() + 1);
+    expect(isFollowUpDue(toLocalDateString())).toBeTrue();
+    expect(isFollowUpDue(toLocalDateString(tomorrow))).toBeFalse();
+    expect(isFollowUpDue(null)).toBeFalse();
+  });
+});
@@ -0,0 +1,24 @@
+/**
+ * Formats a date in the local time zone as `YYYY-MM-DD`, the format of the API's date fields.
+ *
+ * @param date - The date to format; defaults to now.
+ * @returns The local calendar date, e.g. `2024-03-01`.
+ */
+export function toLocalDateString(date: Date = new Date()): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * Determines if a given follow-up date is due (today or in the past).
+ *
+ * @param dateString - The follow-up date as an ISO formatted string, or `null`.
+ * @returns `true` if the follow-up date is today or in the past, otherwise `false`.
+ */
+export function isFollowUpDue(dateString: string | null): boolean {
+  if (!dateString) return false;
+
+  // Compare calendar dates, so that a follow-up is due for the whole day in every time zone
+  return dateString.slice(0, 10) <= toLocalDateString();
+}
@@ -0,0 +1,37 @@
+import {
+  DOCUMENT_ACCEPT,
+  MAX_DOCUMENT_SIZE,
+  formatFileSize,
+  guessDocumentType,
+  validateDocumentFile,
+} from './document-files';
+
+describe('document files', () => {
+  it('should accept PDF and DOCX files', () => {
+    expect(validateDocumentFile({ name: 'Lebenslauf.pdf', size: 1000 })).toBeNull();
+    expect(validateDocumentFile({ name: 'Anschreiben.DOCX', size: 1000 })).toBeNull();
+    expect(DOCUMENT_ACCEPT).toContain('.pdf');
+  });
+
+  it('should reject other, empty and too large files', () => {
+    expect(validateDocumentFile({ name: 'Foto.jpg', size: 1000 })).toContain('not a PDF or DOCX');
+    expect(validateDocumentFile({ name: 'Lebenslauf.pdf', size: 0 })).toContain('empty');
+    expect(validateDocumentFile({ name: 'Lebenslauf.pdf', size: MAX_DOCUMENT_SIZE + 1 })).toContain(
+      'larger than 10,0 MB'
+    );
+  });
+
+  it('should guess the document type from the file name', () => {
+    expect(guessDocumentType('Lebenslauf_Muster_2024.pdf')).toBe('CV');
+    expect(guessDocumentType('cv-english.pdf')).toBe('CV');
+    expect(guessDocumentType('Anschreiben ACME.docx')).toBe('COVER_LETTER');
+    expect(guessDocumentType('Arbeitszeugnis.pdf')).toBe('CERTIFICATE');
+    expect(guessDocumentType('Portfolio.pdf')).toBe('OTHER');
+  });
+
+  it('should format file sizes', () => {
+    expect(formatFileSize(512)).toBe('512 B');
+    expect(formatFileSize(250 * 1024)).toBe('250 KB');
+    expect(formatFileSize(1.25 * 1024 * 1024)).toBe('1,3 MB');
+  });
+});
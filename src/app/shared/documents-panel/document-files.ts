@@ -0,0 +1,70 @@
+import { DocumentType } from '../../models/api-interfaces';
+
+/** The largest file that can be uploaded, in bytes. */
+export const MAX_DOCUMENT_SIZE = 10 * 1024 * 1024;
+
+/**
+ * The file types that can be uploaded, by extension and MIME type.
+ */
+const ACCEPTED_FILE_TYPES: Record<string, string> = {
+  '.pdf': 'application/pdf',
+  '.docx': 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+};
+
+/** The value for the `accept` attribute of the file input. */
+export const DOCUMENT_ACCEPT = Object.entries(ACCEPTED_FILE_TYPES).flat().join(',');
+
+/**
+ * Returns the lower-case extension of a file name, including the dot.
+ * @param name - The file name.
+ * @private
+ */
+function extensionOf(name: string): string {
+  const dot = name.lastIndexOf('.');
+  return dot === -1 ? '' : name.slice(dot).toLowerCase();
+}
+
+/**
+ * Checks whether a file can be uploaded as a document.
+ *
+ * The type is checked by the file extension, because browsers do not report a MIME type
+ * for DOCX files on every system.
+ *
+ * @param file - The selected file.
+ * @returns An error message, or `null` if the file can be uploaded.
+ */
+export function validateDocumentFile(file: Pick<File, 'name' | 'size'>): string | null {
+  if (!(extensionOf(file.name) in ACCEPTED_FILE_TYPES)) {
+    return `"${file.name}" is not a PDF or DOCX file.`;
+  }
+  if (file.size === 0) {
+    return `"${file.name}" is empty.`;
+  }
+  if (file.size > MAX_DOCUMENT_SIZE) {
+    return `"${file.name}" is larger than ${formatFileSize(MAX_DOCUMENT_SIZE)}.`;
+  }
+  return null;
+}
+
+/**
+ * Guesses the kind of document from its file name, e.g. `Lebenslauf_2024.pdf` is a CV.
+ * @param name - The file name.
+ * @returns The document type, `OTHER` if the name gives no hint.
+ */
+export function guessDocumentType(name: string): DocumentType {
+  const lower = name.toLowerCase();
+  if (/lebenslauf|\bcv\b|_cv|cv_|resume|résumé/.test(lower)) return 'CV';
+  if (/anschreiben|cover|motivation|bewerbungsschreiben/.test(lower)) return 'COVER_LETTER';
+  if (/zeugnis|zertifikat|certificate|urkunde/.test(lower)) return 'CERTIFICATE';
+  return 'OTHER';
+}
+
+/**
+ * Formats a file size for display, e.g. `245 KB` or `1,2 MB`.
+ * @param bytes - The size in bytes.
+ */
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(1).replace('.', ',')} MB`;
+}
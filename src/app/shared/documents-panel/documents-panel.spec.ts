@@ -0,0 +1,72 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { HttpEventType, provideHttpClient } from '@angular/common/http';
+import { HttpTestingController, provideHttpClientTesting } from '@angular/common/http/testing';
+import { provideToastr } from 'ngx-toastr';
+
+import { DocumentsPanel } from './documents-panel';
+import { OfflineQueueService } from '../../services/offline-queue';
+
+describe('DocumentsPanel', () => {
+  let component: DocumentsPanel;
+  let fixture: ComponentFixture<DocumentsPanel>;
+  let httpTesting: HttpTestingController;
+
+  beforeEach(async () => {
+    await TestBed.configureTestingModule({
+      imports: [DocumentsPanel],
+      providers: [provideHttpClient(), provideHttpClientTesting(), provideToastr()]
+    })
+    .compileComponents();
+
+    TestBed.inject(OfflineQueueService).online.set(true);
+    httpTesting = TestBed.inject(HttpTestingController);
+    fixture = TestBed.createComponent(DocumentsPanel);
+    component = fixture.componentInstance;
+    fixture.componentRef.setInput('applicationId', 1);
+    fixture.componentRef.setInput('documents', [
+      {
+        id: 1,
+        name: 'Lebenslauf.pdf',
+        document_type: 'CV',
+        content_type: 'application/pdf',
+        size: 250 * 1024,
+        uploaded_at: '2024-03-01T10:00:00Z',
+      },
+    ]);
+    fixture.detectChanges();
+  });
+
+  it('should create', () => {
+    expect(component).toBeTruthy();
+  });
+
+  it('should show the upload progress in percent', () => {
+    const file = new File(['%PDF'], 'Anschreiben.pdf', { type: 'application/pdf' });
+    const input = document.createElement('input');
+    input.type = 'file';
+    Object.defineProperty(input, 'files', { value: [file] });
+
+    component.onFilesSelected({ target: input } as unknown as Event);
+
+    const request = httpTesting.expectOne((req) => req.url.endsWith('/applications/1/documents/upload/'));
+    expect(request.request.reportProgress).toBeTrue();
+    expect(component.uploads()[0].progress).toBe(0);
+
+    request.event({ type: HttpEventType.UploadProgress, loaded: 1, total: 4 });
+    expect(component.uploads()[0].progress).toBe(25);
+
+    request.event({ type: HttpEventType.UploadProgress, loaded: 4, total: 4 });
+    expect(component.uploads()[0].progress).toBe(100);
+
+    request.flush({
+      id: 2,
+      name: 'Anschreiben.pdf',
+      document_type: 'COVER_LETTER',
+      content_type: 'application/pdf',
+      size: 4,
+      uploaded_at: '2024-03-02T10:00:00Z',
+    });
+    expect(component.uploads()).toEqual([]);
+    expect(component.attachedDocuments().map((d) => d.id)).toEqual([2, 1]);
+  });
+});
@@ -0,0 +1,226 @@
+import { Component, OnInit, computed, inject, input, linkedSignal, signal } from '@angular/core';
+import { DatePipe } from '@angular/common';
+import { HttpEventType } from '@angular/common/http';
+import { FormControl, ReactiveFormsModule } from '@angular/forms';
+import { finalize } from 'rxjs/operators';
+import { Api } from '../../services/api';
+import { DataStoreService } from '../../services/data-store';
+import { ApiErrorService } from '../../services/api-error';
+import { NotificationService } from '../../services/notification';
+import { OfflineQueueService, isTemporaryId } from '../../services/offline-queue';
+import { downloadFile } from '../../services/application-export';
+import { DOCUMENT_TYPE_DISPLAY, DocumentFile, DocumentType } from '../../models/api-interfaces';
+import {
+  DOCUMENT_ACCEPT,
+  formatFileSize,
+  guessDocumentType,
+  validateDocumentFile,
+} from './document-files';
+
+/**
+ * A file that is being uploaded.
+ */
+interface Upload {
+  /** A running number identifying the upload. */
+  id: number;
+  name: string;
+  /** The upload progress in percent. */
+  progress: number;
+}
+
+/**
+ * Lists the documents attached to an application, e.g. the CV and cover letter sent to the
+ * company, and lets the user upload, download and remove them.
+ *
+ * Uploaded files are added to the document library, so the same version can be attached to
+ * other applications by selecting it from the library. Every change is saved right away;
+ * documents cannot be changed while offline or for applications that have not been synced yet.
+ *
+ * @example
+ * ```html
+ * <app-documents-panel [applicationId]="application.id" [documents]="application.documents ?? []"></app-documents-panel>
+ * ```
+ */
+@Component({
+  selector: 'app-documents-panel',
+  standalone: true,
+  imports: [DatePipe, ReactiveFormsModule],
+  templateUrl: './documents-panel.html',
+  styleUrl: './documents-panel.scss',
+})
+export class DocumentsPanel implements OnInit {
+  private api = inject(Api);
+  private store = inject(DataStoreService);
+  private apiErrorService = inject(ApiErrorService);
+  private notificationService = inject(NotificationService);
+  private offlineQueue = inject(OfflineQueueService);
+
+  /** The ID of the application the documents belong to. */
+  applicationId = input.required<number>();
+
+  /** The documents attached to the application. */
+  documents = input<DocumentFile[]>([]);
+
+  /** The documents shown in the panel, updated after each saved change. */
+  private items = linkedSignal(() => this.documents());
+
+  /** The attached documents, newest first. */
+  attachedDocuments = computed(() =>
+    [...this.items()].sort((a, b) => b.uploaded_at.localeCompare(a.uploaded_at))
+  );
+
+  /** The documents of the library that are not attached to the application yet. */
+  libraryOptions = computed(() => {
+    const attached = new Set(this.items().map((document) => document.id));
+    return this.store.documents().filter((document) => !attached.has(document.id));
+  });
+
+  /** Whether documents can be changed; they are saved directly and cannot be queued offline. */
+  canEdit = computed(() => this.offlineQueue.online() && !isTemporaryId(this.applicationId()));
+
+  /**
+   * The files that are being uploaded.
+   * @default []
+   */
+  uploads = signal<Upload[]>([]);
+
+  /**
+   * Whether a document is being attached or removed; disables the actions.
+   * @default false
+   */
+  isSaving = signal(false);
+
+  /** The type for uploaded files; empty to guess it from the file name. */
+  uploadTypeControl = new FormControl<DocumentType | ''>('', { nonNullable: true });
+
+  /** The ID of the library document selected for attaching. */
+  libraryControl = new FormControl<number | null>(null);
+
+  /** The document types offered for uploads. */
+  readonly documentTypes = Object.entries(DOCUMENT_TYPE_DISPLAY) as [DocumentType, string][];
+
+  /** Display names of the document types. */
+  readonly documentTypeLabels = DOCUMENT_TYPE_DISPLAY;
+
+  /** The file types accepted by the file input. */
+  readonly accept = DOCUMENT_ACCEPT;
+
+  /** Formats the file sizes in the template. */
+  readonly formatFileSize = formatFileSize;
+
+  /** The number given to the next upload. */
+  private nextUploadId = 1;
+
+  /**
+   * Loads the document library, so documents can be reused across applications.
+   */
+  ngOnInit(): void {
+    if (!this.canEdit()) return;
+    this.store.loadDocuments().subscribe({
+      error: (err) => console.error('Error loading documents:', err),
+    });
+  }
+
+  /**
+   * Uploads the files selected in the file input. Files that are not PDF or DOCX files,
+   * or are too large, are skipped with an error message.
+   * @param event - The change event of the file input.
+   */
+  onFilesSelected(event: Event): void {
+    const input = event.target as HTMLInputElement;
+    const files = Array.from(input.files ?? []);
+    // Allow selecting the same file again
+    input.value = '';
+
+    for (const file of files) {
+      const error = validateDocumentFile(file);
+      if (error) {
+        this.notificationService.showError(error, 'Invalid file');
+      } else {
+        this.upload(file);
+      }
+    }
+  }
+
+  /**
+   * Attaches the document selected from the library.
+   */
+  attachFromLibrary(): void {
+    const documentId = this.libraryControl.value;
+    if (documentId === null || !this.canEdit()) return;
+
+    this.isSaving.set(true);
+    this.store
+      .attachDocument(this.applicationId(), documentId)
+      .pipe(finalize(() => this.isSaving.set(false)))
+      .subscribe({
+        next: (document) => {
+          this.addItem(document);
+          this.libraryControl.reset();
+        },
+        error: (err) => this.apiErrorService.handle(err, { title: 'Document could not be attached' }),
+      });
+  }
+
+  /**
+   * Removes a document from the application. It stays in the library.
+   * @param document - The document to remove.
+   */
+  detach(document: DocumentFile): void {
+    this.isSaving.set(true);
+    this.store
+      .detachDocument(this.applicationId(), document.id)
+      .pipe(finalize(() => this.isSaving.set(false)))
+      .subscribe({
+        next: () => this.items.update((documents) => documents.filter((d) => d.id !== document.id)),
+        error: (err) => this.apiErrorService.handle(err, { title: 'Document could not be removed' }),
+      });
+  }
+
+  /**
+   * Downloads the file of a document.
+   * @param document - The document to download.
+   */
+  download(document: DocumentFile): void {
+    this.api.downloadDocument(document.id).subscribe({
+      next: (content) => downloadFile(content, document.name, document.content_type),
+      error: (err) => this.apiErrorService.handle(err, { title: 'Document could not be downloaded' }),
+    });
+  }
+
+  /**
+   * Uploads a file, attaches it to the application and tracks the upload progress.
+   * @param file - The file to upload.
+   * @private
+   */
+  private upload(file: File): void {
+    const id = this.nextUploadId++;
+    const documentType = this.uploadTypeControl.value || guessDocumentType(file.name);
+    this.uploads.update((uploads) => [...uploads, { id, name: file.name, progress: 0 }]);
+
+    this.store
+      .uploadDocument(file, documentType, this.applicationId())
+      .pipe(finalize(() => this.uploads.update((uploads) => uploads.filter((u) => u.id !== id))))
+      .subscribe({
+        next: (event) => {
+          if (event.type === HttpEventType.UploadProgress && event.total) {
+            const progress = Math.round((event.loaded / event.total) * 100);
+            this.uploads.update((uploads) => uploads.map((u) => (u.id === id ? { ...u, progress } : u)));
+          } else if (event.type === HttpEventType.Response && event.body) {
+            this.addItem(event.body);
+            this.notificationService.showSuccess(`"${file.name}" uploaded.`);
+          }
+        },
+        error: (err) => this.apiErrorService.handle(err, { title: 'Document could not be uploaded' }),
+      });
+  }
+
+  /**
+   * Adds a saved document to the list, replacing an older copy of it.
+   * @param document - The saved document.
+   * @private
+   */
+  private addItem(document: DocumentFile): void {
+    this.items.update((documents) => [...documents.filter((d) => d.id !== document.id), document]);
+  }
+}
@@ -0,0 +1,24 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+
+import { DraftBanner } from './draft-banner';
+
+describe('DraftBanner', () => {
+  let component: DraftBanner;
+  let fixture: ComponentFixture<DraftBanner>;
+
+  beforeEach(async () => {
+    await TestBed.configureTestingModule({
+      imports: [DraftBanner]
+    })
+    .compileComponents();
+
+    fixture = TestBed.createComponent(DraftBanner);
+    component = fixture.componentInstance;
+    fixture.componentRef.setInput('savedAt', '2024-01-01T10:00:00Z');
+    fixture.detectChanges();
+  });
+
+  it('should create', () => {
+    expect(component).toBeTruthy();
+  });
+});
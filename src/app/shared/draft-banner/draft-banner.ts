@@ -0,0 +1,34 @@
+import { Component, input, output } from '@angular/core';
+import { DatePipe } from '@angular/common';
+
+/**
+ * Offers to restore an autosaved form draft.
+ *
+ * @example
+ * ```html
+ * @if (draft) {
+ *   <app-draft-banner
+ *     [savedAt]="draft.savedAt"
+ *     (restore)="onRestoreDraft()"
+ *     (discard)="onDiscardDraft()"
+ *   ></app-draft-banner>
+ * }
+ * ```
+ */
+@Component({
+  selector: 'app-draft-banner',
+  standalone: true,
+  imports: [DatePipe],
+  templateUrl: './draft-banner.html',
+  styleUrl: './draft-banner.scss',
+})
+export class DraftBanner {
+  /** When the draft was saved, as an ISO timestamp. */
+  savedAt = input.required<string>();
+
+  /** Emits when the user wants to continue with the draft. */
+  restore = output<void>();
+
+  /** Emits when the user wants to delete the draft. */
+  discard = output<void>();
+}
@@ -0,0 +1,46 @@
+import { FormControl } from '@angular/forms';
+import { jobPostingUrlValidator, parseJobPostingLink, slugToTitle } from './job-posting-link';
+
+describe('job-posting-link', () => {
+  it('should accept empty values and http(s) URLs only', () => {
+    expect(jobPostingUrlValidator(new FormControl(''))).toBeNull();
+    expect(jobPostingUrlValidator(new FormControl('https://example.com/jobs/1'))).toBeNull();
+    expect(jobPostingUrlValidator(new FormControl('example.com/jobs/1'))).toEqual({ url: true });
+    expect(jobPostingUrlValidator(new FormControl('ftp://example.com'))).toEqual({ url: true });
+  });
+
+  it('should turn slugs into titles and drop gender suffixes', () => {
+    expect(slugToTitle('frontend-developer-m-w-d')).toBe('Frontend Developer');
+    expect(slugToTitle('tech-corp')).toBe('Tech Corp');
+  });
+
+  it('should read job title and company from LinkedIn URLs', () => {
+    expect(
+      parseJobPostingLink('https://www.linkedin.com/jobs/view/frontend-developer-at-tech-corp-3812345678/')
+    ).toEqual({
+      board: 'LinkedIn',
+      host: 'linkedin.com',
+      recognized: true,
+      jobTitle: 'Frontend Developer',
+      companyName: 'Tech Corp',
+    });
+  });
+
+  it('should read the company from applicant tracking systems', () => {
+    expect(parseJobPostingLink('https://techcorp.jobs.personio.de/job/123456')?.companyName).toBe('Techcorp');
+    expect(parseJobPostingLink('https://boards.greenhouse.io/techcorp/jobs/123')?.board).toBe('Greenhouse');
+    const smart = parseJobPostingLink('https://jobs.smartrecruiters.com/TechCorp/743999-data-analyst');
+    expect(smart?.jobTitle).toBe('Data Analyst');
+    expect(smart?.companyName).toBe('TechCorp');
+  });
+
+  it('should recognise boards without details and fall back to the host', () => {
+    expect(parseJobPostingLink('https://de.indeed.com/viewjob?jk=abc')).toEqual(
+      jasmine.objectContaining({ board: 'Indeed', recognized: true, jobTitle: null })
+    );
+    expect(parseJobPostingLink('https://www.example.com/careers/42')).toEqual(
+      jasmine.objectContaining({ board: 'example.com', recognized: false })
+    );
+    expect(parseJobPostingLink('not a url')).toBeNull();
+  });
+});
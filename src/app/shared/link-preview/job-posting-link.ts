@@ -0,0 +1,175 @@
+import { AbstractControl, ValidationErrors, ValidatorFn } from '@angular/forms';
+
+/**
+ * What could be read from the URL of a job posting.
+ */
+export interface JobPostingInfo {
+  /** The name of the job board, or the host name for unknown sites. */
+  board: string;
+  /** The host name without `www.`. */
+  host: string;
+  /** `true` if the URL belongs to one of the {@link JOB_BOARDS}. */
+  recognized: boolean;
+  /** The job title, if the URL contains it. */
+  jobTitle: string | null;
+  /** The company name, if the URL contains it. */
+  companyName: string | null;
+}
+
+/**
+ * A job board whose URLs can be recognised.
+ */
+interface JobBoard {
+  name: string;
+  /** Matches the host name of the board. */
+  host: RegExp;
+  /**
+   * Reads the job title and the company from the URL.
+   * @param url - The parsed URL.
+   * @param hostMatch - The match of {@link host}, for boards with the company in the subdomain.
+   */
+  parse?: (url: URL, hostMatch: RegExpMatchArray) => Pick<JobPostingInfo, 'jobTitle' | 'companyName'>;
+}
+
+/**
+ * Converts a URL slug like `frontend-developer-m-w-d` into a title like `Frontend Developer`.
+ * Gender suffixes common in German job titles are dropped.
+ * @param slug - The slug from the URL.
+ */
+export function slugToTitle(slug: string): string {
+  let decoded = slug;
+  try {
+    decoded = decodeURIComponent(slug);
+  } catch {
+    // Keep malformed escape sequences as they are
+  }
+  return decoded
+    .replace(/[-_+]+/g, ' ')
+    .replace(/\b[mwfd]\s[mwfd](\s[mwfd])?\b/gi, '')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .replace(/(^|\s)(\p{L})/gu, (_, space: string, letter: string) => space + letter.toUpperCase());
+}
+
+/**
+ * Returns the path segments of a URL without empty segments.
+ * @param url - The parsed URL.
+ * @private
+ */
+function segments(url: URL): string[] {
+  return url.pathname.split('/').filter(Boolean);
+}
+
+/** The job boards and applicant tracking systems that are recognised, with their URL formats. */
+const JOB_BOARDS: JobBoard[] = [
+  {
+    // linkedin.com/jobs/view/frontend-developer-at-tech-corp-1234567890
+    name: 'LinkedIn',
+    host: /(^|\.)linkedin\.com$/,
+    parse: (url) => {
+      const slug = segments(url)[2]?.replace(/-\d+$/, '') ?? '';
+      const [title, company] = slug.split('-at-');
+      return {
+        jobTitle: title && company ? slugToTitle(title) : null,
+        companyName: company ? slugToTitle(company) : null,
+      };
+    },
+  },
+  // StepStone, Indeed, XING and others mix title, location and company in their URLs or do not contain them
+  { name: 'StepStone', host: /(^|\.)stepstone\.(de|at|be|nl)$/ },
+  { name: 'Indeed', host: /(^|\.)indeed\.(com|de|at|ch)$/ },
+  { name: 'XING', host: /(^|\.)xing\.com$/ },
+  { name: 'Glassdoor', host: /(^|\.)glassdoor\.(com|de)$/ },
+  { name: 'Arbeitsagentur', host: /(^|\.)arbeitsagentur\.de$/ },
+  {
+    // boards.greenhouse.io/techcorp/jobs/123456
+    name: 'Greenhouse',
+    host: /(^|\.)greenhouse\.io$/,
+    parse: (url) => ({ jobTitle: null, companyName: segments(url)[0] ? slugToTitle(segments(url)[0]) : null }),
+  },
+  {
+    // jobs.lever.co/techcorp/0a1b2c3d-...
+    name: 'Lever',
+    host: /^jobs\.lever\.co$/,
+    parse: (url) => ({ jobTitle: null, companyName: segments(url)[0] ? slugToTitle(segments(url)[0]) : null }),
+  },
+  {
+    // jobs.smartrecruiters.com/TechCorp/123456-frontend-developer
+    name: 'SmartRecruiters',
+    host: /^jobs\.smartrecruiters\.com$/,
+    parse: (url) => {
+      const [company, job] = segments(url);
+      const title = job?.replace(/^\d+-/, '');
+      return {
+        jobTitle: title ? slugToTitle(title) : null,
+        companyName: company ? slugToTitle(company) : null,
+      };
+    },
+  },
+  {
+    // techcorp.jobs.personio.de/job/123456
+    name: 'Personio',
+    host: /^([^.]+)\.jobs\.personio\.(de|com)$/,
+    parse: (_, hostMatch) => ({ jobTitle: null, companyName: slugToTitle(hostMatch[1]) }),
+  },
+  {
+    // techcorp.wd3.myworkdayjobs.com/en-US/careers/job/Berlin/Frontend-Developer_R123
+    name: 'Workday',
+    host: /^([^.]+)\.wd\d+\.myworkdayjobs\.com$/,
+    parse: (url, hostMatch) => {
+      const job = segments(url).at(-1)?.replace(/_[A-Z]*-?\d+(-\d+)?$/, '');
+      return {
+        jobTitle: segments(url).includes('job') && job ? slugToTitle(job) : null,
+        companyName: slugToTitle(hostMatch[1]),
+      };
+    },
+  },
+];
+
+/**
+ * Parses a URL if it is a valid `http` or `https` URL.
+ * @param value - The entered text.
+ * @returns The parsed URL, or `null`.
+ * @private
+ */
+function parseHttpUrl(value: string): URL | null {
+  try {
+    const url = new URL(value.trim());
+    return url.protocol === 'http:' || url.protocol === 'https:' ? url : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Validates that a control contains a complete `http` or `https` URL. Empty values are valid.
+ * @param control - The control to validate.
+ * @returns `{ url: true }` if the value is not a valid URL, otherwise `null`.
+ */
+export const jobPostingUrlValidator: ValidatorFn = (control: AbstractControl): ValidationErrors | null => {
+  const value = (control.value ?? '').trim();
+  return !value || parseHttpUrl(value) ? null : { url: true };
+};
+
+/**
+ * Reads the job board, the job title and the company from the URL of a job posting.
+ *
+ * Only the URL itself is evaluated; the page is not requested, as job boards do not allow
+ * reading their pages from other sites.
+ *
+ * @param value - The URL of the job posting.
+ * @returns What could be read from the URL, or `null` if it is not a valid URL.
+ */
+export function parseJobPostingLink(value: string): JobPostingInfo | null {
+  const url = parseHttpUrl(value);
+  if (!url) return null;
+
+  const host = url.hostname.replace(/^www\./, '');
+  for (const board of JOB_BOARDS) {
+    const hostMatch = host.match(board.host);
+    if (!hostMatch) continue;
+    const parsed = board.parse?.(url, hostMatch) ?? { jobTitle: null, companyName: null };
+    return { board: board.name, host, recognized: true, ...parsed };
+  }
+  return { board: host, host, recognized: false, jobTitle: null, companyName: null };
+}
@@ -0,0 +1,24 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+
+import { LinkPreview } from './link-preview';
+
+describe('LinkPreview', () => {
+  let component: LinkPreview;
+  let fixture: ComponentFixture<LinkPreview>;
+
+  beforeEach(async () => {
+    await TestBed.configureTestingModule({
+      imports: [LinkPreview]
+    })
+    .compileComponents();
+
+    fixture = TestBed.createComponent(LinkPreview);
+    component = fixture.componentInstance;
+    fixture.componentRef.setInput('url', 'https://www.linkedin.com/jobs/view/frontend-developer-at-tech-corp-123/');
+    fixture.detectChanges();
+  });
+
+  it('should create', () => {
+    expect(component).toBeTruthy();
+  });
+});
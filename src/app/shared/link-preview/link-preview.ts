@@ -0,0 +1,39 @@
+import { Component, computed, input } from '@angular/core';
+import { parseJobPostingLink } from './job-posting-link';
+
+/**
+ * Shows the link to a job posting as a small preview with the job board and, if the URL
+ * contains them, the job title and the company.
+ *
+ * The compact variant shows a single line for the board cards.
+ *
+ * @example
+ * ```html
+ * <app-link-preview [url]="application.job_posting_link"></app-link-preview>
+ * <app-link-preview [url]="app.job_posting_link" [compact]="true"></app-link-preview>
+ * ```
+ */
+@Component({
+  selector: 'app-link-preview',
+  standalone: true,
+  templateUrl: './link-preview.html',
+  styleUrl: './link-preview.scss',
+})
+export class LinkPreview {
+  /** The URL of the job posting. */
+  url = input.required<string>();
+
+  /** If `true`, only a single line with the job board is shown. */
+  compact = input(false);
+
+  /** What could be read from the URL, or `null` if it is not a valid URL. */
+  info = computed(() => parseJobPostingLink(this.url()));
+
+  /**
+   * The URL without protocol, shortened for display.
+   */
+  displayUrl = computed(() => {
+    const text = this.url().replace(/^https?:\/\/(www\.)?/, '');
+    return text.length > 60 ? `${text.slice(0, 57)}...` : text;
+  });
+}
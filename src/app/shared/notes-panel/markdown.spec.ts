@@ -0,0 +1,45 @@
+import { renderMarkdown } from './markdown';
+
+describe('renderMarkdown', () => {
+  it('should render paragraphs with line breaks', () => {
+    expect(renderMarkdown('Erste Zeile\nzweite Zeile\n\nNeuer Absatz')).toBe(
+      '<p>Erste Zeile<br>zweite Zeile</p><p>Neuer Absatz</p>'
+    );
+  });
+
+  it('should render inline formatting', () => {
+    expect(renderMarkdown('**fett**, *kursiv*, ~~alt~~ und `code`')).toBe(
+      '<p><strong>fett</strong>, <em>kursiv</em>, <del>alt</del> und <code>code</code></p>'
+    );
+  });
+
+  it('should not format text inside code spans', () => {
+    expect(renderMarkdown('`**kein fett**`')).toBe('<p><code>**kein fett**</code></p>');
+  });
+
+  it('should render headings, lists and quotes', () => {
+    expect(renderMarkdown('# Vorbereitung\n- Firma\n- Team\n1. Frage\n2. Antwort\n> Zitat')).toBe(
+      '<h4>Vorbereitung</h4><ul><li>Firma</li><li>Team</li></ul>' +
+        '<ol><li>Frage</li><li>Antwort</li></ol><blockquote>Zitat</blockquote>'
+    );
+  });
+
+  it('should render code blocks without formatting', () => {
+    expect(renderMarkdown('```\nconst a = 1 * 2 * 3;\n```')).toBe(
+      '<pre><code>const a = 1 * 2 * 3;</code></pre>'
+    );
+  });
+
+  it('should render http links and leave other links as text', () => {
+    expect(renderMarkdown('[Anzeige](https://example.com/job)')).toBe(
+      '<p><a href="https://example.com/job" target="_blank" rel="noopener noreferrer">Anzeige</a></p>'
+    );
+    expect(renderMarkdown('[Klick](javascript:alert(1))')).toBe('<p>[Klick](javascript:alert(1))</p>');
+  });
+
+  it('should escape HTML', () => {
+    expect(renderMarkdown('<script>alert("x")</script>')).toBe(
+      '<p>&lt;script&gt;alert(&quot;x&quot;)&lt;/script&gt;</p>'
+    );
+  });
+});
@@ -0,0 +1,114 @@
+/**
+ * Escapes the characters that have a meaning in HTML.
+ * @param text - The plain text.
+ */
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/**
+ * Renders the inline formatting of a single line: code, links, bold, italic and strikethrough.
+ * The text must already be escaped. Only `http` and `https` links are turned into anchors.
+ * @param text - The escaped line.
+ */
+function renderInline(text: string): string {
+  // Code spans and links are replaced by placeholders first, so their content is not formatted
+  const placeholders: string[] = [];
+  const hold = (html: string) => `\u0000${placeholders.push(html) - 1}\u0000`;
+  let html = text
+    .replace(/`([^`]+)`/g, (_, code: string) => hold(`<code>${code}</code>`))
+    .replace(/\[([^\]]+)\]\((https?:\/\/[^\s)]+)\)/g, (_, label: string, url: string) =>
+      hold(`<a href="${url}" target="_blank" rel="noopener noreferrer">${label}</a>`)
+    );
+
+  html = html
+    .replace(/\*\*(.+?)\*\*/g, '<strong>$1</strong>')
+    .replace(/__(.+?)__/g, '<strong>$1</strong>')
+    .replace(/(^|[^*])\*(?!\s)(.+?)\*(?!\*)/g, '$1<em>$2</em>')
+    .replace(/(^|\W)_(?!\s)(.+?)_(?=\W|$)/g, '$1<em>$2</em>')
+    .replace(/~~(.+?)~~/g, '<del>$1</del>');
+
+  return html.replace(/\u0000(\d+)\u0000/g, (_, index: string) => placeholders[Number(index)]);
+}
+
+/**
+ * Converts the Markdown of a note into HTML.
+ *
+ * Supports the formatting commonly used in notes: headings, paragraphs with line breaks,
+ * bulleted and numbered lists, quotes, code blocks, code spans, links, bold, italic and
+ * strikethrough. All other text is escaped, so the result is safe to bind to `innerHTML`.
+ *
+ * @param markdown - The text of the note.
+ * @returns The HTML.
+ */
+export function renderMarkdown(markdown: string): string {
+  const lines = markdown.replace(/\r\n?/g, '\n').split('\n');
+  const blocks: string[] = [];
+  let paragraph: string[] = [];
+  // Cast, so the type is not narrowed to null; the list is reset inside flush()
+  let list = null as { tag: 'ul' | 'ol'; items: string[] } | null;
+  let quote: string[] = [];
+
+  const flush = () => {
+    if (paragraph.length > 0) {
+      blocks.push(`<p>${paragraph.map(renderInline).join('<br>')}</p>`);
+      paragraph = [];
+    }
+    if (list) {
+      blocks.push(`<${list.tag}>${list.items.map((item) => `<li>${renderInline(item)}</li>`).join('')}</${list.tag}>`);
+      list = null;
+    }
+    if (quote.length > 0) {
+      blocks.push(`<blockquote>${quote.map(renderInline).join('<br>')}</blockquote>`);
+      quote = [];
+    }
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = escapeHtml(lines[i]);
+
+    if (line.trim().startsWith('```')) {
+      flush();
+      const code: string[] = [];
+      while (++i < lines.length && !lines[i].trim().startsWith('```')) {
+        code.push(escapeHtml(lines[i]));
+      }
+      blocks.push(`<pre><code>${code.join('\n')}</code></pre>`);
+      continue;
+    }
+
+    const heading = line.match(/^(#{1,3})\s+(.*)$/);
+    const bullet = line.match(/^\s*[-*+]\s+(.*)$/);
+    const numbered = line.match(/^\s*\d+[.)]\s+(.*)$/);
+    const quoted = line.match(/^&gt;\s?(.*)$/);
+
+    if (!line.trim()) {
+      flush();
+    } else if (heading) {
+      flush();
+      const level = heading[1].length + 3;
+      blocks.push(`<h${level}>${renderInline(heading[2])}</h${level}>`);
+    } else if (bullet || numbered) {
+      const tag = bullet ? 'ul' : 'ol';
+      if (list?.tag !== tag || paragraph.length > 0 || quote.length > 0) {
+        flush();
+        list = { tag, items: [] };
+      }
+      list!.items.push((bullet ?? numbered)![1]);
+    } else if (quoted) {
+      if (paragraph.length > 0 || list) flush();
+      quote.push(quoted[1]);
+    } else {
+      if (list || quote.length > 0) flush();
+      paragraph.push(line);
+    }
+  }
+  flush();
+
+  return blocks.join('');
+}
@@ -0,0 +1,30 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { provideHttpClient } from '@angular/common/http';
+import { provideToastr } from 'ngx-toastr';
+
+import { NotesPanel } from './notes-panel';
+
+describe('NotesPanel', () => {
+  let component: NotesPanel;
+  let fixture: ComponentFixture<NotesPanel>;
+
+  beforeEach(async () => {
+    await TestBed.configureTestingModule({
+      imports: [NotesPanel],
+      providers: [provideHttpClient(), provideToastr()]
+    })
+    .compileComponents();
+
+    fixture = TestBed.createComponent(NotesPanel);
+    component = fixture.componentInstance;
+    fixture.componentRef.setInput('applicationId', 1);
+    fixture.componentRef.setInput('notes', [
+      { id: 1, text: '**Rückruf** am Freitag', created_at: '2024-03-01T10:00:00Z' },
+    ]);
+    fixture.detectChanges();
+  });
+
+  it('should create', () => {
+    expect(component).toBeTruthy();
+  });
+});
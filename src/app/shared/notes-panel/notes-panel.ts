@@ -0,0 +1,157 @@
+import { Component, computed, inject, input, linkedSignal, signal } from '@angular/core';
+import { DatePipe } from '@angular/common';
+import { FormControl, ReactiveFormsModule, Validators } from '@angular/forms';
+import { finalize } from 'rxjs/operators';
+import { DataStoreService } from '../../services/data-store';
+import { ApiErrorService } from '../../services/api-error';
+import { OfflineQueueService, isTemporaryId } from '../../services/offline-queue';
+import { ConfirmDialog } from '../confirm-dialog/confirm-dialog';
+import { Note } from '../../models/api-interfaces';
+import { renderMarkdown } from './markdown';
+
+/**
+ * Lists the notes of an application and lets the user add, edit and delete them.
+ *
+ * Every change is saved right away with its own API call. Notes are written in Markdown,
+ * rendered as formatted text and shown newest first with their creation time. Notes cannot
+ * be changed while offline or for applications that have not been synced yet.
+ *
+ * @example
+ * ```html
+ * <app-notes-panel [applicationId]="application.id" [notes]="application.notes"></app-notes-panel>
+ * ```
+ */
+@Component({
+  selector: 'app-notes-panel',
+  standalone: true,
+  imports: [DatePipe, ReactiveFormsModule, ConfirmDialog],
+  templateUrl: './notes-panel.html',
+  styleUrl: './notes-panel.scss',
+})
+export class NotesPanel {
+  private store = inject(DataStoreService);
+  private apiErrorService = inject(ApiErrorService);
+  private offlineQueue = inject(OfflineQueueService);
+
+  /** The ID of the application the notes belong to. */
+  applicationId = input.required<number>();
+
+  /** The saved notes of the application. */
+  notes = input<Note[]>([]);
+
+  /** The notes shown in the panel, updated after each saved change. */
+  private items = linkedSignal(() => this.notes());
+
+  /** The notes, newest first, with their text rendered as HTML. */
+  renderedNotes = computed(() =>
+    [...this.items()]
+      .sort((a, b) => b.created_at.localeCompare(a.created_at))
+      .map((note) => ({ note, html: renderMarkdown(note.text) }))
+  );
+
+  /** Whether notes can be changed; they are saved directly and cannot be queued offline. */
+  canEdit = computed(() => this.offlineQueue.online() && !isTemporaryId(this.applicationId()));
+
+  /** The text of the note being added. */
+  newNoteControl = new FormControl('', { nonNullable: true, validators: Validators.required });
+
+  /** The text of the note being edited. */
+  editControl = new FormControl('', { nonNullable: true, validators: Validators.required });
+
+  /**
+   * The ID of the note being edited, or `null` if no note is being edited.
+   * @default null
+   */
+  editingId = signal<number | null>(null);
+
+  /**
+   * The note the user wants to delete. While set, the confirmation dialog is displayed.
+   * @default null
+   */
+  noteToDelete = signal<Note | null>(null);
+
+  /**
+   * Whether a change is being saved; disables the actions.
+   * @default false
+   */
+  isSaving = signal(false);
+
+  /**
+   * Saves the entered text as a new note.
+   */
+  addNote(): void {
+    const text = this.newNoteControl.value.trim();
+    if (!text || !this.canEdit()) return;
+
+    this.isSaving.set(true);
+    this.store
+      .createNote({ application: this.applicationId(), text })
+      .pipe(finalize(() => this.isSaving.set(false)))
+      .subscribe({
+        next: (note) => {
+          this.items.update((notes) => [...notes, note]);
+          this.newNoteControl.reset();
+        },
+        error: (err) => this.apiErrorService.handle(err, { title: 'Note could not be added' }),
+      });
+  }
+
+  /**
+   * Opens the editor for a note.
+   * @param note - The note to edit.
+   */
+  startEdit(note: Note): void {
+    this.editingId.set(note.id);
+    this.editControl.reset(note.text);
+  }
+
+  /**
+   * Closes the editor without saving.
+   */
+  cancelEdit(): void {
+    this.editingId.set(null);
+  }
+
+  /**
+   * Saves the edited text of a note. An unchanged text only closes the editor.
+   * @param note - The edited note.
+   */
+  saveEdit(note: Note): void {
+    const text = this.editControl.value.trim();
+    if (!text) return;
+    if (text === note.text) {
+      this.cancelEdit();
+      return;
+    }
+
+    this.isSaving.set(true);
+    this.store
+      .updateNote(this.applicationId(), note.id, text)
+      .pipe(finalize(() => this.isSaving.set(false)))
+      .subscribe({
+        next: (updated) => {
+          this.items.update((notes) => notes.map((n) => (n.id === updated.id ? updated : n)));
+          this.cancelEdit();
+        },
+        error: (err) => this.apiErrorService.handle(err, { title: 'Note could not be saved' }),
+      });
+  }
+
+  /**
+   * Deletes the note selected in the confirmation dialog.
+   */
+  confirmDelete(): void {
+    const note = this.noteToDelete();
+    this.noteToDelete.set(null);
+    if (!note) return;
+
+    this.isSaving.set(true);
+    this.store
+      .deleteNote(this.applicationId(), note.id)
+      .pipe(finalize(() => this.isSaving.set(false)))
+      .subscribe({
+        next: () => this.items.update((notes) => notes.filter((n) => n.id !== note.id)),
+        error: (err) => this.apiErrorService.handle(err, { title: 'Note could not be deleted' }),
+      });
+  }
+}
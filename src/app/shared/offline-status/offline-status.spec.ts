@@ -0,0 +1,26 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { provideHttpClient } from '@angular/common/http';
+import { provideToastr } from 'ngx-toastr';
+
+import { OfflineStatus } from './offline-status';
+
+describe('OfflineStatus', () => {
+  let component: OfflineStatus;
+  let fixture: ComponentFixture<OfflineStatus>;
+
+  beforeEach(async () => {
+    await TestBed.configureTestingModule({
+      imports: [OfflineStatus],
+      providers: [provideHttpClient(), provideToastr()]
+    })
+    .compileComponents();
+
+    fixture = TestBed.createComponent(OfflineStatus);
+    component = fixture.componentInstance;
+    fixture.detectChanges();
+  });
+
+  it('should create', () => {
+    expect(component).toBeTruthy();
+  });
+});
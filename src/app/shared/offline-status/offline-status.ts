@@ -0,0 +1,30 @@
+import { Component, inject } from '@angular/core';
+import { DatePipe } from '@angular/common';
+import { OfflineQueueService, describeMutation } from '../../services/offline-queue';
+
+/**
+ * Shows the connection state and the changes waiting to be synced.
+ *
+ * Hidden while online with an empty queue. Changes that could not be synced are listed
+ * with the reason, and the user can send them again (overwriting the server's version in
+ * case of a conflict) or discard them.
+ *
+ * @example
+ * ```html
+ * <app-offline-status></app-offline-status>
+ * ```
+ */
+@Component({
+  selector: 'app-offline-status',
+  standalone: true,
+  imports: [DatePipe],
+  templateUrl: './offline-status.html',
+  styleUrl: './offline-status.scss',
+})
+export class OfflineStatus {
+  /** The queue whose state is displayed. */
+  protected offlineQueue = inject(OfflineQueueService);
+
+  /** Describes the entity a queued change refers to. */
+  protected readonly describe = describeMutation;
+}
@@ -0,0 +1,23 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+
+import { ServerError } from './server-error';
+
+describe('ServerError', () => {
+  let component: ServerError;
+  let fixture: ComponentFixture<ServerError>;
+
+  beforeEach(async () => {
+    await TestBed.configureTestingModule({
+      imports: [ServerError]
+    })
+    .compileComponents();
+
+    fixture = TestBed.createComponent(ServerError);
+    component = fixture.componentInstance;
+    fixture.detectChanges();
+  });
+
+  it('should create', () => {
+    expect(component).toBeTruthy();
+  });
+});
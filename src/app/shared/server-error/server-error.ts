@@ -0,0 +1,25 @@
+import { Component, input } from '@angular/core';
+import { AbstractControl } from '@angular/forms';
+
+/**
+ * Displays the validation message the server returned for a form control.
+ *
+ * The message is set by {@link ApiErrorService.applyFieldErrors} as the control's
+ * `server` error and disappears as soon as the user edits the field.
+ *
+ * @example
+ * ```html
+ * <input formControlName="job_title" />
+ * <app-server-error [control]="applicationForm.get('job_title')"></app-server-error>
+ * ```
+ */
+@Component({
+  selector: 'app-server-error',
+  standalone: true,
+  templateUrl: './server-error.html',
+  styleUrl: './server-error.scss',
+})
+export class ServerError {
+  /** The form control whose server error should be displayed. */
+  control = input<AbstractControl | null>();
+}
@@ -0,0 +1,45 @@
+import { TestBed } from '@angular/core/testing';
+import { ActivatedRouteSnapshot, CanDeactivateFn, RouterStateSnapshot } from '@angular/router';
+import { Observable, of } from 'rxjs';
+
+import { CanComponentDeactivate, unsavedChangesGuard } from './unsaved-changes-guard';
+
+describe('unsavedChangesGuard', () => {
+  const executeGuard: CanDeactivateFn<CanComponentDeactivate> = (...guardParameters) =>
+      TestBed.runInInjectionContext(() => unsavedChangesGuard(...guardParameters));
+
+  /** Runs the guard for a component that answers with the given decision. */
+  const leave = (decision: boolean | Observable<boolean>) => {
+    const component: CanComponentDeactivate = { canDeactivate: jasmine.createSpy().and.returnValue(decision) };
+    const result = executeGuard(
+      component,
+      {} as ActivatedRouteSnapshot,
+      {} as RouterStateSnapshot,
+      {} as RouterStateSnapshot
+    );
+    expect(component.canDeactivate).toHaveBeenCalled();
+    return result;
+  };
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({});
+  });
+
+  it('should be created', () => {
+    expect(executeGuard).toBeTruthy();
+  });
+
+  it('should let the user leave a component without unsaved changes', () => {
+    expect(leave(true)).toBeTrue();
+  });
+
+  it('should keep the user on a component that refuses to be left', () => {
+    expect(leave(false)).toBeFalse();
+  });
+
+  it('should wait for the user to confirm leaving', () => {
+    let decision: boolean | undefined;
+    (leave(of(true)) as Observable<boolean>).subscribe((value) => (decision = value));
+    expect(decision).toBeTrue();
+  });
+});
@@ -0,0 +1,21 @@
+import { CanDeactivateFn } from '@angular/router';
+import { Observable } from 'rxjs';
+
+/**
+ * Implemented by components that have to confirm before the user leaves them,
+ * e.g. because a form contains unsaved changes.
+ */
+export interface CanComponentDeactivate {
+  /**
+   * Decides whether the user may leave the component.
+   * @returns `true` to leave immediately, or an Observable emitting the user's decision.
+   */
+  canDeactivate(): boolean | Observable<boolean>;
+}
+
+/**
+ * Asks the routed component whether it may be left, so that edits are not discarded
+ * silently when the user follows a navigation link.
+ */
+export const unsavedChangesGuard: CanDeactivateFn<CanComponentDeactivate> = (component) =>
+  component.canDeactivate();
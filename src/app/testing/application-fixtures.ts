@@ -0,0 +1,33 @@
+import { Application } from '../models/api-interfaces';
+
+/**
+ * Builds an application for tests: an applied-for position at "Tech Corp" without any
+ * dates, notes or contact, with the given fields replaced.
+ *
+ * @param overrides - The fields that differ from the defaults.
+ * @example
+ * ```typescript
+ * const application = buildApplication({ id: 2, follow_up_on: '2024-03-14' });
+ * ```
+ */
+export function buildApplication(overrides: Partial<Application> = {}): Application {
+  return {
+    id: 1,
+    job_title: 'Frontend Developer',
+    company: { id: 1, name: 'Tech Corp', website: null, industry: 'IT' },
+    contact: null,
+    status: 'APPLIED',
+    status_display: 'Beworben',
+    applied_on: null,
+    interview_on: null,
+    offer_on: null,
+    rejected_on: null,
+    follow_up_on: null,
+    job_posting_link: '',
+    salary_expectation: null,
+    created_at: '2024-01-01T10:00:00Z',
+    archived: false,
+    notes: [],
+    ...overrides,
+  };
+}
@@ -0,0 +1,9 @@
+/**
+ * Build configuration for development.
+ * The relative API URL is forwarded to the backend by the dev server proxy (see `proxy.conf.json`).
+ */
+export const environment = {
+  production: false,
+  /** Base URL of the backend API, without a trailing slash. */
+  apiUrl: '/api',
+};
@@ -0,0 +1,9 @@
+/**
+ * Build configuration for production.
+ * Replaced by `environment.development.ts` in development builds (see `angular.json`).
+ */
+export const environment = {
+  production: true,
+  /** Base URL of the backend API, without a trailing slash. */
+  apiUrl: 'https://server-tracker.martin-bock.info/api',
+};